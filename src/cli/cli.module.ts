@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { PlansModule } from '../plans/plans.module';
+
+/**
+ * CLI Module - application context for one-off commands
+ *
+ * Same providers as the app, but no HTTP server and no ScheduleModule,
+ * so background workers (retry, queue) never start inside a command
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+    DatabaseModule,
+    WebhooksModule,
+    PlansModule,
+  ],
+})
+export class CliModule {}
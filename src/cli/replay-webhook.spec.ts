@@ -0,0 +1,29 @@
+import { userInfo } from 'os';
+import { parseReplayArgs } from './replay-webhook';
+
+describe('parseReplayArgs', () => {
+  it('should parse event id, --force and --by', () => {
+    expect(parseReplayArgs(['event-id', '--force', '--by', 'alice'])).toEqual({
+      webhookEventId: 'event-id',
+      force: true,
+      requestedBy: 'alice',
+    });
+  });
+
+  it('should default to a non-forced replay attributed to the OS user', () => {
+    expect(parseReplayArgs(['event-id'])).toEqual({
+      webhookEventId: 'event-id',
+      force: false,
+      requestedBy: `cli:${userInfo().username}`,
+    });
+  });
+
+  it.each([
+    [[], 'Usage'],
+    [['event-id', '--by'], '--by needs a value'],
+    [['event-id', '--dry-run'], 'Unknown option --dry-run'],
+    [['event-id', 'other-id'], 'Unexpected argument other-id'],
+  ])('should reject %j', (argv, message) => {
+    expect(() => parseReplayArgs(argv)).toThrow(message);
+  });
+});
@@ -0,0 +1,89 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { userInfo } from 'os';
+import { CliModule } from './cli.module';
+import { WebhookReplayService } from '../webhooks/webhook-replay.service';
+
+const USAGE =
+  'Usage: npm run webhook:replay -- <webhookEventId> [--force] [--by <name>]';
+
+export interface ReplayCommandArgs {
+  webhookEventId: string;
+  force: boolean;
+  requestedBy: string;
+}
+
+/**
+ * Parse command line arguments
+ *
+ * `--by` defaults to the OS user, so every replay is attributed
+ */
+export function parseReplayArgs(argv: string[]): ReplayCommandArgs {
+  let webhookEventId: string | undefined;
+  let force = false;
+  let requestedBy: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--force') {
+      force = true;
+    } else if (arg === '--by') {
+      requestedBy = argv[++i];
+      if (!requestedBy) {
+        throw new Error(`--by needs a value\n${USAGE}`);
+      }
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}\n${USAGE}`);
+    } else if (!webhookEventId) {
+      webhookEventId = arg;
+    } else {
+      throw new Error(`Unexpected argument ${arg}\n${USAGE}`);
+    }
+  }
+
+  if (!webhookEventId) {
+    throw new Error(USAGE);
+  }
+
+  return {
+    webhookEventId,
+    force,
+    requestedBy: requestedBy ?? `cli:${userInfo().username}`,
+  };
+}
+
+/**
+ * CLI: replay one stored webhook event
+ *
+ *   npm run webhook:replay -- 3f0c... --force --by alice
+ *
+ * Prints the replay audit record, exits 1 if the replay failed
+ */
+async function main() {
+  const logger = new Logger('ReplayWebhook');
+  const args = parseReplayArgs(process.argv.slice(2));
+
+  const app = await NestFactory.createApplicationContext(CliModule);
+
+  try {
+    const replay = await app
+      .get(WebhookReplayService)
+      .replayEvent(args.webhookEventId, {
+        requestedBy: args.requestedBy,
+        force: args.force,
+      });
+
+    logger.log(JSON.stringify(replay, null, 2));
+    process.exitCode = replay.outcome === 'FAILED' ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error('Replay failed:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
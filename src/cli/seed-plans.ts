@@ -0,0 +1,68 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { BillingInterval } from '@prisma/client';
+import { CliModule } from './cli.module';
+import { PlansService } from '../plans/plans.service';
+import { CreatePlanDto } from '../plans/dto/create-plan.dto';
+
+/**
+ * Plans that used to be hard-coded in WebhooksService - webhooks for
+ * them are rejected until they exist in the catalog. Keeps the old $1
+ * tolerance and the old behaviour on mismatch (process, but flag).
+ */
+export const DEFAULT_PLANS: CreatePlanDto[] = [
+  {
+    code: 'monthly',
+    name: 'Monthly',
+    billingInterval: BillingInterval.MONTH,
+    prices: [{ currency: 'USD', amount: 999, tolerance: 100 }], // $9.99 ± $1
+  },
+  {
+    code: 'yearly',
+    name: 'Yearly',
+    billingInterval: BillingInterval.YEAR,
+    prices: [{ currency: 'USD', amount: 9999, tolerance: 100 }], // $99.99 ± $1
+  },
+  {
+    code: 'lifetime',
+    name: 'Lifetime',
+    billingInterval: BillingInterval.LIFETIME,
+    prices: [{ currency: 'USD', amount: 29999, tolerance: 100 }], // $299.99 ± $1
+  },
+];
+
+/**
+ * CLI: create the default plans
+ *
+ *   npm run plans:seed
+ *
+ * Safe to run on every deploy - existing plans are left untouched, so
+ * prices changed through the admin API are never overwritten
+ */
+async function main() {
+  const logger = new Logger('SeedPlans');
+  const app = await NestFactory.createApplicationContext(CliModule);
+
+  try {
+    const plansService = app.get(PlansService);
+
+    for (const plan of DEFAULT_PLANS) {
+      if (await plansService.findByCode(plan.code)) {
+        logger.log(`Plan ${plan.code} already exists - skipped`);
+        continue;
+      }
+
+      await plansService.createPlan(plan);
+      logger.log(`Plan ${plan.code} created`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error('Seeding failed:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
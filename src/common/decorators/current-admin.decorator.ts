@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AdminRequest, IAdminIdentity } from '../interfaces/admin.interface';
+
+/**
+ * Admin identity of the current request
+ *
+ * Only valid on routes protected by AdminApiKeyGuard
+ */
+export const CurrentAdmin = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): IAdminIdentity | undefined =>
+    context.switchToHttp().getRequest<AdminRequest>().admin,
+);
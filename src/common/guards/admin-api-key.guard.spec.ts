@@ -0,0 +1,92 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { AdminApiKeyGuard } from './admin-api-key.guard';
+
+describe('AdminApiKeyGuard', () => {
+  const apiKeys = [
+    { id: 'alice', key: 'alice_key_123' },
+    { id: 'ops-bot', key: 'ops_bot_key_456' },
+  ];
+
+  function createConfig(values: Record<string, unknown>) {
+    return { get: jest.fn((key: string) => values[key]) } as any;
+  }
+
+  function createMockContext(apiKey?: string) {
+    const request: any = {
+      path: '/admin/webhook-events',
+      headers: apiKey !== undefined ? { 'x-admin-api-key': apiKey } : {},
+    };
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+
+    return { context, request };
+  }
+
+  let guard: AdminApiKeyGuard;
+
+  beforeEach(() => {
+    guard = new AdminApiKeyGuard(createConfig({ ADMIN_API_KEYS: apiKeys }));
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('should allow a configured key and attach the admin identity', () => {
+    const { context, request } = createMockContext('ops_bot_key_456');
+
+    expect(guard.canActivate(context)).toBe(true);
+    expect(request.admin).toEqual({ id: 'ops-bot' });
+  });
+
+  it('should accept ADMIN_API_KEYS as a JSON string (env var)', () => {
+    const fromEnv = new AdminApiKeyGuard(
+      createConfig({ ADMIN_API_KEYS: JSON.stringify(apiKeys) }),
+    );
+    const { context, request } = createMockContext('alice_key_123');
+
+    expect(fromEnv.canActivate(context)).toBe(true);
+    expect(request.admin).toEqual({ id: 'alice' });
+  });
+
+  it('should reject a request without a key', () => {
+    const { context } = createMockContext();
+
+    expect(() => guard.canActivate(context)).toThrow('Missing admin API key');
+  });
+
+  it('should reject an unknown key', () => {
+    const { context, request } = createMockContext('wrong_key');
+
+    expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
+    expect(request.admin).toBeUndefined();
+  });
+
+  it('should reject every request when no keys are configured', () => {
+    const unconfigured = new AdminApiKeyGuard(createConfig({}));
+    const { context } = createMockContext('alice_key_123');
+
+    expect(() => unconfigured.canActivate(context)).toThrow(
+      'Invalid admin API key',
+    );
+  });
+
+  it.each([
+    ['not JSON', 'alice:key', 'ADMIN_API_KEYS must be a JSON array'],
+    [
+      'an entry without id',
+      [{ key: 'k' }],
+      'ADMIN_API_KEYS[0] is missing an id',
+    ],
+    [
+      'an entry without key',
+      [{ id: 'a' }],
+      'ADMIN_API_KEYS[0] is missing a key',
+    ],
+  ])('should throw on %s', (_case, value, message) => {
+    expect(
+      () => new AdminApiKeyGuard(createConfig({ ADMIN_API_KEYS: value })),
+    ).toThrow(message);
+  });
+});
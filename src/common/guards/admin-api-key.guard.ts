@@ -0,0 +1,66 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminRequest } from '../interfaces/admin.interface';
+import { findApiKey, IApiKey, loadApiKeys } from './api-keys';
+
+/**
+ * Admin API Key Guard
+ *
+ * SECURITY: Protects internal admin routes (event browsing, replays, ...)
+ *
+ * How it works:
+ * 1. Caller sends `x-admin-api-key: <key>`
+ * 2. Key is compared (timing-safe) against every configured key
+ * 3. Match → request.admin = { id }, otherwise → 401
+ *
+ * Keys are configured as a JSON list, one entry per person or system:
+ *   ADMIN_API_KEYS='[{"id":"alice","key":"..."},{"id":"ops-bot","key":"..."}]'
+ *
+ * EDGE CASE: No keys configured → the app still starts (admin routes are
+ * optional), but every admin request is rejected - fail closed
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(AdminApiKeyGuard.name);
+  private readonly apiKeys: IApiKey[];
+
+  constructor(configService: ConfigService) {
+    this.apiKeys = loadApiKeys(configService, 'ADMIN_API_KEYS');
+
+    if (this.apiKeys.length === 0) {
+      this.logger.warn(
+        'ADMIN_API_KEYS not configured - admin routes will reject all requests',
+      );
+    }
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AdminRequest>();
+    const header = request.headers['x-admin-api-key'];
+
+    if (typeof header !== 'string' || !header) {
+      this.logger.error('Missing admin API key in request headers');
+      throw new UnauthorizedException('Missing admin API key');
+    }
+
+    const matched = findApiKey(this.apiKeys, header);
+
+    if (!matched) {
+      this.logger.error('Invalid admin API key', {
+        path: request.path,
+        received: header.substring(0, 4) + '...',
+      });
+      throw new UnauthorizedException('Invalid admin API key');
+    }
+
+    request.admin = { id: matched.id };
+    this.logger.log(`Admin request authorized (key: ${matched.id})`);
+    return true;
+  }
+}
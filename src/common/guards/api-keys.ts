@@ -0,0 +1,69 @@
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+/**
+ * An API key accepted by a guard
+ *
+ * `id` identifies who is calling (audit records, logs)
+ */
+export interface IApiKey {
+  id: string;
+  digest: Buffer;
+}
+
+/**
+ * Load API keys from a config entry holding a JSON list of { id, key }
+ *
+ * Throws on a malformed list - a typo must not silently lock everyone out
+ */
+export function loadApiKeys(
+  configService: ConfigService,
+  name: string,
+): IApiKey[] {
+  // Env vars arrive as a JSON string, ConfigModule `load` may pass an array
+  const configured = configService.get<string | unknown[]>(name);
+
+  if (!configured) {
+    return [];
+  }
+
+  let entries: unknown = configured;
+  if (typeof configured === 'string') {
+    try {
+      entries = JSON.parse(configured);
+    } catch {
+      entries = undefined;
+    }
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`${name} must be a JSON array of { id, key }`);
+  }
+
+  return entries.map((entry: Record<string, unknown>, index: number) => {
+    if (typeof entry?.id !== 'string' || !entry.id) {
+      throw new Error(`${name}[${index}] is missing an id`);
+    }
+    if (typeof entry.key !== 'string' || !entry.key) {
+      throw new Error(`${name}[${index}] is missing a key`);
+    }
+
+    return { id: entry.id, digest: digestApiKey(entry.key) };
+  });
+}
+
+/**
+ * Configured key matching the received one, compared timing-safe
+ */
+export function findApiKey(
+  apiKeys: IApiKey[],
+  received: string,
+): IApiKey | undefined {
+  // Compare fixed-length digests - timingSafeEqual needs equal lengths
+  const digest = digestApiKey(received);
+  return apiKeys.find((k) => crypto.timingSafeEqual(k.digest, digest));
+}
+
+function digestApiKey(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
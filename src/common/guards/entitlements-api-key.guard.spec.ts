@@ -0,0 +1,44 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { EntitlementsApiKeyGuard } from './entitlements-api-key.guard';
+
+describe('EntitlementsApiKeyGuard', () => {
+  function createConfig(values: Record<string, unknown>) {
+    return { get: jest.fn((key: string) => values[key]) } as any;
+  }
+
+  function createMockContext(headers: Record<string, string>) {
+    const request: any = { path: '/users/user-1/entitlements', headers };
+    return {
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+  }
+
+  const guard = new EntitlementsApiKeyGuard(
+    createConfig({
+      ENTITLEMENTS_API_KEYS: [{ id: 'web-app', key: 'web_app_key_123' }],
+      ADMIN_API_KEYS: [{ id: 'alice', key: 'alice_key_123' }],
+    }),
+  );
+
+  it('should allow a configured entitlements key', () => {
+    expect(
+      guard.canActivate(
+        createMockContext({ 'x-entitlements-api-key': 'web_app_key_123' }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should not accept an admin key', () => {
+    expect(() =>
+      guard.canActivate(
+        createMockContext({ 'x-entitlements-api-key': 'alice_key_123' }),
+      ),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('should reject a request without a key', () => {
+    expect(() => guard.canActivate(createMockContext({}))).toThrow(
+      'Missing entitlements API key',
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { findApiKey, IApiKey, loadApiKeys } from './api-keys';
+
+/**
+ * Entitlements API Key Guard
+ *
+ * SECURITY: Protects the read-only entitlement routes product services
+ * call on every request. Their keys are separate from admin keys, so a
+ * leaked product key can't cancel subscriptions, replay webhooks or edit
+ * plans.
+ *
+ * How it works:
+ * 1. Caller sends `x-entitlements-api-key: <key>`
+ * 2. Key is compared (timing-safe) against every configured key
+ * 3. Match → allowed, otherwise → 401
+ *
+ * Keys are configured like admin keys, one entry per product service:
+ *   ENTITLEMENTS_API_KEYS='[{"id":"web-app","key":"..."}]'
+ *
+ * EDGE CASE: No keys configured → every request is rejected - fail closed
+ */
+@Injectable()
+export class EntitlementsApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(EntitlementsApiKeyGuard.name);
+  private readonly apiKeys: IApiKey[];
+
+  constructor(configService: ConfigService) {
+    this.apiKeys = loadApiKeys(configService, 'ENTITLEMENTS_API_KEYS');
+
+    if (this.apiKeys.length === 0) {
+      this.logger.warn(
+        'ENTITLEMENTS_API_KEYS not configured - entitlement routes will reject all requests',
+      );
+    }
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const header = request.headers['x-entitlements-api-key'];
+
+    if (typeof header !== 'string' || !header) {
+      throw new UnauthorizedException('Missing entitlements API key');
+    }
+
+    // No success log - this runs on every product request
+    if (!findApiKey(this.apiKeys, header)) {
+      this.logger.error('Invalid entitlements API key', {
+        path: request.path,
+        received: header.substring(0, 4) + '...',
+      });
+      throw new UnauthorizedException('Invalid entitlements API key');
+    }
+
+    return true;
+  }
+}
@@ -1,4 +1,8 @@
-import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import {
+  ExecutionContext,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { WebhookSignatureGuard } from './webhook-signature.guard';
 import * as crypto from 'crypto';
@@ -8,15 +12,27 @@ describe('WebhookSignatureGuard', () => {
   let guard: WebhookSignatureGuard;
   let mockConfigService: jest.Mocked<ConfigService>;
 
+  function createConfig(
+    overrides: Record<string, unknown> = {},
+  ): jest.Mocked<ConfigService> {
+    const values: Record<string, unknown> = {
+      WEBHOOK_SECRET: webhookSecret,
+      ...overrides,
+    };
+    return { get: jest.fn((key: string) => values[key]) } as any;
+  }
+
   beforeEach(() => {
-    mockConfigService = {
-      get: jest.fn().mockReturnValue(webhookSecret),
-    } as any;
+    mockConfigService = createConfig();
 
     guard = new WebhookSignatureGuard(mockConfigService);
   });
 
-  function createMockContext(body: any, signature?: string): ExecutionContext {
+  function createMockContext(
+    body: any,
+    signature?: string,
+    rawBody: string | null = JSON.stringify(body),
+  ): ExecutionContext {
     return {
       switchToHttp: () => ({
         getRequest: () => ({
@@ -26,16 +42,30 @@ describe('WebhookSignatureGuard', () => {
               : {}),
           },
           body,
+          rawBody: rawBody !== null ? Buffer.from(rawBody) : undefined,
         }),
       }),
     } as any;
   }
 
+  function nowSeconds(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  function hmac(data: string, secret = webhookSecret): string {
+    return crypto.createHmac('sha256', secret).update(data).digest('hex');
+  }
+
   function computeSignature(body: any): string {
-    return crypto
-      .createHmac('sha256', webhookSecret)
-      .update(JSON.stringify(body))
-      .digest('hex');
+    return signRaw(JSON.stringify(body));
+  }
+
+  function signRaw(
+    raw: string,
+    timestamp = nowSeconds(),
+    secret = webhookSecret,
+  ): string {
+    return `t=${timestamp},v1=${hmac(`${timestamp}.${raw}`, secret)}`;
   }
 
   it('should be defined', () => {
@@ -50,6 +80,16 @@ describe('WebhookSignatureGuard', () => {
     );
   });
 
+  it('should throw if tolerance is not a positive number', () => {
+    const badConfig = createConfig({
+      WEBHOOK_SIGNATURE_TOLERANCE_SECONDS: 'abc',
+    });
+
+    expect(() => new WebhookSignatureGuard(badConfig)).toThrow(
+      'WEBHOOK_SIGNATURE_TOLERANCE_SECONDS must be a positive number',
+    );
+  });
+
   describe('valid signatures', () => {
     it('should allow request with valid HMAC SHA256 signature', () => {
       const body = { externalPaymentId: 'pay_123', amount: 999 };
@@ -66,6 +106,347 @@ describe('WebhookSignatureGuard', () => {
 
       expect(guard.canActivate(context)).toBe(true);
     });
+
+    it('should accept header with several v1 signatures if one matches', () => {
+      const body = { externalPaymentId: 'pay_123' };
+      const raw = JSON.stringify(body);
+      const timestamp = nowSeconds();
+      const header = `t=${timestamp},v1=${'0'.repeat(64)},v1=${hmac(`${timestamp}.${raw}`)}`;
+      const context = createMockContext(body, header);
+
+      expect(guard.canActivate(context)).toBe(true);
+    });
+  });
+
+  describe('timestamp tolerance', () => {
+    const body = { externalPaymentId: 'pay_123', amount: 999 };
+    const raw = JSON.stringify(body);
+
+    it('should accept delivery signed within the tolerance window', () => {
+      const context = createMockContext(body, signRaw(raw, nowSeconds() - 299));
+
+      expect(guard.canActivate(context)).toBe(true);
+    });
+
+    it('should reject delivery signed before the tolerance window', () => {
+      const context = createMockContext(body, signRaw(raw, nowSeconds() - 301));
+
+      expect(() => guard.canActivate(context)).toThrow(
+        'Webhook timestamp outside tolerance window',
+      );
+    });
+
+    it('should reject delivery signed too far in the future', () => {
+      const context = createMockContext(body, signRaw(raw, nowSeconds() + 301));
+
+      expect(() => guard.canActivate(context)).toThrow(
+        'Webhook timestamp outside tolerance window',
+      );
+    });
+
+    it('should use configured tolerance', () => {
+      const strictGuard = new WebhookSignatureGuard(
+        createConfig({ WEBHOOK_SIGNATURE_TOLERANCE_SECONDS: '60' }),
+      );
+      const context = createMockContext(body, signRaw(raw, nowSeconds() - 61));
+
+      expect(() => strictGuard.canActivate(context)).toThrow(
+        'Webhook timestamp outside tolerance window',
+      );
+    });
+
+    it('should reject when timestamp was changed after signing', () => {
+      const timestamp = nowSeconds() - 1000;
+      const signature = hmac(`${timestamp}.${raw}`);
+      // Attacker refreshes the timestamp but can't re-sign
+      const header = `t=${nowSeconds()},v1=${signature}`;
+      const context = createMockContext(body, header);
+
+      expect(() => guard.canActivate(context)).toThrow(
+        'Invalid webhook signature',
+      );
+    });
+  });
+
+  describe('replay protection', () => {
+    const body = { externalPaymentId: 'pay_123', amount: 999 };
+    const raw = JSON.stringify(body);
+
+    it('should reject the same signed delivery inside the window', () => {
+      const header = signRaw(raw);
+
+      expect(guard.canActivate(createMockContext(body, header))).toBe(true);
+      expect(() => guard.canActivate(createMockContext(body, header))).toThrow(
+        'Webhook signature already used',
+      );
+    });
+
+    it('should accept a re-signed delivery with a new timestamp', () => {
+      const first = signRaw(raw, nowSeconds() - 10);
+      const second = signRaw(raw, nowSeconds());
+
+      expect(guard.canActivate(createMockContext(body, first))).toBe(true);
+      expect(guard.canActivate(createMockContext(body, second))).toBe(true);
+    });
+
+    it('should not remember signatures that failed verification', () => {
+      const timestamp = nowSeconds();
+      const header = signRaw(raw, timestamp);
+      const tampered = createMockContext({ amount: 1 }, header);
+
+      expect(() => guard.canActivate(tampered)).toThrow(UnauthorizedException);
+      expect(guard.canActivate(createMockContext(body, header))).toBe(true);
+    });
+  });
+
+  describe('malformed headers', () => {
+    const body = { externalPaymentId: 'pay_123' };
+
+    it('should reject non-numeric timestamp', () => {
+      const context = createMockContext(body, `t=abc,v1=${'a'.repeat(64)}`);
+
+      expect(() => guard.canActivate(context)).toThrow(
+        'Invalid webhook signature format',
+      );
+    });
+
+    it('should reject header with timestamp but no v1 signature', () => {
+      const context = createMockContext(body, `t=${nowSeconds()}`);
+
+      expect(() => guard.canActivate(context)).toThrow(
+        'Invalid webhook signature format',
+      );
+    });
+  });
+
+  describe('secret rotation', () => {
+    const body = { externalPaymentId: 'pay_123', amount: 999 };
+    const raw = JSON.stringify(body);
+    const oldSecret = 'old_secret_abc';
+    const newSecret = 'new_secret_xyz';
+    let rotationGuard: WebhookSignatureGuard;
+    let logSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      rotationGuard = new WebhookSignatureGuard(
+        createConfig({
+          WEBHOOK_SECRET: undefined,
+          WEBHOOK_SECRETS: JSON.stringify([
+            { id: 'new', secret: newSecret },
+            {
+              id: 'old',
+              secret: oldSecret,
+              expiresAt: new Date(Date.now() + 60_000).toISOString(),
+            },
+          ]),
+        }),
+      );
+      logSpy = jest.spyOn(Logger.prototype, 'log');
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+    });
+
+    it('should accept signature from the new secret', () => {
+      const context = createMockContext(
+        body,
+        signRaw(raw, nowSeconds(), newSecret),
+      );
+
+      expect(rotationGuard.canActivate(context)).toBe(true);
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining('(secret: new)'),
+      );
+    });
+
+    it('should accept signature from the old secret before it expires', () => {
+      const context = createMockContext(
+        body,
+        signRaw(raw, nowSeconds(), oldSecret),
+      );
+
+      expect(rotationGuard.canActivate(context)).toBe(true);
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining('(secret: old)'),
+      );
+    });
+
+    it("should reject a replay that carries the other secret's signature", () => {
+      const timestamp = nowSeconds();
+      const signedPayload = `${timestamp}.${raw}`;
+      const newV1 = hmac(signedPayload, newSecret);
+      const oldV1 = hmac(signedPayload, oldSecret);
+
+      // Provider signs with both secrets during rotation
+      expect(
+        rotationGuard.canActivate(
+          createMockContext(body, `t=${timestamp},v1=${newV1},v1=${oldV1}`),
+        ),
+      ).toBe(true);
+
+      // Replaying with only the old v1 is still the same delivery
+      expect(() =>
+        rotationGuard.canActivate(
+          createMockContext(body, `t=${timestamp},v1=${oldV1}`),
+        ),
+      ).toThrow('Webhook signature already used');
+    });
+
+    it('should reject signature from an expired secret', () => {
+      const expiredGuard = new WebhookSignatureGuard(
+        createConfig({
+          WEBHOOK_SECRETS: [
+            {
+              id: 'old',
+              secret: oldSecret,
+              expiresAt: new Date(Date.now() - 1000).toISOString(),
+            },
+          ],
+        }),
+      );
+      const context = createMockContext(
+        body,
+        signRaw(raw, nowSeconds(), oldSecret),
+      );
+
+      expect(() => expiredGuard.canActivate(context)).toThrow(
+        'Invalid webhook signature',
+      );
+    });
+
+    it('should reject signature from an unknown secret', () => {
+      const context = createMockContext(
+        body,
+        signRaw(raw, nowSeconds(), 'not_a_configured_secret'),
+      );
+
+      expect(() => rotationGuard.canActivate(context)).toThrow(
+        'Invalid webhook signature',
+      );
+    });
+
+    it('should merge WEBHOOK_SECRET with WEBHOOK_SECRETS as "default"', () => {
+      const mergedGuard = new WebhookSignatureGuard(
+        createConfig({
+          WEBHOOK_SECRETS: JSON.stringify([{ id: 'new', secret: newSecret }]),
+        }),
+      );
+      const context = createMockContext(body, signRaw(raw));
+
+      expect(mergedGuard.canActivate(context)).toBe(true);
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining('(secret: default)'),
+      );
+    });
+
+    it('should throw if WEBHOOK_SECRETS is not a JSON array', () => {
+      expect(
+        () =>
+          new WebhookSignatureGuard(
+            createConfig({ WEBHOOK_SECRETS: '{not json' }),
+          ),
+      ).toThrow('WEBHOOK_SECRETS must be a JSON array');
+    });
+
+    it('should throw if a WEBHOOK_SECRETS entry has no secret', () => {
+      expect(
+        () =>
+          new WebhookSignatureGuard(
+            createConfig({ WEBHOOK_SECRETS: JSON.stringify([{ id: 'x' }]) }),
+          ),
+      ).toThrow('WEBHOOK_SECRETS[0] is missing a secret');
+    });
+
+    it('should throw if a WEBHOOK_SECRETS entry has an invalid expiry', () => {
+      expect(
+        () =>
+          new WebhookSignatureGuard(
+            createConfig({
+              WEBHOOK_SECRETS: JSON.stringify([
+                { secret: 'abc', expiresAt: 'someday' },
+              ]),
+            }),
+          ),
+      ).toThrow('WEBHOOK_SECRETS[0] has invalid expiresAt');
+    });
+  });
+
+  describe('legacy signatures', () => {
+    const body = { externalPaymentId: 'pay_123', amount: 999 };
+    const legacySignature = hmac(JSON.stringify(body));
+
+    it('should reject untimestamped signature by default', () => {
+      const context = createMockContext(body, legacySignature);
+
+      expect(() => guard.canActivate(context)).toThrow(
+        'Missing webhook signature timestamp',
+      );
+    });
+
+    it('should accept untimestamped signature when legacy mode is enabled', () => {
+      const legacyGuard = new WebhookSignatureGuard(
+        createConfig({ WEBHOOK_ALLOW_LEGACY_SIGNATURES: 'true' }),
+      );
+      const context = createMockContext(body, legacySignature);
+
+      expect(legacyGuard.canActivate(context)).toBe(true);
+    });
+
+    it('should still reject invalid untimestamped signature in legacy mode', () => {
+      const legacyGuard = new WebhookSignatureGuard(
+        createConfig({ WEBHOOK_ALLOW_LEGACY_SIGNATURES: 'true' }),
+      );
+      const context = createMockContext({ amount: 1 }, legacySignature);
+
+      expect(() => legacyGuard.canActivate(context)).toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('raw body verification', () => {
+    // Each raw payload parses to a body whose JSON.stringify differs from
+    // the bytes the provider actually signed
+    const providerPayloads: Record<string, string> = {
+      'reordered integer-like keys':
+        '{"externalPaymentId":"pay_123","10":1,"2":0}',
+      'pretty-printed whitespace':
+        '{\n  "externalPaymentId": "pay_123",\n  "amount": 999\n}',
+      'unicode escapes': '{"name":"Caf\\u00e9","externalPaymentId":"pay_123"}',
+      'big numbers':
+        '{"externalPaymentId":"pay_123","ref":12345678901234567890}',
+    };
+
+    it.each(Object.entries(providerPayloads))(
+      'should verify payload with %s using the original bytes',
+      (_label, raw) => {
+        const body = JSON.parse(raw);
+        const context = createMockContext(body, signRaw(raw), raw);
+
+        expect(JSON.stringify(body)).not.toBe(raw);
+        expect(guard.canActivate(context)).toBe(true);
+      },
+    );
+
+    it.each(Object.entries(providerPayloads))(
+      'should reject payload with %s signed over re-serialized JSON',
+      (_label, raw) => {
+        const body = JSON.parse(raw);
+        const context = createMockContext(body, computeSignature(body), raw);
+
+        expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
+      },
+    );
+
+    it('should reject when raw body is not available', () => {
+      const body = { externalPaymentId: 'pay_123', amount: 999 };
+      const context = createMockContext(body, computeSignature(body), null);
+
+      expect(() => guard.canActivate(context)).toThrow(
+        'Unable to verify webhook signature',
+      );
+    });
   });
 
   describe('missing signature', () => {
@@ -73,20 +454,19 @@ describe('WebhookSignatureGuard', () => {
       const body = { test: 'data' };
       const context = createMockContext(body); // no signature
 
-      expect(() => guard.canActivate(context)).toThrow(
-        UnauthorizedException,
-      );
+      expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
     });
   });
 
   describe('invalid signatures', () => {
     it('should throw UnauthorizedException for incorrect signature', () => {
       const body = { test: 'data' };
-      const context = createMockContext(body, 'invalid_signature_hex');
-
-      expect(() => guard.canActivate(context)).toThrow(
-        UnauthorizedException,
+      const context = createMockContext(
+        body,
+        `t=${nowSeconds()},v1=invalid_signature_hex`,
       );
+
+      expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
     });
 
     it('should throw UnauthorizedException for tampered body', () => {
@@ -95,18 +475,14 @@ describe('WebhookSignatureGuard', () => {
       const signature = computeSignature(originalBody);
       const context = createMockContext(tamperedBody, signature);
 
-      expect(() => guard.canActivate(context)).toThrow(
-        UnauthorizedException,
-      );
+      expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
     });
 
     it('should reject signature with different length (timing-safe)', () => {
       const body = { test: 'data' };
-      const context = createMockContext(body, 'short');
+      const context = createMockContext(body, `t=${nowSeconds()},v1=short`);
 
-      expect(() => guard.canActivate(context)).toThrow(
-        UnauthorizedException,
-      );
+      expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
     });
   });
 });
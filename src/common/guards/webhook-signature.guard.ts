@@ -4,84 +4,345 @@ import {
   ExecutionContext,
   UnauthorizedException,
   Logger,
+  RawBodyRequest,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as crypto from 'crypto';
 import { Request } from 'express';
 
+/**
+ * Default replay window: deliveries signed more than 5 minutes ago
+ * (or 5 minutes in the future) are rejected
+ */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * A signing secret accepted by the guard
+ *
+ * `id` is only used for logging, so we can tell which secret a provider
+ * is still signing with during rotation (the secret itself is never logged)
+ */
+interface WebhookSecret {
+  id: string;
+  secret: string;
+  expiresAt?: Date;
+}
+
 /**
  * Webhook Signature Guard
  *
  * SECURITY: Verifies webhook signature to prevent fake webhooks from attackers
  *
  * How it works:
- * 1. Payment provider sends webhook with signature in header
- * 2. We compute expected signature using webhook secret
+ * 1. Payment provider sends webhook with signature in header:
+ *    `x-webhook-signature: t=<unix seconds>,v1=<hex hmac>`
+ * 2. We compute HMAC SHA256 over `<t>.<raw body>` using webhook secret
  * 3. Compare signatures using timing-safe comparison
- * 4. If match → allow request, if not → reject with 401
+ * 4. Reject if timestamp is outside the tolerance window (stale or future)
+ * 5. Reject if the same delivery (timestamp + body) was already accepted
+ *    inside the window (replay)
+ * 6. If all checks pass → allow request, otherwise → reject with 401
+ *
+ * IMPORTANT: The provider signs the exact bytes it sent. Re-serializing the
+ * parsed body (JSON.stringify) changes key order, whitespace, unicode escapes
+ * and large numbers, so we verify against `request.rawBody`, which requires
+ * the app to be created with `rawBody: true` (see main.ts).
+ *
+ * Legacy header (plain hex HMAC over the raw body, no timestamp) is only
+ * accepted when WEBHOOK_ALLOW_LEGACY_SIGNATURES=true, since it can be
+ * replayed forever.
+ *
+ * SECRET ROTATION: Several secrets can be active at once, a signature from
+ * any non-expired one is accepted:
+ *   WEBHOOK_SECRETS='[{"id":"2026-10","secret":"new"},
+ *                     {"id":"2026-04","secret":"old","expiresAt":"2026-11-01T00:00:00Z"}]'
+ * WEBHOOK_SECRET (single secret, id "default") is still supported and is
+ * merged with WEBHOOK_SECRETS. The matching secret id is logged on every
+ * verification so we know when the old one is safe to retire.
  */
 @Injectable()
 export class WebhookSignatureGuard implements CanActivate {
   private readonly logger = new Logger(WebhookSignatureGuard.name);
-  private readonly webhookSecret: string;
+  private readonly webhookSecrets: WebhookSecret[];
+  private readonly toleranceSeconds: number;
+  private readonly allowLegacySignatures: boolean;
+
+  /**
+   * Recently accepted deliveries (`<t>.<sha256 of raw body>`) → time (ms)
+   * after which they fall outside the tolerance window and no longer need
+   * to be remembered
+   *
+   * Keyed on the delivery, not on the matched signature: during rotation
+   * the provider sends one v1 per secret, and replaying the header with
+   * the other v1 must still count as the same delivery.
+   *
+   * NOTE: In-memory per instance. Cross-instance replays inside the window
+   * are still caught by webhook idempotency (external_payment_id + event_type)
+   */
+  private readonly seenDeliveries = new Map<string, number>();
 
   constructor(private configService: ConfigService) {
-    // Get webhook secret from environment
-    const secret = this.configService.get<string>('WEBHOOK_SECRET');
+    // Get webhook secrets from environment
+    const secrets = this.loadSecrets();
 
-    if (!secret) {
-      this.logger.error('WEBHOOK_SECRET not found in environment variables');
+    if (secrets.length === 0) {
+      this.logger.error(
+        'Neither WEBHOOK_SECRET nor WEBHOOK_SECRETS found in environment variables',
+      );
       throw new Error('WEBHOOK_SECRET must be configured');
     }
 
-    this.webhookSecret = secret;
+    this.webhookSecrets = secrets;
+
+    const tolerance = Number(
+      this.configService.get<string>('WEBHOOK_SIGNATURE_TOLERANCE_SECONDS') ??
+        DEFAULT_TOLERANCE_SECONDS,
+    );
+    if (!Number.isFinite(tolerance) || tolerance <= 0) {
+      throw new Error(
+        'WEBHOOK_SIGNATURE_TOLERANCE_SECONDS must be a positive number',
+      );
+    }
+    this.toleranceSeconds = tolerance;
+
+    this.allowLegacySignatures =
+      String(
+        this.configService.get<string>('WEBHOOK_ALLOW_LEGACY_SIGNATURES'),
+      ) === 'true';
   }
 
   canActivate(context: ExecutionContext): boolean {
-    const request = context.switchToHttp().getRequest<Request>();
-    const signature = request.headers['x-webhook-signature'] as string;
-    const rawBody = JSON.stringify(request.body);
+    const request = context
+      .switchToHttp()
+      .getRequest<RawBodyRequest<Request>>();
+    const header = request.headers['x-webhook-signature'] as string;
+    const rawBody = request.rawBody;
 
     // Check if signature exists
-    if (!signature) {
+    if (!header) {
       this.logger.error('Missing webhook signature in request headers');
       throw new UnauthorizedException('Missing webhook signature');
     }
 
-    // Compute expected signature using HMAC SHA256
-    const expectedSignature = crypto
-      .createHmac('sha256', this.webhookSecret)
-      .update(rawBody)
-      .digest('hex');
-
-    // Timing-safe comparison to prevent timing attacks
-    try {
-      const isValid = crypto.timingSafeEqual(
-        Buffer.from(signature),
-        Buffer.from(expectedSignature),
+    // Fail closed: without the original bytes the signature can't be verified
+    if (!rawBody) {
+      this.logger.error(
+        'Raw request body not available - is rawBody enabled in bootstrap?',
       );
+      throw new UnauthorizedException('Unable to verify webhook signature');
+    }
 
-      if (!isValid) {
-        this.logger.error('Invalid webhook signature', {
-          received: signature.substring(0, 10) + '...',
-          expected: expectedSignature.substring(0, 10) + '...',
-        });
-        throw new UnauthorizedException('Invalid webhook signature');
+    const { timestamp, signatures } = this.parseSignatureHeader(header);
+
+    // Legacy scheme: plain HMAC over raw body, no replay protection
+    if (timestamp === undefined) {
+      if (!this.allowLegacySignatures) {
+        this.logger.error('Webhook signature is missing a timestamp');
+        throw new UnauthorizedException('Missing webhook signature timestamp');
       }
 
-      this.logger.log('Webhook signature verified successfully');
+      const { secretId } = this.verifySignature(rawBody, signatures);
+      this.logger.log(
+        `Webhook signature verified successfully (legacy, secret: ${secretId})`,
+      );
       return true;
-    } catch (error) {
-      if (error instanceof UnauthorizedException) {
-        throw error;
-      }
+    }
 
-      // Handle buffer length mismatch (different signature lengths)
-      this.logger.error(
-        'Webhook signature verification failed',
-        (error as Error).message,
+    // Signature must cover the timestamp, otherwise it could be swapped
+    const signedPayload = Buffer.concat([
+      Buffer.from(`${timestamp}.`),
+      rawBody,
+    ]);
+    const { secretId } = this.verifySignature(signedPayload, signatures);
+
+    // Reject stale (or far-future) deliveries
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (Math.abs(nowSeconds - timestamp) > this.toleranceSeconds) {
+      this.logger.error('Webhook timestamp outside tolerance window', {
+        timestamp,
+        now: nowSeconds,
+        toleranceSeconds: this.toleranceSeconds,
+      });
+      throw new UnauthorizedException(
+        'Webhook timestamp outside tolerance window',
       );
+    }
+
+    // Reject replays of a delivery we already accepted inside the window
+    const bodyHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+    const deliveryKey = `${timestamp}.${bodyHash}`;
+    this.pruneSeenDeliveries();
+    if (this.seenDeliveries.has(deliveryKey)) {
+      this.logger.error('Replayed webhook signature detected', {
+        timestamp,
+        bodyHash: bodyHash.substring(0, 10) + '...',
+      });
+      throw new UnauthorizedException('Webhook signature already used');
+    }
+    this.seenDeliveries.set(
+      deliveryKey,
+      (timestamp + this.toleranceSeconds) * 1000,
+    );
+
+    this.logger.log(
+      `Webhook signature verified successfully (secret: ${secretId})`,
+    );
+    return true;
+  }
+
+  /**
+   * Load signing secrets from WEBHOOK_SECRETS (JSON list) and WEBHOOK_SECRET
+   */
+  private loadSecrets(): WebhookSecret[] {
+    const secrets: WebhookSecret[] = [];
+    // Env vars arrive as a JSON string, ConfigModule `load` may pass an array
+    const configured = this.configService.get<string | unknown[]>(
+      'WEBHOOK_SECRETS',
+    );
+
+    if (configured) {
+      let entries: unknown = configured;
+      if (typeof configured === 'string') {
+        try {
+          entries = JSON.parse(configured);
+        } catch {
+          entries = undefined;
+        }
+      }
+
+      if (!Array.isArray(entries)) {
+        throw new Error(
+          'WEBHOOK_SECRETS must be a JSON array of { id?, secret, expiresAt? }',
+        );
+      }
+
+      entries.forEach((entry: Record<string, unknown>, index: number) => {
+        if (typeof entry?.secret !== 'string' || !entry.secret) {
+          throw new Error(`WEBHOOK_SECRETS[${index}] is missing a secret`);
+        }
+
+        let expiresAt: Date | undefined;
+        if (entry.expiresAt !== undefined && entry.expiresAt !== null) {
+          expiresAt = new Date(entry.expiresAt as string);
+          if (isNaN(expiresAt.getTime())) {
+            throw new Error(`WEBHOOK_SECRETS[${index}] has invalid expiresAt`);
+          }
+        }
+
+        secrets.push({
+          id: typeof entry.id === 'string' ? entry.id : `secret-${index}`,
+          secret: entry.secret,
+          expiresAt,
+        });
+      });
+    }
+
+    const singleSecret = this.configService.get<string>('WEBHOOK_SECRET');
+    if (singleSecret && !secrets.some((s) => s.secret === singleSecret)) {
+      secrets.push({ id: 'default', secret: singleSecret });
+    }
+
+    return secrets;
+  }
+
+  /**
+   * Parse signature header
+   *
+   * Supports:
+   * - `t=1700000000,v1=abc...` (timestamped, may carry several v1 values)
+   * - `abc...` (legacy plain hex signature)
+   */
+  private parseSignatureHeader(header: string): {
+    timestamp?: number;
+    signatures: string[];
+  } {
+    if (!header.includes('=')) {
+      return { signatures: [header.trim()] };
+    }
+
+    let timestamp: number | undefined;
+    const signatures: string[] = [];
+
+    for (const part of header.split(',')) {
+      const [key, value] = part.trim().split('=', 2);
+
+      if (key === 't') {
+        if (!/^\d+$/.test(value ?? '')) {
+          this.logger.error('Malformed webhook signature timestamp');
+          throw new UnauthorizedException('Invalid webhook signature format');
+        }
+        timestamp = Number(value);
+      } else if (key === 'v1' && value) {
+        signatures.push(value);
+      }
+    }
+
+    if (timestamp === undefined || signatures.length === 0) {
+      this.logger.error('Malformed webhook signature header');
       throw new UnauthorizedException('Invalid webhook signature format');
     }
+
+    return { timestamp, signatures };
+  }
+
+  /**
+   * Compare candidate signatures against the expected HMAC of every
+   * active (non-expired) secret
+   *
+   * Returns the matching secret id, throws 401 if none match
+   */
+  private verifySignature(
+    payload: Buffer,
+    candidates: string[],
+  ): { secretId: string } {
+    const now = new Date();
+    const activeSecrets = this.webhookSecrets.filter(
+      (s) => !s.expiresAt || s.expiresAt > now,
+    );
+
+    if (activeSecrets.length === 0) {
+      this.logger.error('All configured webhook secrets have expired');
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    for (const { id, secret } of activeSecrets) {
+      // Compute expected signature using HMAC SHA256
+      const expected = Buffer.from(
+        crypto.createHmac('sha256', secret).update(payload).digest('hex'),
+      );
+
+      // Timing-safe comparison to prevent timing attacks
+      const matched = candidates.find((candidate) => {
+        const received = Buffer.from(candidate);
+        // timingSafeEqual throws on length mismatch
+        return (
+          received.length === expected.length &&
+          crypto.timingSafeEqual(received, expected)
+        );
+      });
+
+      if (matched) {
+        return { secretId: id };
+      }
+    }
+
+    this.logger.error('Invalid webhook signature', {
+      received: candidates.map((c) => c.substring(0, 10) + '...'),
+      activeSecrets: activeSecrets.map((s) => s.id),
+    });
+    throw new UnauthorizedException('Invalid webhook signature');
+  }
+
+  /**
+   * Forget deliveries whose timestamps have left the tolerance window
+   * (those are rejected by the timestamp check anyway)
+   */
+  private pruneSeenDeliveries() {
+    const now = Date.now();
+    for (const [deliveryKey, expiresAt] of this.seenDeliveries) {
+      if (expiresAt < now) {
+        this.seenDeliveries.delete(deliveryKey);
+      }
+    }
   }
 }
@@ -0,0 +1,13 @@
+import { Request } from 'express';
+
+/**
+ * Admin Identity
+ *
+ * Attached to the request by AdminApiKeyGuard - `id` names the API key,
+ * so admin actions can be attributed (the key itself is never stored)
+ */
+export interface IAdminIdentity {
+  id: string;
+}
+
+export type AdminRequest = Request & { admin?: IAdminIdentity };
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { EntitlementsCacheService } from './entitlements-cache.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [EntitlementsCacheService],
+  exports: [EntitlementsCacheService],
+})
+export class EntitlementsCacheModule {}
@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IUserEntitlements } from './interfaces/entitlement.interface';
+
+// Users kept in the cache - the oldest entry is dropped beyond this
+const CACHE_MAX_USERS = 10_000;
+
+interface ICacheEntry {
+  value: IUserEntitlements;
+  validUntil: number;
+}
+
+/**
+ * Entitlements Cache - merged entitlements per user, in memory
+ *
+ * Kept apart from EntitlementsService so the code that changes
+ * subscriptions (SubscriptionsService, webhooks) can clear a user's entry
+ * without depending on the entitlements module.
+ *
+ * EDGE CASE: A lookup that started before a write and finishes after the
+ * write cleared the entry would cache the old state - entries are only
+ * stored when no invalidation happened since the lookup began (see
+ * getGeneration)
+ *
+ * Per instance - other instances pick changes up within the TTL.
+ *
+ * Config (env):
+ * - ENTITLEMENTS_CACHE_TTL_SECONDS (default 30, 0 = no cache)
+ */
+@Injectable()
+export class EntitlementsCacheService {
+  private readonly ttlMs: number;
+  private readonly entries = new Map<string, ICacheEntry>();
+
+  // Bumped by every invalidation
+  private generation = 0;
+
+  constructor(configService: ConfigService) {
+    const ttlSeconds = Number(
+      configService.get<string>('ENTITLEMENTS_CACHE_TTL_SECONDS') ?? 30,
+    );
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 0) {
+      throw new Error(
+        'ENTITLEMENTS_CACHE_TTL_SECONDS must be a non-negative integer',
+      );
+    }
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  get(userId: string): IUserEntitlements | undefined {
+    const entry = this.entries.get(userId);
+    return entry && entry.validUntil > Date.now() ? entry.value : undefined;
+  }
+
+  /**
+   * Take before loading, pass to set() - see the class comment
+   */
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  /**
+   * Cache a user's entitlements for the TTL, but never past `accessEndsAt`
+   * (earliest end of the access they came from, null = none)
+   */
+  set(
+    userId: string,
+    value: IUserEntitlements,
+    accessEndsAt: Date | null,
+    generation: number,
+  ) {
+    if (this.ttlMs === 0 || generation !== this.generation) {
+      return;
+    }
+
+    const validUntil = Math.min(
+      Date.now() + this.ttlMs,
+      accessEndsAt?.getTime() ?? Infinity,
+    );
+
+    this.entries.delete(userId);
+    if (this.entries.size >= CACHE_MAX_USERS) {
+      // Map keeps insertion order - the first key is the oldest entry
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+    }
+    this.entries.set(userId, { value, validUntil });
+  }
+
+  /**
+   * Drop a user's entry - call after the write that changed their
+   * subscriptions has committed
+   */
+  invalidate(userId: string) {
+    this.generation++;
+    this.entries.delete(userId);
+  }
+}
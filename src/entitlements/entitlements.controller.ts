@@ -0,0 +1,49 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { EntitlementsService } from './entitlements.service';
+import { EntitlementsApiKeyGuard } from '../common/guards/entitlements-api-key.guard';
+
+/**
+ * Entitlements Controller
+ *
+ * Read by product services ("can this user use feature X") - cheap enough
+ * to call on every request (see EntitlementsService caching)
+ *
+ * Security: Requires a read-only entitlements API key, not an admin key
+ * (see EntitlementsApiKeyGuard)
+ */
+@Controller('users')
+@UseGuards(EntitlementsApiKeyGuard)
+export class EntitlementsController {
+  constructor(private readonly entitlementsService: EntitlementsService) {}
+
+  /**
+   * GET /users/:id/entitlements
+   *
+   * Every entitlement the user has right now, merged over their active
+   * subscriptions
+   */
+  @Get(':id/entitlements')
+  async getUserEntitlements(@Param('id', ParseUUIDPipe) id: string) {
+    return this.entitlementsService.getUserEntitlements(id);
+  }
+
+  /**
+   * GET /users/:id/entitlements/:key
+   *
+   * `{ "allowed": true, "limit": 10, "subscriptionId": "...", ... }` -
+   * 200 with allowed: false when denied
+   */
+  @Get(':id/entitlements/:key')
+  async checkEntitlement(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('key') key: string,
+  ) {
+    return this.entitlementsService.checkEntitlement(id, key);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { EntitlementsService } from './entitlements.service';
+import { EntitlementsController } from './entitlements.controller';
+import { EntitlementsCacheModule } from './entitlements-cache.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+
+@Module({
+  imports: [ConfigModule, EntitlementsCacheModule, SubscriptionsModule],
+  controllers: [EntitlementsController],
+  providers: [EntitlementsService],
+  exports: [EntitlementsService],
+})
+export class EntitlementsModule {}
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EntitlementsService } from './entitlements.service';
+import { DatabaseService } from '../database/database.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { EntitlementsCacheService } from './entitlements-cache.service';
+
+describe('EntitlementsService', () => {
+  let service: EntitlementsService;
+  let cache: EntitlementsCacheService;
+  let db: jest.Mocked<any>;
+  let subscriptionsService: { getUserActiveSubscriptions: jest.Mock };
+
+  const monthly = {
+    id: 'sub-monthly',
+    plan_type: 'monthly',
+    status: 'ACTIVE',
+    is_lifetime: false,
+    expires_at: new Date('2026-04-01T00:00:00Z'),
+    grace_ends_at: null,
+  };
+  const addon = {
+    id: 'sub-addon',
+    plan_type: 'storage-addon',
+    status: 'PAST_DUE',
+    is_lifetime: false,
+    expires_at: new Date('2026-03-05T00:00:00Z'),
+    grace_ends_at: new Date('2026-03-12T00:00:00Z'),
+  };
+  const plans = [
+    {
+      code: 'monthly',
+      entitlements: [
+        { key: 'export_csv', limit: null },
+        { key: 'max_projects', limit: 10 },
+        { key: 'storage_gb', limit: 5 },
+      ],
+    },
+    {
+      code: 'storage-addon',
+      entitlements: [
+        { key: 'max_projects', limit: 10 },
+        { key: 'storage_gb', limit: 100 },
+      ],
+    },
+  ];
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-10T00:00:00Z') });
+
+    db = { plan: { findMany: jest.fn().mockResolvedValue(plans) } };
+    subscriptionsService = {
+      getUserActiveSubscriptions: jest.fn().mockResolvedValue([monthly, addon]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EntitlementsService,
+        { provide: DatabaseService, useValue: db },
+        { provide: SubscriptionsService, useValue: subscriptionsService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        EntitlementsCacheService,
+      ],
+    }).compile();
+
+    service = module.get<EntitlementsService>(EntitlementsService);
+    cache = module.get<EntitlementsCacheService>(EntitlementsCacheService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getUserEntitlements', () => {
+    it('should merge the entitlements of all active subscriptions', async () => {
+      const result = await service.getUserEntitlements('user-1');
+
+      expect(result.entitlements).toEqual([
+        {
+          key: 'export_csv',
+          limit: null,
+          subscriptionId: 'sub-monthly',
+          planCode: 'monthly',
+          expiresAt: new Date('2026-04-01T00:00:00Z'),
+        },
+        // Same limit on both - the subscription with access for longer
+        expect.objectContaining({ key: 'max_projects', limit: 10 }),
+        {
+          key: 'storage_gb',
+          limit: 100,
+          subscriptionId: 'sub-addon',
+          planCode: 'storage-addon',
+          expiresAt: new Date('2026-03-12T00:00:00Z'), // Grace period end
+        },
+      ]);
+      expect(result.entitlements[1].subscriptionId).toBe('sub-monthly');
+      expect(db.plan.findMany).toHaveBeenCalledWith({
+        where: { code: { in: ['monthly', 'storage-addon'] } },
+        include: { entitlements: true },
+      });
+    });
+
+    it('should grant nothing without an active subscription', async () => {
+      subscriptionsService.getUserActiveSubscriptions.mockResolvedValue([]);
+
+      const result = await service.getUserEntitlements('user-1');
+
+      expect(result).toEqual({ userId: 'user-1', entitlements: [] });
+      expect(db.plan.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should answer repeated calls from the cache', async () => {
+      await service.getUserEntitlements('user-1');
+      jest.advanceTimersByTime(29_000);
+      await service.getUserEntitlements('user-1');
+
+      expect(
+        subscriptionsService.getUserActiveSubscriptions,
+      ).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(2_000);
+      await service.getUserEntitlements('user-1');
+
+      expect(
+        subscriptionsService.getUserActiveSubscriptions,
+      ).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reload after the cache entry was invalidated', async () => {
+      await service.getUserEntitlements('user-1');
+      cache.invalidate('user-1');
+      await service.getUserEntitlements('user-1');
+
+      expect(
+        subscriptionsService.getUserActiveSubscriptions,
+      ).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache a read that overlapped an invalidation', async () => {
+      subscriptionsService.getUserActiveSubscriptions.mockImplementationOnce(
+        () => {
+          // Subscription changed while this read was loading
+          cache.invalidate('user-1');
+          return Promise.resolve([monthly, addon]);
+        },
+      );
+
+      await service.getUserEntitlements('user-1');
+      await service.getUserEntitlements('user-1');
+
+      expect(
+        subscriptionsService.getUserActiveSubscriptions,
+      ).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache past the end of a subscription', async () => {
+      subscriptionsService.getUserActiveSubscriptions.mockResolvedValue([
+        { ...monthly, expires_at: new Date('2026-03-10T00:00:10Z') },
+      ]);
+
+      await service.getUserEntitlements('user-1');
+      jest.advanceTimersByTime(10_000);
+      await service.getUserEntitlements('user-1');
+
+      expect(
+        subscriptionsService.getUserActiveSubscriptions,
+      ).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('checkEntitlement', () => {
+    it('should allow a feature with the granting subscription', async () => {
+      const result = await service.checkEntitlement('user-1', 'storage_gb');
+
+      expect(result).toEqual({
+        userId: 'user-1',
+        key: 'storage_gb',
+        allowed: true,
+        limit: 100,
+        subscriptionId: 'sub-addon',
+        planCode: 'storage-addon',
+        expiresAt: new Date('2026-03-12T00:00:00Z'),
+      });
+    });
+
+    it('should deny a feature no plan grants', async () => {
+      const result = await service.checkEntitlement('user-1', 'sso');
+
+      expect(result).toEqual({
+        userId: 'user-1',
+        key: 'sso',
+        allowed: false,
+        limit: null,
+        subscriptionId: null,
+        planCode: null,
+        expiresAt: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { Subscription, SubscriptionStatus } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { EntitlementsCacheService } from './entitlements-cache.service';
+import {
+  IEntitlementCheck,
+  IEntitlementGrant,
+  IUserEntitlements,
+} from './interfaces/entitlement.interface';
+
+/**
+ * Entitlements Service - what a user can use, by feature instead of plan
+ *
+ * Plans map to named entitlements (PlanEntitlement: a key and an optional
+ * limit). A user's entitlements are merged over every subscription that
+ * grants access right now (same rules as
+ * SubscriptionsService.getUserActiveSubscriptions), so product services
+ * ask "can this user export CSV" without knowing plan names.
+ *
+ * Caching: product services call this on every request, so results are
+ * kept in memory per user (EntitlementsCacheService). An entry never
+ * outlives the earliest access end among the user's subscriptions, and
+ * subscription writes on this instance clear it right away.
+ */
+@Injectable()
+export class EntitlementsService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly cache: EntitlementsCacheService,
+  ) {}
+
+  /**
+   * All entitlements of a user, one per key
+   *
+   * EDGE CASE: Unknown user - no subscriptions, so no entitlements (not a
+   * 404: callers only need to know nothing is granted)
+   */
+  async getUserEntitlements(userId: string): Promise<IUserEntitlements> {
+    const cached = this.cache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const generation = this.cache.getGeneration();
+    const subscriptions =
+      await this.subscriptionsService.getUserActiveSubscriptions(userId);
+    const value = {
+      userId,
+      entitlements: await this.mergeEntitlements(subscriptions),
+    };
+
+    // CRITICAL: Never serve an entitlement past the access it came from
+    const accessEnds = subscriptions
+      .map((subscription) => this.getAccessEnd(subscription))
+      .filter((end): end is Date => end !== null);
+    const accessEndsAt = accessEnds.length
+      ? new Date(Math.min(...accessEnds.map((end) => end.getTime())))
+      : null;
+    this.cache.set(userId, value, accessEndsAt, generation);
+
+    return value;
+  }
+
+  /**
+   * Whether a user has one entitlement, and which subscription grants it
+   */
+  async checkEntitlement(
+    userId: string,
+    key: string,
+  ): Promise<IEntitlementCheck> {
+    const { entitlements } = await this.getUserEntitlements(userId);
+    const grant = entitlements.find((entitlement) => entitlement.key === key);
+
+    return {
+      userId,
+      key,
+      allowed: !!grant,
+      limit: grant?.limit ?? null,
+      subscriptionId: grant?.subscriptionId ?? null,
+      planCode: grant?.planCode ?? null,
+      expiresAt: grant?.expiresAt ?? null,
+    };
+  }
+
+  private async mergeEntitlements(
+    subscriptions: Subscription[],
+  ): Promise<IEntitlementGrant[]> {
+    if (subscriptions.length === 0) {
+      return [];
+    }
+
+    const plans = await this.db.plan.findMany({
+      where: {
+        code: { in: [...new Set(subscriptions.map((s) => s.plan_type))] },
+      },
+      include: { entitlements: true },
+    });
+    const entitlementsByPlan = new Map(
+      plans.map((plan) => [plan.code, plan.entitlements]),
+    );
+
+    const merged = new Map<string, IEntitlementGrant>();
+    for (const subscription of subscriptions) {
+      for (const entitlement of entitlementsByPlan.get(
+        subscription.plan_type,
+      ) ?? []) {
+        const grant = {
+          key: entitlement.key,
+          limit: entitlement.limit,
+          subscriptionId: subscription.id,
+          planCode: subscription.plan_type,
+          expiresAt: this.getAccessEnd(subscription),
+        };
+        const current = merged.get(grant.key);
+        if (!current || this.isBetterGrant(grant, current)) {
+          merged.set(grant.key, grant);
+        }
+      }
+    }
+
+    return [...merged.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  private isBetterGrant(
+    grant: IEntitlementGrant,
+    current: IEntitlementGrant,
+  ): boolean {
+    if (grant.limit !== current.limit) {
+      return (
+        current.limit !== null &&
+        (grant.limit === null || grant.limit > current.limit)
+      );
+    }
+
+    // Same limit - keep the one that lasts longer
+    return (
+      current.expiresAt !== null &&
+      (grant.expiresAt === null || grant.expiresAt > current.expiresAt)
+    );
+  }
+
+  /**
+   * When access through a subscription ends - PAST_DUE keeps access until
+   * the grace period ends, lifetime never ends (null)
+   */
+  private getAccessEnd(subscription: Subscription): Date | null {
+    if (subscription.is_lifetime) {
+      return null;
+    }
+    if (subscription.status === SubscriptionStatus.PAST_DUE) {
+      return subscription.grace_ends_at;
+    }
+    return subscription.expires_at;
+  }
+}
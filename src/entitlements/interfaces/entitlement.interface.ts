@@ -0,0 +1,36 @@
+/**
+ * One entitlement of a user and the subscription that grants it
+ *
+ * When several subscriptions grant the same key, the best one wins: no
+ * limit over a limit, a higher limit over a lower one, then the one with
+ * access for longer.
+ */
+export interface IEntitlementGrant {
+  key: string;
+  limit: number | null; // null = no limit
+  subscriptionId: string;
+  planCode: string;
+  expiresAt: Date | null; // Access through this subscription ends, null = lifetime
+}
+
+/**
+ * Everything a user can use right now, merged over their active
+ * subscriptions
+ */
+export interface IUserEntitlements {
+  userId: string;
+  entitlements: IEntitlementGrant[];
+}
+
+/**
+ * Answer to "can this user use feature X"
+ */
+export interface IEntitlementCheck {
+  userId: string;
+  key: string;
+  allowed: boolean;
+  limit: number | null;
+  subscriptionId: string | null; // null = denied
+  planCode: string | null;
+  expiresAt: Date | null;
+}
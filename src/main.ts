@@ -6,7 +6,8 @@ import helmet from 'helmet';
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
-  const app = await NestFactory.create(AppModule);
+  // Keep the raw request bytes so webhook signatures can be verified exactly
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Security - Add security headers
   app.use(helmet());
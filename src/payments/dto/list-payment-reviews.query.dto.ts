@@ -0,0 +1,25 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaymentReviewStatus } from '@prisma/client';
+
+/**
+ * List Payment Reviews Query - filters for the review queue
+ *
+ * Pagination: pass `nextCursor` from the previous page as `cursor`.
+ */
+export class ListPaymentReviewsQueryDto {
+  @IsEnum(PaymentReviewStatus)
+  @IsOptional()
+  status?: PaymentReviewStatus; // e.g., "OPEN" for the pending queue
+
+  @IsUUID()
+  @IsOptional()
+  cursor?: string; // Id of the last review on the previous page
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number; // Page size (default 20)
+}
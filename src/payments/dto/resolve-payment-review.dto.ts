@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Resolve Payment Review DTO
+ */
+export class ResolvePaymentReviewDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  @IsOptional()
+  note?: string; // What was done (e.g., "Refunded the difference")
+}
@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { PaymentReviewsService } from './payment-reviews.service';
+import { ListPaymentReviewsQueryDto } from './dto/list-payment-reviews.query.dto';
+import { ResolvePaymentReviewDto } from './dto/resolve-payment-review.dto';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+import { CurrentAdmin } from '../common/decorators/current-admin.decorator';
+import type { IAdminIdentity } from '../common/interfaces/admin.interface';
+
+/**
+ * Payment Reviews Admin Controller
+ *
+ * Work through payments flagged for an amount mismatch
+ *
+ * Security: Every route requires an admin API key (see AdminApiKeyGuard)
+ */
+@Controller('admin/payment-reviews')
+@UseGuards(AdminApiKeyGuard)
+export class PaymentReviewsController {
+  constructor(private readonly paymentReviewsService: PaymentReviewsService) {}
+
+  /**
+   * GET /admin/payment-reviews?status=OPEN
+   *
+   * Pagination: limit (default 20, max 100) + cursor (nextCursor)
+   */
+  @Get()
+  async listReviews(@Query() query: ListPaymentReviewsQueryDto) {
+    return this.paymentReviewsService.listReviews(query);
+  }
+
+  /**
+   * POST /admin/payment-reviews/:id/resolve
+   */
+  @Post(':id/resolve')
+  @HttpCode(HttpStatus.OK)
+  async resolveReview(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: ResolvePaymentReviewDto,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.paymentReviewsService.resolveReview(id, {
+      resolvedBy: admin.id,
+      note: body.note,
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PaymentReviewsService } from './payment-reviews.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('PaymentReviewsService', () => {
+  let service: PaymentReviewsService;
+  let db: jest.Mocked<any>;
+
+  beforeEach(async () => {
+    db = {
+      paymentReview: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+        update: jest.fn((args: any) =>
+          Promise.resolve({ id: 'review-id', ...args.data }),
+        ),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentReviewsService,
+        { provide: DatabaseService, useValue: db },
+      ],
+    }).compile();
+
+    service = module.get<PaymentReviewsService>(PaymentReviewsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('flagPayment', () => {
+    it('should create the review through the transaction client', async () => {
+      const tx = {
+        paymentReview: {
+          upsert: jest.fn().mockResolvedValue({ id: 'review-id' }),
+        },
+      };
+
+      await service.flagPayment(tx as any, {
+        paymentId: 'pay-id',
+        webhookEventId: 'event-id',
+        reason: 'AMOUNT_MISMATCH',
+        planCode: 'monthly',
+        expectedAmount: 999,
+        paidAmount: 5000,
+        currency: 'USD',
+        grantedDays: 30,
+      });
+
+      const { where, create, update } =
+        tx.paymentReview.upsert.mock.calls[0][0];
+      expect(where).toEqual({ payment_id: 'pay-id' });
+      expect(create).toMatchObject({
+        payment_id: 'pay-id',
+        plan_code: 'monthly',
+        expected_amount: 999,
+        paid_amount: 5000,
+      });
+      // Replayed payment → review reopened
+      expect(update).toMatchObject({ status: 'OPEN', resolved_at: null });
+    });
+  });
+
+  describe('listReviews', () => {
+    it('should filter by status, newest first', async () => {
+      await service.listReviews({ status: 'OPEN' });
+
+      expect(db.paymentReview.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'OPEN' },
+          orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+          take: 21,
+        }),
+      );
+    });
+
+    it('should return a cursor when there is another page', async () => {
+      db.paymentReview.findMany.mockResolvedValue([
+        { id: 'r1' },
+        { id: 'r2' },
+        { id: 'r3' },
+      ]);
+
+      const result = await service.listReviews({ limit: 2 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.nextCursor).toBe('r2');
+    });
+  });
+
+  describe('resolveReview', () => {
+    it('should record who resolved the review', async () => {
+      db.paymentReview.findUnique.mockResolvedValue({
+        id: 'review-id',
+        status: 'OPEN',
+      });
+
+      const result = await service.resolveReview('review-id', {
+        resolvedBy: 'support-alice',
+        note: 'Refunded the difference',
+      });
+
+      expect(result).toMatchObject({
+        status: 'RESOLVED',
+        resolved_by: 'support-alice',
+        resolution_note: 'Refunded the difference',
+      });
+    });
+
+    it('should reject an already resolved review', async () => {
+      db.paymentReview.findUnique.mockResolvedValue({
+        id: 'review-id',
+        status: 'RESOLVED',
+      });
+
+      await expect(
+        service.resolveReview('review-id', { resolvedBy: 'support-alice' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for an unknown review', async () => {
+      db.paymentReview.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.resolveReview('missing', { resolvedBy: 'support-alice' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
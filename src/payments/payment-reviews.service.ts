@@ -0,0 +1,136 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  PaymentReviewReason,
+  PaymentReviewStatus,
+  Prisma,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { ListPaymentReviewsQueryDto } from './dto/list-payment-reviews.query.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Payment Reviews Service - queue of payments that need a human
+ *
+ * Payments whose amount didn't match the plan price are flagged here
+ * (plan policy FLAG, see AmountMismatchPolicy) while the subscription is
+ * still granted. Support works through the OPEN reviews and resolves them
+ * (refund the difference, charge the rest, or accept).
+ */
+@Injectable()
+export class PaymentReviewsService {
+  private readonly logger = new Logger(PaymentReviewsService.name);
+
+  constructor(private readonly db: DatabaseService) {}
+
+  /**
+   * Put a payment in the review queue
+   *
+   * CRITICAL: Runs inside the webhook transaction (`tx`) - the review is
+   * created together with the payment or not at all
+   *
+   * EDGE CASE: A forced replay of the same payment reopens its review
+   * instead of failing on the unique payment_id
+   */
+  async flagPayment(
+    tx: Prisma.TransactionClient,
+    data: {
+      paymentId: string;
+      webhookEventId: string;
+      reason: PaymentReviewReason;
+      planCode: string;
+      expectedAmount: number | null;
+      paidAmount: number;
+      currency: string;
+      grantedDays: number | null; // null = lifetime
+    },
+  ) {
+    const fields = {
+      webhook_event_id: data.webhookEventId,
+      reason: data.reason,
+      plan_code: data.planCode,
+      expected_amount: data.expectedAmount,
+      paid_amount: data.paidAmount,
+      currency: data.currency,
+      granted_days: data.grantedDays,
+    };
+
+    const review = await tx.paymentReview.upsert({
+      where: { payment_id: data.paymentId },
+      create: { payment_id: data.paymentId, ...fields },
+      update: {
+        ...fields,
+        status: PaymentReviewStatus.OPEN,
+        resolved_by: null,
+        resolution_note: null,
+        resolved_at: null,
+      },
+    });
+
+    this.logger.warn(
+      `Payment ${data.paymentId} flagged for review: ${data.reason} (paid ${data.paidAmount} ${data.currency}, expected ${data.expectedAmount ?? 'n/a'})`,
+      { reviewId: review.id },
+    );
+
+    return review;
+  }
+
+  /**
+   * List reviews, newest first, cursor-paginated
+   */
+  async listReviews(query: ListPaymentReviewsQueryDto) {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    const reviews = await this.db.paymentReview.findMany({
+      where: query.status ? { status: query.status } : {},
+      include: { payment: true },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = reviews.length > limit;
+    const data = hasMore ? reviews.slice(0, limit) : reviews;
+
+    return {
+      data,
+      nextCursor: hasMore ? data[data.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Close an OPEN review
+   */
+  async resolveReview(
+    id: string,
+    options: { resolvedBy: string; note?: string },
+  ) {
+    const review = await this.db.paymentReview.findUnique({ where: { id } });
+
+    if (!review) {
+      throw new NotFoundException(`Payment review ${id} not found`);
+    }
+    if (review.status === PaymentReviewStatus.RESOLVED) {
+      throw new BadRequestException(`Payment review ${id} is already resolved`);
+    }
+
+    const resolved = await this.db.paymentReview.update({
+      where: { id },
+      data: {
+        status: PaymentReviewStatus.RESOLVED,
+        resolved_by: options.resolvedBy,
+        resolution_note: options.note,
+        resolved_at: new Date(),
+      },
+    });
+
+    this.logger.log(`Payment review ${id} resolved by ${options.resolvedBy}`);
+
+    return resolved;
+  }
+}
@@ -1,8 +1,13 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { PaymentsService } from './payments.service';
+import { PaymentReviewsService } from './payment-reviews.service';
+import { PaymentReviewsController } from './payment-reviews.controller';
 
 @Module({
-  providers: [PaymentsService],
-  exports: [PaymentsService],
+  imports: [ConfigModule],
+  controllers: [PaymentReviewsController],
+  providers: [PaymentsService, PaymentReviewsService],
+  exports: [PaymentsService, PaymentReviewsService],
 })
 export class PaymentsModule {}
@@ -0,0 +1,79 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { AmountMismatchPolicy, BillingInterval } from '@prisma/client';
+import { PlanPriceDto } from './plan-price.dto';
+import { PlanEntitlementDto } from './plan-entitlement.dto';
+
+/**
+ * Create Plan DTO
+ *
+ * CRITICAL: `code` is what payment providers send as `planType` and what
+ * subscriptions/payments store as plan_type - it can't be changed later.
+ */
+export class CreatePlanDto {
+  @IsString()
+  @Matches(/^[a-z0-9][a-z0-9_-]*$/, {
+    message: 'code must be lowercase letters, digits, "-" or "_"',
+  })
+  @MaxLength(50)
+  code: string; // e.g., "monthly", "yearly", "lifetime"
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsEnum(BillingInterval)
+  billingInterval: BillingInterval;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  intervalCount?: number; // Default 1 (e.g., 3 x MONTH = quarterly)
+
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  trialDays?: number; // Free trial length, default 0 (no trial)
+
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  maxPauseDays?: number; // Longest pause, default 0 (can't be paused)
+
+  @IsEnum(AmountMismatchPolicy)
+  @IsOptional()
+  amountMismatchPolicy?: AmountMismatchPolicy; // Default FLAG
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean; // Default true
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PlanPriceDto)
+  prices: PlanPriceDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PlanEntitlementDto)
+  @IsOptional()
+  entitlements?: PlanEntitlementDto[]; // Default none
+}
@@ -0,0 +1,15 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * List Plans Query - `?active=true` for the plans currently on sale
+ */
+export class ListPlansQueryDto {
+  // Query strings are always strings - map "true"/"false" explicitly
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,25 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Plan Entitlement DTO - a feature or limit the plan grants
+ */
+export class PlanEntitlementDto {
+  @IsString()
+  @Matches(/^[a-z0-9][a-z0-9_.:-]*$/, {
+    message: 'key must be lowercase letters, digits, "_", ".", ":" or "-"',
+  })
+  @MaxLength(100)
+  key: string; // e.g., "export_csv", "max_projects"
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  limit?: number; // Omitted = no limit (plain feature or unlimited)
+}
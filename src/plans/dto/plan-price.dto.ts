@@ -0,0 +1,23 @@
+import { IsInt, IsOptional, IsString, Matches, Min } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * Plan Price DTO - price of a plan in one currency
+ */
+export class PlanPriceDto {
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  @IsString()
+  @Matches(/^[A-Z]{3}$/, { message: 'currency must be an ISO 4217 code' })
+  currency: string; // e.g., "USD", "EUR", "KES"
+
+  @IsInt()
+  @Min(1)
+  amount: number; // In cents (e.g., $9.99 = 999)
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  tolerance?: number; // Same minor units (default: PAYMENT_AMOUNT_TOLERANCE_PERCENT)
+}
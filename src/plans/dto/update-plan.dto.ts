@@ -0,0 +1,74 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { AmountMismatchPolicy, BillingInterval } from '@prisma/client';
+import { PlanPriceDto } from './plan-price.dto';
+import { PlanEntitlementDto } from './plan-entitlement.dto';
+
+/**
+ * Update Plan DTO - every field optional, `code` is immutable
+ *
+ * `prices` replaces the whole price list (currencies left out are removed),
+ * `entitlements` the whole entitlement list
+ */
+export class UpdatePlanDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @IsEnum(BillingInterval)
+  @IsOptional()
+  billingInterval?: BillingInterval;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  intervalCount?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  trialDays?: number; // Applies to trials started afterwards
+
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  maxPauseDays?: number; // Applies to pauses started afterwards
+
+  @IsEnum(AmountMismatchPolicy)
+  @IsOptional()
+  amountMismatchPolicy?: AmountMismatchPolicy;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PlanPriceDto)
+  @IsOptional()
+  prices?: PlanPriceDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PlanEntitlementDto)
+  @IsOptional()
+  entitlements?: PlanEntitlementDto[]; // Replaces the whole list
+}
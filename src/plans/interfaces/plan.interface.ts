@@ -0,0 +1,24 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Plan prices are always loaded with the plan - a plan is useless
+ * for validation without them. Entitlements come along so the catalog
+ * shows what each plan grants.
+ */
+export const PLAN_INCLUDE = {
+  prices: { orderBy: { currency: 'asc' } },
+  entitlements: { orderBy: { key: 'asc' } },
+} satisfies Prisma.PlanInclude;
+
+export type PlanWithPrices = Prisma.PlanGetPayload<{
+  include: typeof PLAN_INCLUDE;
+}>;
+
+/**
+ * Paid amount compared with the plan price in the payment currency
+ */
+export interface IAmountCheck {
+  matches: boolean; // Within tolerance of the plan price
+  expectedAmount: number | null; // null = plan has no price in this currency
+  tolerance: number | null; // Minor units of the payment currency
+}
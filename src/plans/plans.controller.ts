@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { PlansService } from './plans.service';
+import { CreatePlanDto } from './dto/create-plan.dto';
+import { UpdatePlanDto } from './dto/update-plan.dto';
+import { ListPlansQueryDto } from './dto/list-plans.query.dto';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+
+/**
+ * Plans Admin Controller
+ *
+ * Manage the plan catalog (codes, billing intervals, prices)
+ *
+ * Security: Every route requires an admin API key (see AdminApiKeyGuard)
+ */
+@Controller('admin/plans')
+@UseGuards(AdminApiKeyGuard)
+export class PlansController {
+  constructor(private readonly plansService: PlansService) {}
+
+  /**
+   * GET /admin/plans?active=true
+   */
+  @Get()
+  async listPlans(@Query() query: ListPlansQueryDto) {
+    return this.plansService.listPlans(query);
+  }
+
+  /**
+   * GET /admin/plans/:code
+   */
+  @Get(':code')
+  async getPlan(@Param('code') code: string) {
+    return this.plansService.getPlan(code);
+  }
+
+  /**
+   * POST /admin/plans
+   *
+   * 409 if the code is already taken
+   */
+  @Post()
+  async createPlan(@Body() body: CreatePlanDto) {
+    return this.plansService.createPlan(body);
+  }
+
+  /**
+   * PATCH /admin/plans/:code
+   *
+   * `prices` replaces the whole price list
+   */
+  @Patch(':code')
+  async updatePlan(@Param('code') code: string, @Body() body: UpdatePlanDto) {
+    return this.plansService.updatePlan(code, body);
+  }
+
+  /**
+   * DELETE /admin/plans/:code
+   *
+   * 409 once any subscription or payment uses the plan -
+   * PATCH `{ "active": false }` retires it instead
+   */
+  @Delete(':code')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deletePlan(@Param('code') code: string) {
+    await this.plansService.deletePlan(code);
+  }
+}
@@ -0,0 +1,328 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PlansService } from './plans.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('PlansService', () => {
+  let service: PlansService;
+  let db: jest.Mocked<any>;
+
+  const monthlyPlan = {
+    id: 'plan-id',
+    code: 'monthly',
+    name: 'Monthly',
+    billing_interval: 'MONTH',
+    interval_count: 1,
+    active: true,
+    prices: [{ currency: 'USD', amount: 999 }],
+  };
+
+  beforeEach(async () => {
+    db = {
+      plan: {
+        findMany: jest.fn().mockResolvedValue([monthlyPlan]),
+        findUnique: jest.fn().mockResolvedValue(monthlyPlan),
+        create: jest.fn((args: any) =>
+          Promise.resolve({ id: 'new-plan-id', ...args.data }),
+        ),
+        update: jest.fn((args: any) =>
+          Promise.resolve({ ...monthlyPlan, ...args.data }),
+        ),
+        delete: jest.fn(),
+      },
+      subscription: { count: jest.fn().mockResolvedValue(0) },
+      payment: { count: jest.fn().mockResolvedValue(0) },
+    };
+
+    service = await createService();
+  });
+
+  async function createService(config: Record<string, unknown> = {}) {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlansService,
+        { provide: DatabaseService, useValue: db },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<PlansService>(PlansService);
+  }
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('listPlans', () => {
+    it('should filter by active flag when given', async () => {
+      await service.listPlans({ active: true });
+
+      expect(db.plan.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { active: true } }),
+      );
+    });
+
+    it('should list all plans without a filter', async () => {
+      await service.listPlans();
+
+      expect(db.plan.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: {} }),
+      );
+    });
+  });
+
+  describe('createPlan', () => {
+    it('should create the plan with its prices', async () => {
+      db.plan.findUnique.mockResolvedValue(null);
+
+      await service.createPlan({
+        code: 'quarterly',
+        name: 'Quarterly',
+        billingInterval: 'MONTH',
+        intervalCount: 3,
+        prices: [
+          { currency: 'USD', amount: 2499 },
+          { currency: 'EUR', amount: 2299 },
+        ],
+      });
+
+      expect(db.plan.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            code: 'quarterly',
+            name: 'Quarterly',
+            billing_interval: 'MONTH',
+            interval_count: 3,
+            trial_days: undefined,
+            max_pause_days: undefined,
+            active: true,
+            amount_mismatch_policy: undefined,
+            prices: {
+              create: [
+                { currency: 'USD', amount: 2499, tolerance: undefined },
+                { currency: 'EUR', amount: 2299, tolerance: undefined },
+              ],
+            },
+          },
+        }),
+      );
+    });
+
+    it('should create the entitlements with the plan', async () => {
+      await service.createPlan({
+        code: 'pro',
+        name: 'Pro',
+        billingInterval: 'MONTH',
+        prices: [{ currency: 'USD', amount: 1999 }],
+        entitlements: [
+          { key: 'export_csv' },
+          { key: 'max_projects', limit: 50 },
+        ],
+      });
+
+      expect(db.plan.create.mock.calls[0][0].data.entitlements).toEqual({
+        create: [
+          { key: 'export_csv', limit: undefined },
+          { key: 'max_projects', limit: 50 },
+        ],
+      });
+    });
+
+    it('should reject the same entitlement key twice', async () => {
+      await expect(
+        service.createPlan({
+          code: 'pro',
+          name: 'Pro',
+          billingInterval: 'MONTH',
+          prices: [{ currency: 'USD', amount: 1999 }],
+          entitlements: [{ key: 'export_csv' }, { key: 'export_csv' }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject two prices in the same currency', async () => {
+      await expect(
+        service.createPlan({
+          code: 'quarterly',
+          name: 'Quarterly',
+          billingInterval: 'MONTH',
+          prices: [
+            { currency: 'USD', amount: 2499 },
+            { currency: 'USD', amount: 2599 },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw ConflictException when the code is taken', async () => {
+      db.plan.create.mockRejectedValue({ code: 'P2002' });
+
+      await expect(
+        service.createPlan({
+          code: 'monthly',
+          name: 'Monthly',
+          billingInterval: 'MONTH',
+          prices: [{ currency: 'USD', amount: 999 }],
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('updatePlan', () => {
+    it('should replace the whole price list', async () => {
+      await service.updatePlan('monthly', {
+        prices: [{ currency: 'USD', amount: 1099 }],
+      });
+
+      expect(db.plan.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { code: 'monthly' },
+          data: expect.objectContaining({
+            prices: {
+              deleteMany: {},
+              create: [{ currency: 'USD', amount: 1099, tolerance: undefined }],
+            },
+          }),
+        }),
+      );
+    });
+
+    it('should leave prices alone when not given', async () => {
+      await service.updatePlan('monthly', { active: false });
+
+      const { data } = db.plan.update.mock.calls[0][0];
+      expect(data.active).toBe(false);
+      expect(data.prices).toBeUndefined();
+    });
+
+    it('should throw NotFoundException for an unknown plan', async () => {
+      db.plan.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updatePlan('missing', { active: false }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deletePlan', () => {
+    it('should delete a plan nobody uses', async () => {
+      await service.deletePlan('monthly');
+
+      expect(db.plan.delete).toHaveBeenCalledWith({
+        where: { code: 'monthly' },
+      });
+    });
+
+    it('should refuse to delete a plan with subscriptions', async () => {
+      db.subscription.count.mockResolvedValue(2);
+
+      await expect(service.deletePlan('monthly')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(db.plan.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBillingPeriod', () => {
+    it('should express the plan interval in calendar units', () => {
+      expect(
+        service.getBillingPeriod({
+          billing_interval: 'MONTH',
+          interval_count: 3,
+        } as any),
+      ).toEqual({ interval: 'MONTH', count: 3 });
+      expect(
+        service.getBillingPeriod({
+          billing_interval: 'LIFETIME',
+          interval_count: 2,
+        } as any),
+      ).toEqual({ interval: 'LIFETIME', count: 1 });
+    });
+  });
+
+  describe('getDurationDays', () => {
+    it('should multiply the interval length by the interval count', () => {
+      expect(
+        service.getDurationDays({
+          billing_interval: 'MONTH',
+          interval_count: 3,
+        } as any),
+      ).toBe(90);
+      expect(
+        service.getDurationDays({
+          billing_interval: 'YEAR',
+          interval_count: 1,
+        } as any),
+      ).toBe(365);
+    });
+
+    it('should refuse a length for lifetime plans', () => {
+      expect(() =>
+        service.getDurationDays({
+          billing_interval: 'LIFETIME',
+          interval_count: 1,
+        } as any),
+      ).toThrow('A lifetime period has no length in days');
+    });
+  });
+
+  describe('checkAmount', () => {
+    const plan = {
+      ...monthlyPlan,
+      prices: [
+        { currency: 'USD', amount: 999, tolerance: 100 },
+        { currency: 'JPY', amount: 1500, tolerance: null },
+      ],
+    } as any;
+
+    it('should use the tolerance of the price in the payment currency', () => {
+      expect(service.checkAmount(plan, 1099, 'usd')).toEqual({
+        matches: true,
+        expectedAmount: 999,
+        tolerance: 100,
+      });
+      expect(service.checkAmount(plan, 1100, 'USD').matches).toBe(false);
+    });
+
+    it('should fall back to a percentage of the price (default 1%)', () => {
+      expect(service.checkAmount(plan, 1515, 'JPY')).toEqual({
+        matches: true,
+        expectedAmount: 1500,
+        tolerance: 15,
+      });
+      expect(service.checkAmount(plan, 1600, 'JPY').matches).toBe(false);
+    });
+
+    it('should use the configured default percentage', async () => {
+      const lenient = await createService({
+        PAYMENT_AMOUNT_TOLERANCE_PERCENT: '10',
+      });
+
+      expect(lenient.checkAmount(plan, 1600, 'JPY').matches).toBe(true);
+    });
+
+    it('should not match when the plan has no price in the currency', () => {
+      expect(service.checkAmount(plan, 999, 'EUR')).toEqual({
+        matches: false,
+        expectedAmount: null,
+        tolerance: null,
+      });
+    });
+
+    it('should throw if the default percentage is negative', async () => {
+      await expect(
+        createService({ PAYMENT_AMOUNT_TOLERANCE_PERCENT: '-1' }),
+      ).rejects.toThrow(
+        'PAYMENT_AMOUNT_TOLERANCE_PERCENT must be a non-negative number',
+      );
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BillingInterval, Plan, PlanPrice } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { CreatePlanDto } from './dto/create-plan.dto';
+import { UpdatePlanDto } from './dto/update-plan.dto';
+import { ListPlansQueryDto } from './dto/list-plans.query.dto';
+import { PlanPriceDto } from './dto/plan-price.dto';
+import { PlanEntitlementDto } from './dto/plan-entitlement.dto';
+import {
+  getApproximateDays,
+  IBillingPeriod,
+} from '../subscriptions/billing-period';
+import {
+  IAmountCheck,
+  PLAN_INCLUDE,
+  PlanWithPrices,
+} from './interfaces/plan.interface';
+
+/**
+ * Plans Service - the plan catalog
+ *
+ * Plans (code, billing interval, price per currency, entitlements) live in
+ * the database so launching a plan or changing a price doesn't need a
+ * deploy. Webhook validation and subscription activation read them on
+ * every event.
+ *
+ * CRITICAL: A plan's `code` is the planType sent by payment providers and
+ * the plan_type stored on subscriptions and payments - it is immutable,
+ * and a plan that is referenced can't be deleted (deactivate it instead).
+ *
+ * Config (env):
+ * - PAYMENT_AMOUNT_TOLERANCE_PERCENT (default 1) - accepted deviation from
+ *   the plan price for prices without their own `tolerance`
+ */
+@Injectable()
+export class PlansService {
+  private readonly logger = new Logger(PlansService.name);
+
+  private readonly defaultTolerancePercent: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    configService: ConfigService,
+  ) {
+    const percent = Number(
+      configService.get<string>('PAYMENT_AMOUNT_TOLERANCE_PERCENT') ?? 1,
+    );
+    if (!Number.isFinite(percent) || percent < 0) {
+      throw new Error(
+        'PAYMENT_AMOUNT_TOLERANCE_PERCENT must be a non-negative number',
+      );
+    }
+    this.defaultTolerancePercent = percent;
+  }
+
+  async listPlans(query: ListPlansQueryDto = {}): Promise<PlanWithPrices[]> {
+    return this.db.plan.findMany({
+      where: query.active === undefined ? {} : { active: query.active },
+      include: PLAN_INCLUDE,
+      orderBy: { code: 'asc' },
+    });
+  }
+
+  /**
+   * Plan by code, or null when the catalog has no such plan
+   */
+  async findByCode(code: string): Promise<PlanWithPrices | null> {
+    return this.db.plan.findUnique({
+      where: { code },
+      include: PLAN_INCLUDE,
+    });
+  }
+
+  async getPlan(code: string): Promise<PlanWithPrices> {
+    const plan = await this.findByCode(code);
+
+    if (!plan) {
+      throw new NotFoundException(`Plan ${code} not found`);
+    }
+
+    return plan;
+  }
+
+  async createPlan(dto: CreatePlanDto): Promise<PlanWithPrices> {
+    this.assertUniqueCurrencies(dto.prices);
+    if (dto.entitlements) {
+      this.assertUniqueEntitlementKeys(dto.entitlements);
+    }
+
+    try {
+      const plan = await this.db.plan.create({
+        data: {
+          code: dto.code,
+          name: dto.name,
+          billing_interval: dto.billingInterval,
+          interval_count: dto.intervalCount ?? 1,
+          trial_days: dto.trialDays,
+          max_pause_days: dto.maxPauseDays,
+          amount_mismatch_policy: dto.amountMismatchPolicy,
+          active: dto.active ?? true,
+          prices: { create: this.toPriceRows(dto.prices) },
+          ...(dto.entitlements && {
+            entitlements: {
+              create: this.toEntitlementRows(dto.entitlements),
+            },
+          }),
+        },
+        include: PLAN_INCLUDE,
+      });
+
+      this.logger.log(`Plan created: ${plan.code} (${plan.id})`);
+      return plan;
+    } catch (error: unknown) {
+      if (this.isUniqueConstraintError(error)) {
+        throw new ConflictException(`Plan ${dto.code} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a plan - `prices` and `entitlements`, when given, replace the
+   * whole list
+   *
+   * Takes effect for the next webhook; existing subscriptions keep the
+   * expiry they already have. Entitlement changes apply to current
+   * subscribers too (within the entitlements cache TTL).
+   */
+  async updatePlan(code: string, dto: UpdatePlanDto): Promise<PlanWithPrices> {
+    if (dto.prices) {
+      this.assertUniqueCurrencies(dto.prices);
+    }
+    if (dto.entitlements) {
+      this.assertUniqueEntitlementKeys(dto.entitlements);
+    }
+
+    await this.getPlan(code);
+
+    // Nested writes run in one transaction - no moment without prices
+    const plan = await this.db.plan.update({
+      where: { code },
+      data: {
+        name: dto.name,
+        billing_interval: dto.billingInterval,
+        interval_count: dto.intervalCount,
+        trial_days: dto.trialDays,
+        max_pause_days: dto.maxPauseDays,
+        amount_mismatch_policy: dto.amountMismatchPolicy,
+        active: dto.active,
+        ...(dto.prices && {
+          prices: { deleteMany: {}, create: this.toPriceRows(dto.prices) },
+        }),
+        ...(dto.entitlements && {
+          entitlements: {
+            deleteMany: {},
+            create: this.toEntitlementRows(dto.entitlements),
+          },
+        }),
+      },
+      include: PLAN_INCLUDE,
+    });
+
+    this.logger.log(`Plan updated: ${plan.code}`, { changes: dto });
+    return plan;
+  }
+
+  /**
+   * Delete a plan nobody ever subscribed to or paid for (e.g. a typo)
+   */
+  async deletePlan(code: string): Promise<void> {
+    await this.getPlan(code);
+
+    const [subscriptions, payments] = await Promise.all([
+      this.db.subscription.count({ where: { plan_type: code } }),
+      this.db.payment.count({ where: { plan_type: code } }),
+    ]);
+
+    if (subscriptions > 0 || payments > 0) {
+      throw new ConflictException(
+        `Plan ${code} is referenced by ${subscriptions} subscription(s) and ${payments} payment(s) - deactivate it instead`,
+      );
+    }
+
+    await this.db.plan.delete({ where: { code } });
+
+    this.logger.warn(`Plan deleted: ${code}`);
+  }
+
+  /**
+   * Subscription time bought by one payment for this plan (calendar units)
+   */
+  getBillingPeriod(plan: Plan): IBillingPeriod {
+    if (plan.billing_interval === BillingInterval.LIFETIME) {
+      return { interval: BillingInterval.LIFETIME, count: 1 };
+    }
+    return { interval: plan.billing_interval, count: plan.interval_count };
+  }
+
+  /**
+   * Approximate length of the plan's period in days (30-day months) - for
+   * proration and reporting, not for expiry dates. Recurring plans only,
+   * throws for a lifetime plan.
+   */
+  getDurationDays(plan: Plan): number {
+    return getApproximateDays(this.getBillingPeriod(plan));
+  }
+
+  /**
+   * Compare a paid amount with the plan price in the same currency
+   *
+   * EDGE CASE: Tolerance is in the payment currency's minor units - a
+   * fixed "100" would be $1 but only ¥100 - so each price carries its own
+   * (or falls back to a percentage of the price)
+   */
+  checkAmount(
+    plan: PlanWithPrices,
+    amount: number,
+    currency: string,
+  ): IAmountCheck {
+    const price = this.findPrice(plan, currency);
+
+    if (!price) {
+      return { matches: false, expectedAmount: null, tolerance: null };
+    }
+
+    const tolerance =
+      price.tolerance ??
+      Math.round((price.amount * this.defaultTolerancePercent) / 100);
+
+    return {
+      matches: Math.abs(amount - price.amount) <= tolerance,
+      expectedAmount: price.amount,
+      tolerance,
+    };
+  }
+
+  /**
+   * Plan price in a currency (case-insensitive), if the plan has one
+   */
+  findPrice(plan: PlanWithPrices, currency: string): PlanPrice | undefined {
+    const normalizedCurrency = currency.trim().toUpperCase();
+    return plan.prices.find((p) => p.currency === normalizedCurrency);
+  }
+
+  private toPriceRows(prices: PlanPriceDto[]) {
+    return prices.map((price) => ({
+      currency: price.currency,
+      amount: price.amount,
+      tolerance: price.tolerance,
+    }));
+  }
+
+  private toEntitlementRows(entitlements: PlanEntitlementDto[]) {
+    return entitlements.map((entitlement) => ({
+      key: entitlement.key,
+      limit: entitlement.limit,
+    }));
+  }
+
+  private assertUniqueEntitlementKeys(entitlements: PlanEntitlementDto[]) {
+    const keys = entitlements.map((entitlement) => entitlement.key);
+    if (new Set(keys).size !== keys.length) {
+      throw new BadRequestException('Each entitlement key may appear once');
+    }
+  }
+
+  private assertUniqueCurrencies(prices: PlanPriceDto[]) {
+    const currencies = prices.map((price) => price.currency);
+    if (new Set(currencies).size !== currencies.length) {
+      throw new BadRequestException('Only one price per currency is allowed');
+    }
+  }
+
+  /**
+   * P2002 = unique constraint violation (plan code already taken)
+   */
+  private isUniqueConstraintError(error: unknown): boolean {
+    return (
+      !!error &&
+      typeof error === 'object' &&
+      'code' in error &&
+      error.code === 'P2002'
+    );
+  }
+}
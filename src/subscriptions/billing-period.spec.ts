@@ -0,0 +1,109 @@
+import { addBillingPeriod, getApproximateDays } from './billing-period';
+
+describe('addBillingPeriod', () => {
+  const at = (iso: string) => new Date(iso);
+
+  it('should add calendar months, keeping the day and time of day', () => {
+    expect(
+      addBillingPeriod(at('2026-03-15T08:30:00Z'), {
+        interval: 'MONTH',
+        count: 1,
+      }),
+    ).toEqual(at('2026-04-15T08:30:00Z'));
+    expect(
+      addBillingPeriod(at('2026-11-15T08:30:00Z'), {
+        interval: 'MONTH',
+        count: 3,
+      }),
+    ).toEqual(at('2027-02-15T08:30:00Z'));
+  });
+
+  it('should clamp to the last day of a shorter month', () => {
+    expect(
+      addBillingPeriod(at('2026-01-31T00:00:00Z'), {
+        interval: 'MONTH',
+        count: 1,
+      }),
+    ).toEqual(at('2026-02-28T00:00:00Z'));
+    expect(
+      addBillingPeriod(at('2028-01-31T00:00:00Z'), {
+        interval: 'MONTH',
+        count: 1,
+      }),
+    ).toEqual(at('2028-02-29T00:00:00Z'));
+  });
+
+  it('should return to the anchor day after a clamped month', () => {
+    expect(
+      addBillingPeriod(
+        at('2026-02-28T00:00:00Z'),
+        { interval: 'MONTH', count: 1 },
+        31,
+      ),
+    ).toEqual(at('2026-03-31T00:00:00Z'));
+  });
+
+  it('should cover leap days in yearly periods', () => {
+    expect(
+      addBillingPeriod(at('2027-06-01T00:00:00Z'), {
+        interval: 'YEAR',
+        count: 1,
+      }),
+    ).toEqual(at('2028-06-01T00:00:00Z'));
+    expect(
+      addBillingPeriod(
+        at('2029-02-28T00:00:00Z'),
+        { interval: 'YEAR', count: -1 },
+        29,
+      ),
+    ).toEqual(at('2028-02-29T00:00:00Z'));
+  });
+
+  it('should add exact days and weeks', () => {
+    expect(
+      addBillingPeriod(at('2026-03-28T12:00:00Z'), {
+        interval: 'DAY',
+        count: 5,
+      }),
+    ).toEqual(at('2026-04-02T12:00:00Z'));
+    expect(
+      addBillingPeriod(at('2026-03-28T12:00:00Z'), {
+        interval: 'WEEK',
+        count: 2,
+      }),
+    ).toEqual(at('2026-04-11T12:00:00Z'));
+  });
+
+  it('should refuse to compute an end date for a lifetime period', () => {
+    expect(() =>
+      addBillingPeriod(at('2026-03-28T12:00:00Z'), {
+        interval: 'LIFETIME',
+        count: 1,
+      }),
+    ).toThrow('A lifetime period has no end date');
+  });
+
+  it('should go back with a negative count', () => {
+    expect(
+      addBillingPeriod(
+        at('2026-03-31T00:00:00Z'),
+        { interval: 'MONTH', count: -1 },
+        31,
+      ),
+    ).toEqual(at('2026-02-28T00:00:00Z'));
+  });
+});
+
+describe('getApproximateDays', () => {
+  it('should use 30-day months and 365-day years', () => {
+    expect(getApproximateDays({ interval: 'MONTH', count: 3 })).toBe(90);
+    expect(getApproximateDays({ interval: 'YEAR', count: 1 })).toBe(365);
+    expect(getApproximateDays({ interval: 'DAY', count: 12 })).toBe(12);
+  });
+
+  it('should have no length for a lifetime period', () => {
+    expect(() =>
+      getApproximateDays({ interval: 'LIFETIME', count: 1 }),
+    ).toThrow('A lifetime period has no length in days');
+  });
+});
@@ -0,0 +1,108 @@
+import { BillingInterval } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rough length of one interval in days - for proration and reporting only,
+// never for computing an expiry date. Lifetime has no length.
+const APPROXIMATE_INTERVAL_DAYS: Record<
+  Exclude<BillingInterval, 'LIFETIME'>,
+  number
+> = {
+  DAY: 1,
+  WEEK: 7,
+  MONTH: 30,
+  YEAR: 365,
+};
+
+/**
+ * Billing Period
+ *
+ * Subscription time bought by one payment, in calendar units
+ * (e.g. 1 MONTH, 3 MONTH, 1 YEAR, 30 DAY)
+ */
+export interface IBillingPeriod {
+  interval: BillingInterval;
+  count: number; // Negative → go back (e.g. taking back refunded time)
+}
+
+/**
+ * Whether the interval is measured in months (so the billing anchor day
+ * applies) rather than in a fixed number of days
+ */
+export function isCalendarInterval(interval: BillingInterval): boolean {
+  return (
+    interval === BillingInterval.MONTH || interval === BillingInterval.YEAR
+  );
+}
+
+/**
+ * Day of month (UTC) a subscription started on this date renews on
+ */
+export function getBillingAnchorDay(date: Date): number {
+  return date.getUTCDate();
+}
+
+/**
+ * Add a billing period to a date
+ *
+ * Calendar-correct: 1 MONTH from Mar 15 is Apr 15 and 1 YEAR covers leap
+ * days, instead of a fixed 30/365 days drifting off the purchase date.
+ * All arithmetic is in UTC, so DST changes don't move the time of day.
+ *
+ * EDGE CASE: End of month - the target day is clamped to the length of the
+ * target month (Jan 31 + 1 month → Feb 28/29). Passing the subscription's
+ * billing anchor day makes the following period return to it
+ * (Feb 28 + 1 month → Mar 31 with anchor 31) instead of sticking at 28.
+ *
+ * CAUTION: LIFETIME has no end date - lifetime subscriptions are stored
+ * with is_lifetime and no expires_at, never as a far-future date
+ */
+export function addBillingPeriod(
+  from: Date,
+  period: IBillingPeriod,
+  anchorDay = getBillingAnchorDay(from),
+): Date {
+  switch (period.interval) {
+    case BillingInterval.DAY:
+      return new Date(from.getTime() + period.count * DAY_MS);
+    case BillingInterval.WEEK:
+      return new Date(from.getTime() + period.count * 7 * DAY_MS);
+    case BillingInterval.MONTH:
+      return addMonths(from, period.count, anchorDay);
+    case BillingInterval.YEAR:
+      return addMonths(from, period.count * 12, anchorDay);
+    case BillingInterval.LIFETIME:
+      throw new Error('A lifetime period has no end date');
+  }
+}
+
+/**
+ * Approximate length of a billing period in days
+ *
+ * CAUTION: Throws for LIFETIME - there is no day count that stands for
+ * lifetime access (see addBillingPeriod)
+ */
+export function getApproximateDays(period: IBillingPeriod): number {
+  if (period.interval === BillingInterval.LIFETIME) {
+    throw new Error('A lifetime period has no length in days');
+  }
+  return APPROXIMATE_INTERVAL_DAYS[period.interval] * period.count;
+}
+
+function addMonths(from: Date, months: number, anchorDay: number): Date {
+  const target = new Date(from.getTime());
+  // Day 1 first, so setting the month can't overflow into the next one
+  target.setUTCDate(1);
+  target.setUTCMonth(target.getUTCMonth() + months);
+  target.setUTCDate(
+    Math.min(
+      anchorDay,
+      daysInMonth(target.getUTCFullYear(), target.getUTCMonth()),
+    ),
+  );
+  return target;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
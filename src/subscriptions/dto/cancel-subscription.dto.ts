@@ -0,0 +1,30 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { CancellationMode } from '@prisma/client';
+
+/**
+ * Cancel Subscription DTO
+ *
+ * - AT_PERIOD_END: access until the paid period ends, no renewal
+ * - IMMEDIATE: access ends now, `refund: true` records a prorated refund
+ */
+export class CancelSubscriptionDto {
+  @IsEnum(CancellationMode)
+  mode: CancellationMode;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string; // e.g., "Too expensive"
+
+  @IsBoolean()
+  @IsOptional()
+  refund?: boolean; // IMMEDIATE only, default false
+}
@@ -0,0 +1,24 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * Pause Subscription DTO
+ *
+ * Without resumeAt the pause lasts the plan's max_pause_days
+ */
+export class PauseSubscriptionDto {
+  @IsDateString()
+  @IsOptional()
+  resumeAt?: string; // Automatic resume (ISO 8601)
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string; // e.g., "Travelling until June"
+}
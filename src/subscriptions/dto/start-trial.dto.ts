@@ -0,0 +1,16 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Start Trial DTO
+ *
+ * The user is identified by email, like in payment webhooks - the first
+ * payment later lands on the same user and converts the trial.
+ */
+export class StartTrialDto {
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  planCode: string; // e.g., "monthly"
+}
@@ -0,0 +1,26 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+/**
+ * Trial Stats Query - which trials to count
+ *
+ * All filters are optional and combined with AND.
+ */
+export class TrialStatsQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  planCode?: string;
+
+  @IsDateString()
+  @IsOptional()
+  from?: string; // trial_started_at >= from (ISO 8601)
+
+  @IsDateString()
+  @IsOptional()
+  to?: string; // trial_started_at <= to (ISO 8601)
+}
@@ -0,0 +1,51 @@
+import { CancellationMode, SubscriptionPeriodReason } from '@prisma/client';
+
+/**
+ * Plan Purchase
+ *
+ * The payment behind a subscription change - used to price a plan change
+ * and to link it to the payment
+ */
+export interface IPlanPurchase {
+  paymentId?: string;
+  currency: string; // Plan prices are compared in the payment currency
+}
+
+/**
+ * Trial conversion numbers for one plan
+ */
+export interface ITrialStats {
+  planCode: string;
+  started: number;
+  converted: number; // Paid after (or during) the trial
+  inTrial: number; // Not converted, trial still running
+  lapsed: number; // Trial ended without a payment
+  conversionRate: number | null; // converted / finished trials, null = none finished yet
+}
+
+/**
+ * Options for SubscriptionsService.cancelSubscription()
+ */
+export interface ICancelSubscriptionOptions {
+  mode: CancellationMode;
+  reason?: string; // Stored on the subscription
+  refund?: boolean; // IMMEDIATE only - record a prorated refund
+  requestedBy: string; // Admin API key id
+}
+
+/**
+ * Options for SubscriptionsService.pauseSubscription()
+ */
+export interface IPauseSubscriptionOptions {
+  resumeAt?: Date; // Automatic resume, default (and at most) the plan's max_pause_days
+  reason?: string; // Stored on the pause record
+  requestedBy: string; // Admin API key id
+}
+
+/**
+ * Where subscription time comes from - recorded as a SubscriptionPeriod
+ */
+export interface ISubscriptionPeriodSource {
+  paymentId?: string | null;
+  reason?: SubscriptionPeriodReason; // Default NEW or RENEWAL, from the current state
+}
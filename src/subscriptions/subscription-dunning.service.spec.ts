@@ -0,0 +1,251 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SubscriptionDunningService } from './subscription-dunning.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('SubscriptionDunningService', () => {
+  let service: SubscriptionDunningService;
+  let db: jest.Mocked<any>;
+
+  const activeSubscription = {
+    id: 'sub-id',
+    user_id: 'user-1',
+    plan_type: 'monthly',
+    status: 'ACTIVE',
+    is_lifetime: false,
+    expires_at: new Date('2026-03-03T00:00:00Z'),
+    trial_started_at: null,
+    trial_converted_at: null,
+    cancelled_at: null,
+  };
+
+  async function createService(config: Record<string, unknown> = {}) {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionDunningService,
+        { provide: DatabaseService, useValue: db },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<SubscriptionDunningService>(SubscriptionDunningService);
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T00:00:00Z') });
+
+    db = {
+      subscription: {
+        findUnique: jest.fn().mockResolvedValue(activeSubscription),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn((args: any) =>
+          Promise.resolve({ ...activeSubscription, ...args.data }),
+        ),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      subscriptionEvent: { create: jest.fn() },
+      $transaction: jest.fn((fn: any) => fn(db)),
+    };
+
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reject reminders outside the grace period', async () => {
+    await expect(
+      createService({
+        SUBSCRIPTION_GRACE_PERIOD_DAYS: '3',
+        SUBSCRIPTION_DUNNING_REMINDER_DAYS: '1,3',
+      }),
+    ).rejects.toThrow(
+      'SUBSCRIPTION_DUNNING_REMINDER_DAYS must be whole days shorter than the grace period',
+    );
+  });
+
+  describe('markPastDue', () => {
+    it('should keep access for the grace period after the paid period', async () => {
+      const result = await service.markPastDue(
+        'user-1',
+        'monthly',
+        'pay-id',
+        db,
+      );
+
+      expect(result?.status).toBe('PAST_DUE');
+      expect(db.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-id' },
+        data: {
+          status: 'PAST_DUE',
+          past_due_at: new Date('2026-03-01T00:00:00Z'),
+          grace_ends_at: new Date('2026-03-10T00:00:00Z'),
+          dunning_step: 0,
+        },
+      });
+      expect(db.subscriptionEvent.create.mock.calls[0][0].data).toMatchObject({
+        type: 'PAST_DUE',
+        from_status: 'ACTIVE',
+        to_status: 'PAST_DUE',
+        metadata: {
+          paymentId: 'pay-id',
+          graceEndsAt: '2026-03-10T00:00:00.000Z',
+        },
+      });
+    });
+
+    it('should ignore a failure long before the period ends', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...activeSubscription,
+        expires_at: new Date('2026-03-20T00:00:00Z'),
+      });
+
+      expect(
+        await service.markPastDue('user-1', 'monthly', 'pay-id'),
+      ).toBeNull();
+      expect(db.subscription.update).not.toHaveBeenCalled();
+    });
+
+    it('should revive a subscription the expiry job just expired', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...activeSubscription,
+        status: 'EXPIRED',
+        expires_at: new Date('2026-02-28T00:00:00Z'),
+      });
+
+      const result = await service.markPastDue('user-1', 'monthly', 'pay-id');
+
+      expect(result?.grace_ends_at).toEqual(new Date('2026-03-08T00:00:00Z'));
+    });
+
+    it.each([
+      ['cancelled', { status: 'CANCELLED' }],
+      ['cancelled at period end', { cancel_at_period_end: true }],
+      ['already past due', { status: 'PAST_DUE' }],
+      ['lifetime', { is_lifetime: true, expires_at: null }],
+      [
+        'an unconverted trial',
+        { trial_started_at: new Date('2026-02-20T00:00:00Z') },
+      ],
+      [
+        'expired before the grace period',
+        { status: 'EXPIRED', expires_at: new Date('2026-01-01T00:00:00Z') },
+      ],
+      [
+        'cancelled immediately and expired since',
+        {
+          status: 'EXPIRED',
+          expires_at: new Date('2026-02-28T00:00:00Z'),
+          cancelled_at: new Date('2026-02-28T00:00:00Z'),
+          cancellation_mode: 'IMMEDIATE',
+          cancellation_reason: 'Too expensive',
+        },
+      ],
+      [
+        'upgraded away from and expired since',
+        {
+          status: 'EXPIRED',
+          expires_at: new Date('2026-02-28T00:00:00Z'),
+          cancelled_at: new Date('2026-02-28T00:00:00Z'),
+          cancellation_mode: 'IMMEDIATE',
+          cancellation_reason: 'Upgraded to yearly',
+        },
+      ],
+      [
+        'superseded by lifetime access and expired since',
+        {
+          status: 'EXPIRED',
+          expires_at: new Date('2026-02-28T00:00:00Z'),
+          cancelled_at: new Date('2026-02-28T00:00:00Z'),
+          cancellation_mode: 'IMMEDIATE',
+          cancellation_reason: 'Superseded by lifetime founders',
+        },
+      ],
+    ])('should leave a %s subscription alone', async (_, overrides) => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...activeSubscription,
+        ...overrides,
+      });
+
+      expect(
+        await service.markPastDue('user-1', 'monthly', 'pay-id'),
+      ).toBeNull();
+      expect(db.subscription.update).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without a grace period', async () => {
+      // Default reminder days are ignored, not rejected
+      const noGrace = await createService({
+        SUBSCRIPTION_GRACE_PERIOD_DAYS: '0',
+      });
+
+      expect(
+        await noGrace.markPastDue('user-1', 'monthly', 'pay-id'),
+      ).toBeNull();
+      expect(db.subscription.findUnique).not.toHaveBeenCalled();
+      expect(await noGrace.sendDueReminders()).toBe(0);
+    });
+  });
+
+  describe('sendDueReminders', () => {
+    const pastDue = {
+      ...activeSubscription,
+      status: 'PAST_DUE',
+      past_due_at: new Date('2026-02-25T00:00:00Z'),
+      grace_ends_at: new Date('2026-03-04T00:00:00Z'),
+      dunning_step: 0,
+    };
+
+    it('should look for the next reminder of each step', async () => {
+      await service.sendDueReminders();
+
+      expect(db.subscription.findMany.mock.calls[0][0].where).toEqual({
+        status: 'PAST_DUE',
+        grace_ends_at: { gt: new Date('2026-03-01T00:00:00Z') },
+        OR: [
+          {
+            dunning_step: 0,
+            past_due_at: { lte: new Date('2026-02-28T00:00:00Z') },
+          },
+          {
+            dunning_step: 1,
+            past_due_at: { lte: new Date('2026-02-26T00:00:00Z') },
+          },
+          {
+            dunning_step: 2,
+            past_due_at: { lte: new Date('2026-02-24T00:00:00Z') },
+          },
+        ],
+      });
+    });
+
+    it('should send only the latest overdue reminder', async () => {
+      db.subscription.findMany.mockResolvedValue([pastDue]);
+
+      const sent = await service.sendDueReminders();
+
+      expect(sent).toBe(1);
+      // 4 days past due: reminders at day 1 and 3 are due → step 2
+      expect(db.subscription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-id', status: 'PAST_DUE', dunning_step: 0 },
+        data: { dunning_step: 2 },
+      });
+      expect(db.subscriptionEvent.create.mock.calls[0][0].data).toMatchObject({
+        type: 'DUNNING_REMINDER',
+        metadata: { step: 2, graceEndsAt: '2026-03-04T00:00:00.000Z' },
+      });
+    });
+
+    it('should not send a reminder another instance already sent', async () => {
+      db.subscription.findMany.mockResolvedValue([pastDue]);
+      db.subscription.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await service.sendDueReminders()).toBe(0);
+      expect(db.subscriptionEvent.create).not.toHaveBeenCalled();
+    });
+  });
+});
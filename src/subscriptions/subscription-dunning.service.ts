@@ -0,0 +1,292 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Prisma,
+  Subscription,
+  SubscriptionEventType,
+  SubscriptionStatus,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { recordSubscriptionEvent } from './subscription-events';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Max past-due subscriptions reminded per cron run
+const REMINDER_BATCH_SIZE = 100;
+
+/**
+ * Subscription Dunning Service - failed renewals
+ *
+ * A failed renewal payment doesn't end access right away:
+ * 1. Subscription → PAST_DUE, access kept until grace_ends_at
+ *    (grace period counted from the end of the paid period, or from the
+ *    failure if that comes later)
+ * 2. Reminder events (DUNNING_REMINDER) at the configured offsets after
+ *    the failure - the notification service reads them and emails the user
+ * 3. Payment succeeds during grace → back to ACTIVE
+ *    (SubscriptionsService.activateOrExtendSubscription)
+ * 4. Grace runs out → EXPIRED (SubscriptionExpiryService)
+ *
+ * Config (env):
+ * - SUBSCRIPTION_GRACE_PERIOD_DAYS (default 7, 0 = no grace period)
+ * - SUBSCRIPTION_DUNNING_REMINDER_DAYS (default "1,3,5") - days after the
+ *   failure, each shorter than the grace period (ignored without one)
+ * - SUBSCRIPTION_RENEWAL_WINDOW_DAYS (default 3) - how long before the
+ *   end of the paid period a failed payment counts as a failed renewal
+ */
+@Injectable()
+export class SubscriptionDunningService {
+  private readonly logger = new Logger(SubscriptionDunningService.name);
+
+  private readonly gracePeriodMs: number;
+  private readonly reminderOffsetsMs: number[];
+  private readonly renewalWindowMs: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    configService: ConfigService,
+  ) {
+    const graceDays = Number(
+      configService.get<string>('SUBSCRIPTION_GRACE_PERIOD_DAYS') ?? 7,
+    );
+    if (!Number.isInteger(graceDays) || graceDays < 0) {
+      throw new Error(
+        'SUBSCRIPTION_GRACE_PERIOD_DAYS must be a non-negative integer',
+      );
+    }
+    this.gracePeriodMs = graceDays * DAY_MS;
+
+    // No grace period → nobody is ever past due, nothing to remind of
+    const reminderDays =
+      graceDays === 0
+        ? []
+        : String(
+            configService.get<string>('SUBSCRIPTION_DUNNING_REMINDER_DAYS') ??
+              '1,3,5',
+          )
+            .split(',')
+            .filter((day) => day.trim() !== '')
+            .map(Number);
+    if (
+      reminderDays.some(
+        (day) => !Number.isInteger(day) || day < 0 || day >= graceDays,
+      )
+    ) {
+      throw new Error(
+        'SUBSCRIPTION_DUNNING_REMINDER_DAYS must be whole days shorter than the grace period',
+      );
+    }
+    this.reminderOffsetsMs = [...new Set(reminderDays)]
+      .sort((a, b) => a - b)
+      .map((day) => day * DAY_MS);
+
+    const renewalWindowDays = Number(
+      configService.get<string>('SUBSCRIPTION_RENEWAL_WINDOW_DAYS') ?? 3,
+    );
+    if (!Number.isInteger(renewalWindowDays) || renewalWindowDays < 0) {
+      throw new Error(
+        'SUBSCRIPTION_RENEWAL_WINDOW_DAYS must be a non-negative integer',
+      );
+    }
+    this.renewalWindowMs = renewalWindowDays * DAY_MS;
+  }
+
+  /**
+   * Put a subscription into PAST_DUE after its renewal payment failed
+   *
+   * Applies to recurring subscriptions that are ACTIVE with their period
+   * ending within the renewal window, or that the expiry job already
+   * EXPIRED within the grace period (the failure webhook often arrives
+   * after the period ended). Returns null when nothing changed:
+   * - No subscription, lifetime, an unpaid trial, PAUSED, or not renewing
+   *   (CANCELLED or cancel_at_period_end)
+   * - Cancelled and expired since - cancelled_at stays set when the expiry
+   *   job moves it to EXPIRED (admin cancel, closed by an upgrade,
+   *   superseded by lifetime access)
+   * - Period not ending yet - e.g. a failed one-off purchase or early
+   *   renewal attempt, the paid time is still there
+   * - Already PAST_DUE (provider retry failed too) - grace is not extended
+   * - Grace period disabled (0 days)
+   *
+   * CRITICAL: Runs in the webhook transaction (`tx`)
+   */
+  async markPastDue(
+    userId: string,
+    planType: string,
+    paymentId: string,
+    tx: Prisma.TransactionClient = this.db,
+  ): Promise<Subscription | null> {
+    if (this.gracePeriodMs === 0) {
+      return null;
+    }
+
+    const subscription = await tx.subscription.findUnique({
+      where: {
+        user_id_plan_type: { user_id: userId, plan_type: planType },
+      },
+    });
+
+    const now = new Date();
+
+    if (!subscription || !this.isRenewalDue(subscription, now)) {
+      return null;
+    }
+
+    const graceEndsAt = new Date(
+      Math.max(subscription.expires_at!.getTime(), now.getTime()) +
+        this.gracePeriodMs,
+    );
+
+    const pastDue = await tx.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: SubscriptionStatus.PAST_DUE,
+        past_due_at: now,
+        grace_ends_at: graceEndsAt,
+        dunning_step: 0,
+      },
+    });
+
+    await recordSubscriptionEvent(tx, pastDue, {
+      type: SubscriptionEventType.PAST_DUE,
+      fromStatus: subscription.status,
+      toStatus: SubscriptionStatus.PAST_DUE,
+      metadata: { paymentId, graceEndsAt: graceEndsAt.toISOString() },
+    });
+
+    this.logger.warn(
+      `Subscription ${subscription.id} is past due - access kept until ${graceEndsAt.toISOString()}`,
+    );
+
+    return pastDue;
+  }
+
+  /**
+   * Scheduled entry point for sendDueReminders()
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'subscription-dunning' })
+  async handleDunningCron() {
+    try {
+      await this.sendDueReminders();
+    } catch (error: unknown) {
+      this.logger.error(
+        'Dunning reminders failed',
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
+
+  /**
+   * Record a DUNNING_REMINDER event for every past-due subscription whose
+   * next reminder offset has passed
+   *
+   * EDGE CASE: Several reminders overdue (e.g. the job was down) - only the
+   * latest one is sent, the user isn't flooded with catch-up emails
+   *
+   * Multiple instances: the step is advanced with a guarded update, so each
+   * reminder is recorded once
+   */
+  async sendDueReminders(now = new Date()): Promise<number> {
+    if (this.reminderOffsetsMs.length === 0) {
+      return 0;
+    }
+
+    // One condition per step - "step i not sent yet and its offset passed"
+    const due = await this.db.subscription.findMany({
+      where: {
+        status: SubscriptionStatus.PAST_DUE,
+        grace_ends_at: { gt: now },
+        OR: this.reminderOffsetsMs.map((offsetMs, step) => ({
+          dunning_step: step,
+          past_due_at: { lte: new Date(now.getTime() - offsetMs) },
+        })),
+      },
+      orderBy: { past_due_at: 'asc' },
+      take: REMINDER_BATCH_SIZE,
+    });
+
+    let sent = 0;
+    for (const subscription of due) {
+      try {
+        if (await this.sendReminder(subscription, now)) {
+          sent++;
+        }
+      } catch (error: unknown) {
+        // One broken subscription must not block the rest of the batch
+        this.logger.error(
+          `Failed to send dunning reminder for subscription ${subscription.id}`,
+          error instanceof Error ? error.stack : error,
+        );
+      }
+    }
+
+    if (sent > 0) {
+      this.logger.log(`Sent ${sent} dunning reminder(s)`);
+    }
+
+    return sent;
+  }
+
+  private sendReminder(subscription: Subscription, now: Date) {
+    const elapsedMs = now.getTime() - subscription.past_due_at!.getTime();
+    const step = this.reminderOffsetsMs.filter(
+      (offsetMs) => offsetMs <= elapsedMs,
+    ).length;
+
+    return this.db.$transaction(async (tx) => {
+      const { count } = await tx.subscription.updateMany({
+        where: {
+          id: subscription.id,
+          status: SubscriptionStatus.PAST_DUE,
+          dunning_step: subscription.dunning_step,
+        },
+        data: { dunning_step: step },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      await recordSubscriptionEvent(tx, subscription, {
+        type: SubscriptionEventType.DUNNING_REMINDER,
+        metadata: {
+          step,
+          graceEndsAt: subscription.grace_ends_at!.toISOString(),
+        },
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * Whether a failed payment is a failed renewal of this subscription
+   */
+  private isRenewalDue(subscription: Subscription, now: Date): boolean {
+    if (
+      subscription.is_lifetime ||
+      subscription.cancel_at_period_end ||
+      subscription.cancelled_at ||
+      !subscription.expires_at
+    ) {
+      return false;
+    }
+
+    // Trial that never converted - the first charge failed, nothing to keep
+    if (subscription.trial_started_at && !subscription.trial_converted_at) {
+      return false;
+    }
+
+    if (subscription.status === SubscriptionStatus.ACTIVE) {
+      return (
+        subscription.expires_at.getTime() - now.getTime() <=
+        this.renewalWindowMs
+      );
+    }
+
+    return (
+      subscription.status === SubscriptionStatus.EXPIRED &&
+      subscription.expires_at.getTime() + this.gracePeriodMs > now.getTime()
+    );
+  }
+}
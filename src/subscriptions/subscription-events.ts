@@ -0,0 +1,35 @@
+import {
+  Prisma,
+  Subscription,
+  SubscriptionEventType,
+  SubscriptionStatus,
+} from '@prisma/client';
+
+/**
+ * Record a subscription lifecycle event (see SubscriptionEvent)
+ *
+ * CRITICAL: Pass the transaction that changes the subscription - an event
+ * must never exist without its change, or the other way around
+ */
+export function recordSubscriptionEvent(
+  tx: Prisma.TransactionClient,
+  subscription: Pick<Subscription, 'id' | 'user_id' | 'plan_type'>,
+  event: {
+    type: SubscriptionEventType;
+    fromStatus?: SubscriptionStatus;
+    toStatus?: SubscriptionStatus;
+    metadata?: Prisma.InputJsonValue;
+  },
+) {
+  return tx.subscriptionEvent.create({
+    data: {
+      subscription_id: subscription.id,
+      user_id: subscription.user_id,
+      plan_type: subscription.plan_type,
+      type: event.type,
+      from_status: event.fromStatus,
+      to_status: event.toStatus,
+      metadata: event.metadata,
+    },
+  });
+}
@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SubscriptionExpiryService } from './subscription-expiry.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('SubscriptionExpiryService', () => {
+  let service: SubscriptionExpiryService;
+  let db: jest.Mocked<any>;
+
+  async function createService(config: Record<string, unknown> = {}) {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionExpiryService,
+        { provide: DatabaseService, useValue: db },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<SubscriptionExpiryService>(SubscriptionExpiryService);
+  }
+
+  beforeEach(async () => {
+    db = { $queryRaw: jest.fn().mockResolvedValue([]) };
+
+    service = await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should throw if the batch size is not a positive integer', async () => {
+    await expect(
+      createService({ SUBSCRIPTION_EXPIRY_BATCH_SIZE: '0' }),
+    ).rejects.toThrow(
+      'SUBSCRIPTION_EXPIRY_BATCH_SIZE must be a positive integer',
+    );
+  });
+
+  describe('expireLapsedSubscriptions', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+
+    it('should expire lapsed subscriptions and record an event for each', async () => {
+      db.$queryRaw.mockResolvedValueOnce([
+        { subscription_id: 'sub-1' },
+        { subscription_id: 'sub-2' },
+      ]);
+
+      const expired = await service.expireLapsedSubscriptions(now);
+
+      expect(expired).toBe(2);
+      const [strings, expiresBefore, graceEndsBefore, limit] =
+        db.$queryRaw.mock.calls[0];
+      const sql = strings.join('?');
+      expect(sql).toContain(`status IN ('ACTIVE', 'CANCELLED', 'TRIALING')`);
+      expect(sql).toContain(`status = 'PAST_DUE' AND grace_ends_at <= ?`);
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(sql).toContain('INSERT INTO "SubscriptionEvent"');
+      expect(expiresBefore).toBe(now);
+      expect(graceEndsBefore).toBe(now);
+      expect(limit).toBe(500);
+    });
+
+    it('should keep going until a short batch comes back', async () => {
+      const custom = await createService({
+        SUBSCRIPTION_EXPIRY_BATCH_SIZE: '2',
+      });
+      db.$queryRaw
+        .mockResolvedValueOnce([
+          { subscription_id: 'sub-1' },
+          { subscription_id: 'sub-2' },
+        ])
+        .mockResolvedValueOnce([{ subscription_id: 'sub-3' }]);
+
+      expect(await custom.expireLapsedSubscriptions(now)).toBe(3);
+      expect(db.$queryRaw).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('handleExpiryCron', () => {
+    it('should do nothing when disabled', async () => {
+      const disabled = await createService({
+        SUBSCRIPTION_EXPIRY_ENABLED: 'false',
+      });
+
+      await disabled.handleExpiryCron();
+
+      expect(db.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when a run fails', async () => {
+      db.$queryRaw.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.handleExpiryCron()).resolves.toBeUndefined();
+    });
+  });
+});
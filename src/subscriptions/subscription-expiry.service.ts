@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DatabaseService } from '../database/database.service';
+
+/**
+ * Subscription Expiry Service - moves lapsed subscriptions to EXPIRED
+ *
+ * Every minute picks up ACTIVE, CANCELLED and TRIALING subscriptions whose
+ * expires_at has passed and sets them to EXPIRED, oldest expiry first,
+ * in batches (walks the expires_at index). Lifetime subscriptions have no
+ * expires_at and are never picked up.
+ *
+ * PAST_DUE subscriptions (failed renewal) expire when their grace period
+ * runs out (grace_ends_at), not at expires_at. PAUSED subscriptions never
+ * expire - their time is frozen until resumed.
+ *
+ * Every transition is recorded as a SubscriptionEvent (type EXPIRED, with
+ * the previous status) in the same statement - downstream consumers read
+ * the events instead of re-checking dates.
+ *
+ * Multiple instances: each batch is claimed with `FOR UPDATE SKIP LOCKED`,
+ * so concurrent runs get disjoint rows and a subscription is expired (and
+ * its event written) exactly once.
+ *
+ * Config (env):
+ * - SUBSCRIPTION_EXPIRY_ENABLED (default true)
+ * - SUBSCRIPTION_EXPIRY_BATCH_SIZE (default 500)
+ */
+@Injectable()
+export class SubscriptionExpiryService {
+  private readonly logger = new Logger(SubscriptionExpiryService.name);
+
+  private readonly enabled: boolean;
+  private readonly batchSize: number;
+
+  // Prevents overlapping runs when a backlog takes longer than the interval
+  private isRunning = false;
+
+  constructor(
+    private readonly db: DatabaseService,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      String(configService.get('SUBSCRIPTION_EXPIRY_ENABLED')) !== 'false';
+
+    const batchSize = Number(
+      configService.get<string>('SUBSCRIPTION_EXPIRY_BATCH_SIZE') ?? 500,
+    );
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error(
+        'SUBSCRIPTION_EXPIRY_BATCH_SIZE must be a positive integer',
+      );
+    }
+    this.batchSize = batchSize;
+  }
+
+  /**
+   * Scheduled entry point
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'subscription-expiry' })
+  async handleExpiryCron() {
+    if (!this.enabled || this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.expireLapsedSubscriptions();
+    } catch (error: unknown) {
+      this.logger.error(
+        'Subscription expiry run failed',
+        error instanceof Error ? error.stack : error,
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Expire batches until no lapsed subscription is left
+   *
+   * Returns how many subscriptions were expired
+   */
+  async expireLapsedSubscriptions(now = new Date()): Promise<number> {
+    let expired = 0;
+
+    for (;;) {
+      const batch = await this.expireBatch(now);
+      expired += batch.length;
+
+      // Short batch → nothing left right now
+      if (batch.length < this.batchSize) {
+        break;
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.log(`Expired ${expired} lapsed subscription(s)`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Expire up to one batch and record the events - a single statement, so
+   * a status change never exists without its event
+   *
+   * SKIP LOCKED: rows locked by another instance (or by a webhook renewing
+   * the subscription right now) are skipped instead of waited on. A row
+   * renewed meanwhile no longer matches once its lock is released.
+   */
+  private expireBatch(now: Date): Promise<{ subscription_id: string }[]> {
+    return this.db.$queryRaw`
+      WITH lapsed AS (
+        SELECT id, status FROM "Subscription"
+        WHERE (status IN ('ACTIVE', 'CANCELLED', 'TRIALING')
+            AND expires_at <= ${now})
+          OR (status = 'PAST_DUE' AND grace_ends_at <= ${now})
+        ORDER BY expires_at
+        LIMIT ${this.batchSize}
+        FOR UPDATE SKIP LOCKED
+      ),
+      expired AS (
+        UPDATE "Subscription" s
+        SET status = 'EXPIRED', updated_at = NOW()
+        FROM lapsed
+        WHERE s.id = lapsed.id
+        RETURNING s.id, s.user_id, s.plan_type, lapsed.status AS from_status
+      )
+      INSERT INTO "SubscriptionEvent"
+        (id, subscription_id, user_id, plan_type, type, from_status, to_status, created_at)
+      SELECT gen_random_uuid()::text, id, user_id, plan_type,
+        'EXPIRED'::"SubscriptionEventType", from_status,
+        'EXPIRED'::"SubscriptionStatus", NOW()
+      FROM expired
+      RETURNING subscription_id
+    `;
+  }
+}
@@ -0,0 +1,30 @@
+import { Prisma, Subscription, SubscriptionPeriodReason } from '@prisma/client';
+
+/**
+ * Record a stretch of subscription time (see SubscriptionPeriod)
+ *
+ * CRITICAL: Pass the transaction that moves expires_at - the history must
+ * add up to the subscription's dates
+ */
+export function recordSubscriptionPeriod(
+  tx: Prisma.TransactionClient,
+  subscription: Pick<Subscription, 'id' | 'user_id' | 'plan_type'>,
+  period: {
+    reason: SubscriptionPeriodReason;
+    startsAt: Date;
+    endsAt: Date | null;
+    paymentId?: string | null;
+  },
+) {
+  return tx.subscriptionPeriod.create({
+    data: {
+      subscription_id: subscription.id,
+      user_id: subscription.user_id,
+      plan_type: subscription.plan_type,
+      reason: period.reason,
+      payment_id: period.paymentId,
+      starts_at: period.startsAt,
+      ends_at: period.endsAt,
+    },
+  });
+}
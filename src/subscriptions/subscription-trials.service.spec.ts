@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EntitlementsCacheService } from '../entitlements/entitlements-cache.service';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SubscriptionTrialsService } from './subscription-trials.service';
+import { DatabaseService } from '../database/database.service';
+import { PlansService } from '../plans/plans.service';
+
+describe('SubscriptionTrialsService', () => {
+  let service: SubscriptionTrialsService;
+  let db: jest.Mocked<any>;
+
+  const monthlyPlan = {
+    code: 'monthly',
+    billing_interval: 'MONTH',
+    interval_count: 1,
+    trial_days: 14,
+    active: true,
+    prices: [{ currency: 'USD', amount: 999 }],
+  };
+  const dto = { email: 'trial@example.com', planCode: 'monthly' };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T00:00:00Z') });
+
+    db = {
+      plan: { findUnique: jest.fn().mockResolvedValue(monthlyPlan) },
+      user: {
+        upsert: jest.fn().mockResolvedValue({ id: 'user-1' }),
+      },
+      subscription: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+      subscriptionPeriod: { create: jest.fn() },
+      $transaction: jest.fn((fn: any) => fn(db)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionTrialsService,
+        PlansService,
+        { provide: DatabaseService, useValue: db },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        EntitlementsCacheService,
+      ],
+    }).compile();
+
+    service = module.get<SubscriptionTrialsService>(SubscriptionTrialsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('startTrial', () => {
+    it('should create a TRIALING subscription for the trial length', async () => {
+      await service.startTrial(dto);
+
+      expect(db.user.upsert).toHaveBeenCalledWith({
+        where: { email: 'trial@example.com' },
+        create: { email: 'trial@example.com' },
+        update: {},
+      });
+      expect(db.subscription.create).toHaveBeenCalledWith({
+        data: {
+          user_id: 'user-1',
+          plan_type: 'monthly',
+          status: 'TRIALING',
+          started_at: new Date('2026-03-01T00:00:00Z'),
+          expires_at: new Date('2026-03-15T00:00:00Z'),
+          is_lifetime: false,
+          billing_anchor_day: 15,
+          trial_started_at: new Date('2026-03-01T00:00:00Z'),
+          trial_ends_at: new Date('2026-03-15T00:00:00Z'),
+          trial_converted_at: null,
+        },
+      });
+      expect(db.subscriptionPeriod.create).toHaveBeenCalledWith({
+        data: {
+          subscription_id: 'sub-id',
+          user_id: 'user-1',
+          plan_type: 'monthly',
+          reason: 'GRANT',
+          payment_id: undefined,
+          starts_at: new Date('2026-03-01T00:00:00Z'),
+          ends_at: new Date('2026-03-15T00:00:00Z'),
+        },
+      });
+    });
+
+    it('should refuse a second trial of the same plan', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'EXPIRED',
+        trial_started_at: new Date('2025-01-01T00:00:00Z'),
+      });
+
+      await expect(service.startTrial(dto)).rejects.toThrow(ConflictException);
+      expect(db.subscription.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a trial to a current subscriber', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'ACTIVE',
+        is_lifetime: false,
+        expires_at: new Date('2026-04-01T00:00:00Z'),
+        trial_started_at: null,
+      });
+
+      await expect(service.startTrial(dto)).rejects.toThrow(ConflictException);
+    });
+
+    it.each([
+      [
+        'past due',
+        { status: 'PAST_DUE', expires_at: new Date('2026-02-01T00:00:00Z') },
+      ],
+      [
+        'paused',
+        { status: 'PAUSED', expires_at: new Date('2026-04-01T00:00:00Z') },
+      ],
+      [
+        'cancelled with time left',
+        { status: 'CANCELLED', expires_at: new Date('2026-04-01T00:00:00Z') },
+      ],
+    ])('should refuse a trial to a %s subscriber', async (_, subscription) => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        is_lifetime: false,
+        trial_started_at: null,
+        ...subscription,
+      });
+
+      await expect(service.startTrial(dto)).rejects.toThrow(
+        'is already subscribed',
+      );
+      expect(db.subscription.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should start the trial on a lapsed subscription that never had one', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'EXPIRED',
+        expires_at: new Date('2026-01-01T00:00:00Z'),
+        trial_started_at: null,
+      });
+
+      await service.startTrial(dto);
+
+      expect(db.subscription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-id', trial_started_at: null },
+        data: expect.objectContaining({ status: 'TRIALING' }),
+      });
+    });
+
+    it('should lose the race against a concurrent trial start', async () => {
+      db.subscription.create.mockRejectedValue({ code: 'P2002' });
+
+      await expect(service.startTrial(dto)).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject a plan without a trial', async () => {
+      db.plan.findUnique.mockResolvedValue({ ...monthlyPlan, trial_days: 0 });
+
+      await expect(service.startTrial(dto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(db.user.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown plan', async () => {
+      db.plan.findUnique.mockResolvedValue(null);
+
+      await expect(service.startTrial(dto)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getTrialStats', () => {
+    it('should compute conversion over finished trials per plan', async () => {
+      db.subscription.groupBy
+        .mockResolvedValueOnce([
+          { plan_type: 'yearly', _count: { _all: 4 } },
+          { plan_type: 'monthly', _count: { _all: 10 } },
+        ])
+        .mockResolvedValueOnce([{ plan_type: 'monthly', _count: { _all: 3 } }])
+        .mockResolvedValueOnce([
+          { plan_type: 'monthly', _count: { _all: 4 } },
+          { plan_type: 'yearly', _count: { _all: 4 } },
+        ]);
+
+      const stats = await service.getTrialStats({
+        from: '2026-02-01T00:00:00Z',
+      });
+
+      expect(stats).toEqual([
+        {
+          planCode: 'monthly',
+          started: 10,
+          converted: 3,
+          inTrial: 4,
+          lapsed: 3,
+          conversionRate: 0.5,
+        },
+        {
+          planCode: 'yearly',
+          started: 4,
+          converted: 0,
+          inTrial: 4,
+          lapsed: 0,
+          conversionRate: null,
+        },
+      ]);
+      expect(db.subscription.groupBy.mock.calls[0][0].where).toEqual({
+        trial_started_at: {
+          not: null,
+          gte: new Date('2026-02-01T00:00:00Z'),
+        },
+      });
+    });
+  });
+});
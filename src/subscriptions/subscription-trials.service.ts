@@ -0,0 +1,245 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import {
+  BillingInterval,
+  Prisma,
+  SubscriptionPeriodReason,
+  SubscriptionStatus,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { PlansService } from '../plans/plans.service';
+import { addBillingPeriod, getBillingAnchorDay } from './billing-period';
+import { StartTrialDto } from './dto/start-trial.dto';
+import { TrialStatsQueryDto } from './dto/trial-stats.query.dto';
+import { ITrialStats } from './interfaces/subscription.interface';
+import { recordSubscriptionPeriod } from './subscription-periods';
+import { EntitlementsCacheService } from '../entitlements/entitlements-cache.service';
+
+// Subscription rows that may take a trial once their time has run out
+const LAPSED_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.EXPIRED,
+  SubscriptionStatus.CANCELLED,
+];
+
+/**
+ * Subscription Trials Service - free trials without a payment
+ *
+ * A trial is a TRIALING subscription whose expires_at is the end of the
+ * trial (trial_ends_at), so access checks treat it like any other period.
+ * The first successful payment converts it to ACTIVE with the paid time
+ * starting when the trial ends (see
+ * SubscriptionsService.activateOrExtendSubscription).
+ *
+ * CRITICAL: One trial per user and plan - trial_started_at is set once and
+ * never cleared, so a user can't get a second trial by letting the first
+ * one lapse, cancelling or paying in between.
+ */
+@Injectable()
+export class SubscriptionTrialsService {
+  private readonly logger = new Logger(SubscriptionTrialsService.name);
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly plansService: PlansService,
+    private readonly entitlementsCache: EntitlementsCacheService,
+  ) {}
+
+  /**
+   * Start a free trial of a plan
+   *
+   * - Plan must be on sale and have trial_days > 0 (else 400)
+   * - User already had a trial of the plan, or has a subscription to it
+   *   that hasn't lapsed - active, past due, paused or with time left
+   *   (else 409)
+   * - User is found by email or created, like in payment webhooks
+   *
+   * EDGE CASE: Former subscriber (expired/cancelled) who never trialled -
+   * gets the trial on their existing subscription row
+   */
+  async startTrial(dto: StartTrialDto) {
+    const plan = await this.plansService.getPlan(dto.planCode);
+
+    if (!plan.active) {
+      throw new BadRequestException(`Plan ${plan.code} is not on sale`);
+    }
+    if (plan.trial_days <= 0) {
+      throw new BadRequestException(`Plan ${plan.code} has no free trial`);
+    }
+
+    const user = await this.db.user.upsert({
+      where: { email: dto.email },
+      create: { email: dto.email },
+      update: {},
+    });
+
+    const existing = await this.db.subscription.findUnique({
+      where: {
+        user_id_plan_type: { user_id: user.id, plan_type: plan.code },
+      },
+    });
+
+    if (existing?.trial_started_at) {
+      throw new ConflictException(
+        `User ${user.id} already had a trial of ${plan.code}`,
+      );
+    }
+
+    const now = new Date();
+
+    if (
+      existing &&
+      (!LAPSED_STATUSES.includes(existing.status) ||
+        existing.is_lifetime ||
+        (existing.expires_at && existing.expires_at > now))
+    ) {
+      throw new ConflictException(
+        `User ${user.id} is already subscribed to ${plan.code}`,
+      );
+    }
+
+    const trialEndsAt = addBillingPeriod(now, {
+      interval: BillingInterval.DAY,
+      count: plan.trial_days,
+    });
+    const trial = {
+      status: SubscriptionStatus.TRIALING,
+      started_at: now,
+      expires_at: trialEndsAt,
+      is_lifetime: false,
+      billing_anchor_day: getBillingAnchorDay(trialEndsAt),
+      trial_started_at: now,
+      trial_ends_at: trialEndsAt,
+      trial_converted_at: null,
+    };
+
+    const subscriptionId = await this.db.$transaction(async (tx) => {
+      let id: string;
+
+      if (existing) {
+        // CRITICAL: Guarded update - a concurrent request may have started
+        // the trial since we read the row
+        const { count } = await tx.subscription.updateMany({
+          where: { id: existing.id, trial_started_at: null },
+          data: trial,
+        });
+        if (count === 0) {
+          throw new ConflictException(
+            `User ${user.id} already had a trial of ${plan.code}`,
+          );
+        }
+        id = existing.id;
+      } else {
+        try {
+          const created = await tx.subscription.create({
+            data: { user_id: user.id, plan_type: plan.code, ...trial },
+          });
+          id = created.id;
+        } catch (error: unknown) {
+          // Concurrent request created the row first
+          if (this.isUniqueConstraintError(error)) {
+            throw new ConflictException(
+              `User ${user.id} already had a trial of ${plan.code}`,
+            );
+          }
+          throw error;
+        }
+      }
+
+      await recordSubscriptionPeriod(
+        tx,
+        { id, user_id: user.id, plan_type: plan.code },
+        {
+          reason: SubscriptionPeriodReason.GRANT,
+          startsAt: now,
+          endsAt: trialEndsAt,
+        },
+      );
+
+      return id;
+    });
+
+    this.entitlementsCache.invalidate(user.id);
+
+    this.logger.log(
+      `Trial of ${plan.code} started for user ${user.id}, ends ${trialEndsAt.toISOString()}`,
+    );
+
+    return this.db.subscription.findUnique({ where: { id: subscriptionId } });
+  }
+
+  /**
+   * Trial conversion per plan, for trials started in the given window
+   *
+   * conversionRate only counts finished trials (converted or lapsed), so
+   * trials still running don't drag it down
+   */
+  async getTrialStats(query: TrialStatsQueryDto = {}): Promise<ITrialStats[]> {
+    const now = new Date();
+    const where = this.buildTrialWhere(query);
+
+    const [started, converted, inTrial] = await Promise.all([
+      this.countByPlan(where),
+      this.countByPlan({ ...where, trial_converted_at: { not: null } }),
+      this.countByPlan({
+        ...where,
+        trial_converted_at: null,
+        trial_ends_at: { gt: now },
+      }),
+    ]);
+
+    return [...started.keys()].sort().map((planCode) => {
+      const startedCount = started.get(planCode) ?? 0;
+      const convertedCount = converted.get(planCode) ?? 0;
+      const inTrialCount = inTrial.get(planCode) ?? 0;
+      const lapsed = startedCount - convertedCount - inTrialCount;
+      const finished = convertedCount + lapsed;
+
+      return {
+        planCode,
+        started: startedCount,
+        converted: convertedCount,
+        inTrial: inTrialCount,
+        lapsed,
+        conversionRate: finished > 0 ? convertedCount / finished : null,
+      };
+    });
+  }
+
+  private buildTrialWhere(
+    query: TrialStatsQueryDto,
+  ): Prisma.SubscriptionWhereInput {
+    return {
+      ...(query.planCode && { plan_type: query.planCode }),
+      trial_started_at: {
+        not: null,
+        ...(query.from && { gte: new Date(query.from) }),
+        ...(query.to && { lte: new Date(query.to) }),
+      },
+    };
+  }
+
+  private async countByPlan(
+    where: Prisma.SubscriptionWhereInput,
+  ): Promise<Map<string, number>> {
+    const groups = await this.db.subscription.groupBy({
+      by: ['plan_type'],
+      where,
+      _count: { _all: true },
+    });
+
+    return new Map(groups.map((g) => [g.plan_type, g._count._all]));
+  }
+
+  private isUniqueConstraintError(error: unknown): boolean {
+    return (
+      !!error &&
+      typeof error === 'object' &&
+      'code' in error &&
+      error.code === 'P2002'
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { SubscriptionsService } from './subscriptions.service';
+import { SubscriptionTrialsService } from './subscription-trials.service';
+import { StartTrialDto } from './dto/start-trial.dto';
+import { TrialStatsQueryDto } from './dto/trial-stats.query.dto';
+import { CancelSubscriptionDto } from './dto/cancel-subscription.dto';
+import { PauseSubscriptionDto } from './dto/pause-subscription.dto';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+import { CurrentAdmin } from '../common/decorators/current-admin.decorator';
+import type { IAdminIdentity } from '../common/interfaces/admin.interface';
+
+/**
+ * Subscriptions Admin Controller
+ *
+ * Subscription operations that don't come from a payment (trials,
+ * cancellations, pauses, ...)
+ *
+ * Security: Every route requires an admin API key (see AdminApiKeyGuard)
+ */
+@Controller('admin/subscriptions')
+@UseGuards(AdminApiKeyGuard)
+export class SubscriptionsController {
+  constructor(
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly trialsService: SubscriptionTrialsService,
+  ) {}
+
+  /**
+   * POST /admin/subscriptions/trials
+   *
+   * 400 if the plan has no trial, 409 if the user already had one
+   */
+  @Post('trials')
+  async startTrial(@Body() body: StartTrialDto) {
+    return this.trialsService.startTrial(body);
+  }
+
+  /**
+   * GET /admin/subscriptions/trials/stats?planCode=monthly&from=...&to=...
+   */
+  @Get('trials/stats')
+  async getTrialStats(@Query() query: TrialStatsQueryDto) {
+    return this.trialsService.getTrialStats(query);
+  }
+
+  /**
+   * GET /admin/subscriptions/users/:userId/timeline
+   *
+   * Every subscription period of the user with the payment behind it,
+   * oldest first - 404 for an unknown user
+   */
+  @Get('users/:userId/timeline')
+  async getUserTimeline(@Param('userId', ParseUUIDPipe) userId: string) {
+    return this.subscriptionsService.getUserTimeline(userId);
+  }
+
+  /**
+   * POST /admin/subscriptions/:id/cancel
+   *
+   * `{ "mode": "AT_PERIOD_END" }` or
+   * `{ "mode": "IMMEDIATE", "refund": true }` - returns the subscription
+   * with the recorded refund (or null)
+   *
+   * 404 for an unknown id, 400 if it can't be cancelled that way
+   */
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancelSubscription(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: CancelSubscriptionDto,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.subscriptionsService.cancelSubscription(id, {
+      mode: body.mode,
+      reason: body.reason,
+      refund: body.refund,
+      requestedBy: admin.id,
+    });
+  }
+
+  /**
+   * POST /admin/subscriptions/:id/reactivate
+   *
+   * 400 if there is no cancellation to undo (or no time left)
+   */
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  async reactivateSubscription(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.subscriptionsService.reactivateSubscription(id, admin.id);
+  }
+
+  /**
+   * POST /admin/subscriptions/:id/pause
+   *
+   * `{ "resumeAt": "2026-06-01T00:00:00Z", "reason": "Travelling" }` -
+   * returns the subscription with the recorded pause
+   *
+   * 404 for an unknown id, 400 if it can't be paused (or resumeAt is past
+   * the plan's max_pause_days), 409 if it changed meanwhile
+   */
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  async pauseSubscription(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: PauseSubscriptionDto,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.subscriptionsService.pauseSubscription(id, {
+      resumeAt: body.resumeAt ? new Date(body.resumeAt) : undefined,
+      reason: body.reason,
+      requestedBy: admin.id,
+    });
+  }
+
+  /**
+   * POST /admin/subscriptions/:id/resume
+   *
+   * 400 if it isn't paused, 409 if it was resumed meanwhile
+   */
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  async resumeSubscription(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.subscriptionsService.resumeSubscription(id, admin.id);
+  }
+
+  /**
+   * GET /admin/subscriptions/:id/pauses
+   *
+   * Every pause interval of the subscription, newest first
+   */
+  @Get(':id/pauses')
+  async getSubscriptionPauses(@Param('id', ParseUUIDPipe) id: string) {
+    return this.subscriptionsService.getSubscriptionPauses(id);
+  }
+}
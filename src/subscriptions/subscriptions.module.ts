@@ -1,8 +1,26 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { SubscriptionsService } from './subscriptions.service';
+import { SubscriptionTrialsService } from './subscription-trials.service';
+import { SubscriptionExpiryService } from './subscription-expiry.service';
+import { SubscriptionDunningService } from './subscription-dunning.service';
+import { SubscriptionsController } from './subscriptions.controller';
+import { PlansModule } from '../plans/plans.module';
+import { EntitlementsCacheModule } from '../entitlements/entitlements-cache.module';
 
 @Module({
-  providers: [SubscriptionsService],
-  exports: [SubscriptionsService],
+  imports: [ConfigModule, PlansModule, EntitlementsCacheModule],
+  controllers: [SubscriptionsController],
+  providers: [
+    SubscriptionsService,
+    SubscriptionTrialsService,
+    SubscriptionExpiryService,
+    SubscriptionDunningService,
+  ],
+  exports: [
+    SubscriptionsService,
+    SubscriptionTrialsService,
+    SubscriptionDunningService,
+  ],
 })
 export class SubscriptionsModule {}
@@ -1,30 +1,102 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EntitlementsCacheService } from '../entitlements/entitlements-cache.service';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { SubscriptionsService } from './subscriptions.service';
 import { DatabaseService } from '../database/database.service';
+import { PlansService } from '../plans/plans.service';
+import { IBillingPeriod } from './billing-period';
 
 describe('SubscriptionsService', () => {
   let service: SubscriptionsService;
   let db: jest.Mocked<any>;
+  let entitlementsCache: EntitlementsCacheService;
+
+  const thirtyDays: IBillingPeriod = { interval: 'DAY', count: 30 };
+  const oneMonth: IBillingPeriod = { interval: 'MONTH', count: 1 };
+  const oneYear: IBillingPeriod = { interval: 'YEAR', count: 1 };
+
+  const planCatalog: Record<string, unknown> = {
+    monthly: {
+      code: 'monthly',
+      billing_interval: 'MONTH',
+      interval_count: 1,
+      max_pause_days: 0,
+      prices: [{ currency: 'USD', amount: 1000 }],
+    },
+    yearly: {
+      code: 'yearly',
+      billing_interval: 'YEAR',
+      interval_count: 1,
+      max_pause_days: 60,
+      prices: [{ currency: 'USD', amount: 10000 }],
+    },
+  };
 
   beforeEach(async () => {
-    const mockDb = {
+    const mockDb: any = {
       subscription: {
+        findFirst: jest.fn().mockResolvedValue(null),
         findUnique: jest.fn(),
-        findMany: jest.fn(),
-        upsert: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
         update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      subscriptionPlanChange: {
+        create: jest.fn(),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      subscriptionEvent: { create: jest.fn() },
+      subscriptionPeriod: {
+        create: jest.fn(),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn(),
+      },
+      subscriptionRefund: {
+        create: jest.fn((args: any) =>
+          Promise.resolve({ id: 'refund-id', ...args.data }),
+        ),
+      },
+      subscriptionPause: {
+        create: jest.fn((args: any) =>
+          Promise.resolve({ id: 'pause-id', ...args.data }),
+        ),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      payment: { findFirst: jest.fn().mockResolvedValue(null) },
+      user: { findUnique: jest.fn() },
+      plan: {
+        findUnique: jest.fn(({ where }: any) =>
+          Promise.resolve(planCatalog[where.code] ?? null),
+        ),
       },
+      $transaction: jest.fn((fn: any) => fn(mockDb)),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         SubscriptionsService,
+        PlansService,
         { provide: DatabaseService, useValue: mockDb },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        EntitlementsCacheService,
       ],
     }).compile();
 
     service = module.get<SubscriptionsService>(SubscriptionsService);
     db = module.get(DatabaseService);
+    entitlementsCache = module.get(EntitlementsCacheService);
   });
 
   it('should be defined', () => {
@@ -46,7 +118,7 @@ describe('SubscriptionsService', () => {
       const result = await service.activateOrExtendSubscription(
         'user-1',
         'monthly',
-        30,
+        thirtyDays,
       );
 
       expect(result.status).toBe('ACTIVE');
@@ -79,7 +151,7 @@ describe('SubscriptionsService', () => {
       const result = await service.activateOrExtendSubscription(
         'user-1',
         'monthly',
-        30,
+        thirtyDays,
       );
 
       // Should extend from futureExpiry (15 days) + 30 days = ~45 days from now
@@ -109,7 +181,7 @@ describe('SubscriptionsService', () => {
       const result = await service.activateOrExtendSubscription(
         'user-1',
         'monthly',
-        30,
+        thirtyDays,
       );
 
       // Should start from now, not from the expired date
@@ -125,7 +197,10 @@ describe('SubscriptionsService', () => {
       db.subscription.findUnique.mockResolvedValue(null);
       db.subscription.upsert.mockResolvedValue({ id: 'sub-id' });
 
-      await service.activateOrExtendSubscription('user-1', 'yearly', 365);
+      await service.activateOrExtendSubscription('user-1', 'yearly', {
+        interval: 'YEAR',
+        count: 1,
+      });
 
       expect(db.subscription.upsert).toHaveBeenCalledTimes(1);
       const upsertCall = db.subscription.upsert.mock.calls[0][0];
@@ -133,6 +208,741 @@ describe('SubscriptionsService', () => {
       expect(upsertCall.update).toBeDefined();
       expect(upsertCall.create.status).toBe('ACTIVE');
     });
+
+    it('should read and write through the given transaction client', async () => {
+      const tx = {
+        subscription: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        },
+        subscriptionPeriod: { create: jest.fn() },
+      };
+
+      await service.activateOrExtendSubscription(
+        'user-1',
+        'monthly',
+        thirtyDays,
+        tx as any,
+      );
+
+      expect(tx.subscription.findUnique).toHaveBeenCalledTimes(1);
+      expect(tx.subscription.upsert).toHaveBeenCalledTimes(1);
+      expect(tx.subscriptionPeriod.create).toHaveBeenCalledTimes(1);
+      expect(db.subscription.findUnique).not.toHaveBeenCalled();
+      expect(db.subscription.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('billing anchor', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-01-31T10:00:00Z') });
+      db.subscription.upsert.mockResolvedValue({ id: 'sub-id' });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should clamp to the end of a shorter month and store the anchor day', async () => {
+      db.subscription.findUnique.mockResolvedValue(null);
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      const { create } = db.subscription.upsert.mock.calls[0][0];
+      expect(create.expires_at).toEqual(new Date('2026-02-28T10:00:00Z'));
+      expect(create.billing_anchor_day).toBe(31);
+    });
+
+    it('should return to the anchor day after a clamped month', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'ACTIVE',
+        expires_at: new Date('2026-02-28T10:00:00Z'),
+        billing_anchor_day: 31,
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      const { update } = db.subscription.upsert.mock.calls[0][0];
+      expect(update.expires_at).toEqual(new Date('2026-03-31T10:00:00Z'));
+      expect(update.billing_anchor_day).toBe(31);
+    });
+
+    it('should move the anchor with a day-based period', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'ACTIVE',
+        expires_at: new Date('2026-02-28T10:00:00Z'),
+        billing_anchor_day: 31,
+      });
+
+      await service.activateOrExtendSubscription(
+        'user-1',
+        'monthly',
+        thirtyDays,
+      );
+
+      const { update } = db.subscription.upsert.mock.calls[0][0];
+      expect(update.expires_at).toEqual(new Date('2026-03-30T10:00:00Z'));
+      expect(update.billing_anchor_day).toBe(30);
+    });
+
+    it('should fall back to the expiry day for subscriptions without an anchor', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'ACTIVE',
+        expires_at: new Date('2026-02-15T10:00:00Z'),
+        billing_anchor_day: null,
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      const { update } = db.subscription.upsert.mock.calls[0][0];
+      expect(update.expires_at).toEqual(new Date('2026-03-15T10:00:00Z'));
+      expect(update.billing_anchor_day).toBe(15);
+    });
+  });
+
+  describe('lifetime subscriptions', () => {
+    const lifetime: IBillingPeriod = { interval: 'LIFETIME', count: 1 };
+
+    it('should activate lifetime access without an expiry date', async () => {
+      db.subscription.findUnique.mockResolvedValue(null);
+      db.subscription.upsert.mockResolvedValue({ id: 'sub-id' });
+
+      await service.activateOrExtendSubscription(
+        'user-1',
+        'lifetime',
+        lifetime,
+      );
+
+      const { create, update } = db.subscription.upsert.mock.calls[0][0];
+      expect(create).toMatchObject({
+        status: 'ACTIVE',
+        is_lifetime: true,
+        expires_at: null,
+      });
+      expect(update).toMatchObject({
+        is_lifetime: true,
+        expires_at: null,
+        billing_anchor_day: null,
+      });
+    });
+
+    it('should not change a lifetime subscription bought again', async () => {
+      const existing = {
+        id: 'sub-id',
+        status: 'ACTIVE',
+        is_lifetime: true,
+        expires_at: null,
+      };
+      db.subscription.findUnique.mockResolvedValue(existing);
+
+      const result = await service.activateOrExtendSubscription(
+        'user-1',
+        'lifetime',
+        lifetime,
+      );
+
+      expect(result).toBe(existing);
+      expect(db.subscription.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should not extend a lifetime subscription by a recurring period', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'ACTIVE',
+        is_lifetime: true,
+        expires_at: null,
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      expect(db.subscription.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the recurring subscriptions lifetime access supersedes', async () => {
+      jest.useFakeTimers({ now: new Date('2026-03-10T00:00:00Z') });
+      const now = new Date('2026-03-10T00:00:00Z');
+      db.subscription.findUnique.mockResolvedValue(null);
+      db.subscription.upsert.mockResolvedValue({ id: 'sub-id' });
+      db.subscription.findMany.mockResolvedValue([
+        { id: 'sub-monthly', user_id: 'user-1', status: 'PAST_DUE' },
+        { id: 'sub-addon', user_id: 'user-1', status: 'PAUSED' },
+      ]);
+
+      await service.activateOrExtendSubscription(
+        'user-1',
+        'lifetime',
+        lifetime,
+      );
+
+      expect(db.subscription.findMany).toHaveBeenCalledWith({
+        where: {
+          user_id: 'user-1',
+          plan_type: { not: 'lifetime' },
+          status: { in: ['ACTIVE', 'TRIALING', 'PAST_DUE', 'PAUSED'] },
+          is_lifetime: false,
+        },
+      });
+      // Expired now, like an immediate cancel - nothing to reactivate
+      expect(db.subscription.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['sub-monthly', 'sub-addon'] } },
+        data: expect.objectContaining({
+          status: 'CANCELLED',
+          expires_at: now,
+          cancelled_at: now,
+          cancellation_mode: 'IMMEDIATE',
+          cancel_at_period_end: false,
+          grace_ends_at: null,
+        }),
+      });
+      expect(db.subscriptionPause.updateMany).toHaveBeenCalledWith({
+        where: {
+          subscription_id: { in: ['sub-monthly', 'sub-addon'] },
+          ended_at: null,
+        },
+        data: { ended_at: now },
+      });
+      expect(db.subscriptionPlanChange.updateMany).toHaveBeenCalledWith({
+        where: {
+          from_subscription_id: { in: ['sub-monthly', 'sub-addon'] },
+          status: 'SCHEDULED',
+        },
+        data: { status: 'CANCELLED' },
+      });
+      expect(db.subscriptionEvent.create).toHaveBeenCalledTimes(2);
+
+      jest.useRealTimers();
+    });
+
+    it('should count an ACTIVE lifetime subscription as active', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'ACTIVE',
+        is_lifetime: true,
+        expires_at: null,
+        user: {},
+      });
+
+      expect(await service.isSubscriptionActive('user-1', 'lifetime')).toBe(
+        true,
+      );
+    });
+
+    it('should include lifetime subscriptions in the active list', async () => {
+      db.subscription.findMany.mockResolvedValue([]);
+
+      await service.getUserActiveSubscriptions('user-1');
+
+      expect(db.subscription.findMany).toHaveBeenCalledWith({
+        where: {
+          user_id: 'user-1',
+          OR: [
+            {
+              status: { in: ['ACTIVE', 'TRIALING'] },
+              OR: [
+                { is_lifetime: true },
+                { expires_at: { gt: expect.any(Date) } },
+              ],
+            },
+            { status: 'PAST_DUE', grace_ends_at: { gt: expect.any(Date) } },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('trial conversion', () => {
+    const trial = {
+      id: 'sub-id',
+      user_id: 'user-1',
+      plan_type: 'monthly',
+      status: 'TRIALING',
+      is_lifetime: false,
+      expires_at: new Date('2026-03-15T00:00:00Z'),
+      billing_anchor_day: 15,
+      trial_started_at: new Date('2026-03-01T00:00:00Z'),
+      trial_ends_at: new Date('2026-03-15T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-03-10T00:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should start paid time when the trial ends', async () => {
+      db.subscription.findUnique.mockResolvedValue(trial);
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      expect(db.subscription.upsert.mock.calls[0][0].update).toEqual({
+        status: 'ACTIVE',
+        expires_at: new Date('2026-04-15T00:00:00Z'),
+        billing_anchor_day: 15,
+        trial_converted_at: new Date('2026-03-10T00:00:00Z'),
+        updated_at: new Date('2026-03-10T00:00:00Z'),
+      });
+    });
+
+    it('should start paid time now when the trial already lapsed', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...trial,
+        expires_at: new Date('2026-03-05T00:00:00Z'),
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      const { update } = db.subscription.upsert.mock.calls[0][0];
+      expect(update.expires_at).toEqual(new Date('2026-04-10T00:00:00Z'));
+      expect(update.trial_converted_at).toEqual(
+        new Date('2026-03-10T00:00:00Z'),
+      );
+    });
+
+    it('should convert a trial the expiry job already expired', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...trial,
+        status: 'EXPIRED',
+        expires_at: new Date('2026-03-05T00:00:00Z'),
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      const { update } = db.subscription.upsert.mock.calls[0][0];
+      expect(update.status).toBe('ACTIVE');
+      expect(update.trial_converted_at).toEqual(
+        new Date('2026-03-10T00:00:00Z'),
+      );
+    });
+
+    it('should not mark a renewal of a paid subscription as a conversion', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...trial,
+        status: 'ACTIVE',
+        expires_at: new Date('2026-04-15T00:00:00Z'),
+        trial_converted_at: new Date('2026-03-10T00:00:00Z'),
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      expect(
+        db.subscription.upsert.mock.calls[0][0].update.trial_converted_at,
+      ).toBeUndefined();
+    });
+
+    it('should grant access during the trial', async () => {
+      db.subscription.findUnique.mockResolvedValue(trial);
+
+      expect(await service.isSubscriptionActive('user-1', 'monthly')).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('past due recovery', () => {
+    const pastDue = {
+      id: 'sub-id',
+      user_id: 'user-1',
+      plan_type: 'monthly',
+      status: 'PAST_DUE',
+      is_lifetime: false,
+      expires_at: new Date('2026-03-01T00:00:00Z'),
+      billing_anchor_day: 1,
+      past_due_at: new Date('2026-03-01T00:00:00Z'),
+      grace_ends_at: new Date('2026-03-08T00:00:00Z'),
+      dunning_step: 1,
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-03-04T00:00:00Z') });
+      db.subscription.upsert.mockImplementation(async (args: any) => ({
+        ...pastDue,
+        ...args.update,
+      }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should reactivate from the end of the paid period during grace', async () => {
+      db.subscription.findUnique.mockResolvedValue(pastDue);
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      expect(db.subscription.upsert.mock.calls[0][0].update).toEqual({
+        status: 'ACTIVE',
+        expires_at: new Date('2026-04-01T00:00:00Z'),
+        billing_anchor_day: 1,
+        past_due_at: null,
+        grace_ends_at: null,
+        dunning_step: 0,
+        updated_at: new Date('2026-03-04T00:00:00Z'),
+      });
+      expect(db.subscriptionEvent.create.mock.calls[0][0].data).toMatchObject({
+        subscription_id: 'sub-id',
+        type: 'RECOVERED',
+        from_status: 'PAST_DUE',
+        to_status: 'ACTIVE',
+      });
+    });
+
+    it('should start from now once the grace period is over', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...pastDue,
+        grace_ends_at: new Date('2026-03-03T00:00:00Z'),
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      expect(db.subscription.upsert.mock.calls[0][0].update.expires_at).toEqual(
+        new Date('2026-04-04T00:00:00Z'),
+      );
+      expect(db.subscriptionEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should grant access until the grace period ends', async () => {
+      db.subscription.findUnique.mockResolvedValue(pastDue);
+      expect(await service.isSubscriptionActive('user-1', 'monthly')).toBe(
+        true,
+      );
+
+      jest.setSystemTime(new Date('2026-03-09T00:00:00Z'));
+      expect(await service.isSubscriptionActive('user-1', 'monthly')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('plan changes', () => {
+    const monthlySubscription = {
+      id: 'sub-monthly',
+      user_id: 'user-1',
+      plan_type: 'monthly',
+      status: 'ACTIVE',
+      is_lifetime: false,
+      expires_at: new Date('2026-03-16T00:00:00Z'),
+      billing_anchor_day: 16,
+    };
+    const yearlySubscription = {
+      id: 'sub-yearly',
+      user_id: 'user-1',
+      plan_type: 'yearly',
+      status: 'ACTIVE',
+      is_lifetime: false,
+      expires_at: new Date('2026-09-01T00:00:00Z'),
+      billing_anchor_day: 1,
+    };
+    const usd = { paymentId: 'pay-id', currency: 'USD' };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-03-01T00:00:00Z') });
+      db.subscription.upsert.mockImplementation(async (args: any) => ({
+        id: `sub-${args.where.user_id_plan_type.plan_type}`,
+        ...args.update,
+      }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should activate the plan when the user holds no other plan', async () => {
+      db.subscription.findUnique.mockResolvedValue(null);
+
+      await service.activatePurchasedPlan('user-1', 'yearly', oneYear, usd);
+
+      expect(db.subscription.findFirst).toHaveBeenCalledWith({
+        where: {
+          user_id: 'user-1',
+          plan_type: { not: 'yearly' },
+          status: 'ACTIVE',
+          is_lifetime: false,
+          expires_at: { gt: expect.any(Date) },
+        },
+        orderBy: { expires_at: 'desc' },
+      });
+      expect(db.subscription.upsert).toHaveBeenCalledTimes(1);
+      expect(db.subscriptionPlanChange.create).not.toHaveBeenCalled();
+    });
+
+    it('should upgrade immediately and credit the remaining time', async () => {
+      db.subscription.findFirst.mockResolvedValue(monthlySubscription);
+      db.subscriptionPeriod.findFirst.mockResolvedValue({
+        payment_id: 'pay-monthly',
+      });
+      db.subscription.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          id: 'sub-yearly',
+          status: 'ACTIVE',
+          expires_at: new Date('2027-03-01T00:00:00Z'),
+          billing_anchor_day: 1,
+        });
+
+      const result = await service.activatePurchasedPlan(
+        'user-1',
+        'yearly',
+        oneYear,
+        usd,
+      );
+
+      // Old plan closed out now
+      expect(db.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-monthly' },
+        data: expect.objectContaining({
+          status: 'CANCELLED',
+          expires_at: new Date('2026-03-01T00:00:00Z'),
+          cancelled_at: new Date('2026-03-01T00:00:00Z'),
+          cancellation_mode: 'IMMEDIATE',
+          cancellation_reason: 'Upgraded to yearly',
+        }),
+      });
+      // 15 days at $1000/30d are worth 18 days at $10000/365d
+      expect(result.expires_at).toEqual(new Date('2027-03-19T00:00:00Z'));
+      expect(db.subscriptionPlanChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          from_subscription_id: 'sub-monthly',
+          to_subscription_id: 'sub-yearly',
+          direction: 'UPGRADE',
+          status: 'APPLIED',
+          payment_id: 'pay-id',
+          credited_days: 18,
+        }),
+      });
+      // Credit comes from the payment behind the old plan's remaining time
+      expect(db.subscriptionPeriod.findFirst).toHaveBeenCalledWith({
+        where: {
+          subscription_id: 'sub-monthly',
+          payment_id: { not: null },
+          revoked_at: null,
+        },
+        orderBy: { starts_at: 'desc' },
+      });
+      // Paid year and credited days both recorded as the upgrade
+      expect(
+        db.subscriptionPeriod.create.mock.calls.map(([args]: any) => [
+          args.data.reason,
+          args.data.payment_id,
+        ]),
+      ).toEqual([
+        ['UPGRADE', 'pay-id'],
+        ['UPGRADE', 'pay-monthly'],
+      ]);
+    });
+
+    it('should schedule a downgrade for the end of the current period', async () => {
+      db.subscription.findFirst.mockResolvedValue(yearlySubscription);
+
+      const result = await service.activatePurchasedPlan(
+        'user-1',
+        'monthly',
+        oneMonth,
+        usd,
+      );
+
+      expect(result).toBe(yearlySubscription);
+      expect(db.subscription.upsert).not.toHaveBeenCalled();
+      expect(db.subscriptionPlanChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          from_subscription_id: 'sub-yearly',
+          to_plan: 'monthly',
+          direction: 'DOWNGRADE',
+          status: 'SCHEDULED',
+          period_interval: 'MONTH',
+          period_count: 1,
+          effective_at: new Date('2026-09-01T00:00:00Z'),
+        }),
+      });
+    });
+
+    it('should schedule one change per payment for a repeated downgrade', async () => {
+      db.subscription.findFirst.mockResolvedValue(yearlySubscription);
+
+      await service.activatePurchasedPlan('user-1', 'monthly', oneMonth, {
+        ...usd,
+        paymentId: 'pay-1',
+      });
+      await service.activatePurchasedPlan(
+        'user-1',
+        'monthly',
+        { interval: 'DAY', count: 20 },
+        { ...usd, paymentId: 'pay-2' },
+      );
+
+      // Units aren't mixed, and a refund finds its own change
+      const created = db.subscriptionPlanChange.create.mock.calls.map(
+        ([args]: any) => args.data,
+      );
+      expect(created).toEqual([
+        expect.objectContaining({
+          payment_id: 'pay-1',
+          period_interval: 'MONTH',
+          period_count: 1,
+        }),
+        expect.objectContaining({
+          payment_id: 'pay-2',
+          period_interval: 'DAY',
+          period_count: 20,
+        }),
+      ]);
+      expect(db.subscriptionPlanChange.update).not.toHaveBeenCalled();
+    });
+
+    describe('applyDuePlanChanges', () => {
+      const scheduledChange = {
+        id: 'change-id',
+        user_id: 'user-1',
+        from_plan: 'yearly',
+        to_plan: 'monthly',
+        status: 'SCHEDULED',
+        period_interval: 'MONTH',
+        period_count: 1,
+      };
+
+      beforeEach(() => {
+        db.subscriptionPlanChange.findMany.mockResolvedValue([scheduledChange]);
+        db.subscription.findUnique.mockResolvedValue(null);
+      });
+
+      it('should move the user to the new plan once the old period ended', async () => {
+        db.subscriptionPlanChange.findUnique.mockResolvedValue({
+          ...scheduledChange,
+          fromSubscription: {
+            ...yearlySubscription,
+            expires_at: new Date('2026-02-28T00:00:00Z'),
+          },
+        });
+
+        const applied = await service.applyDuePlanChanges();
+
+        expect(applied).toBe(1);
+        expect(db.subscription.update).toHaveBeenCalledWith({
+          where: { id: 'sub-yearly' },
+          data: { status: 'EXPIRED' },
+        });
+        expect(db.subscription.upsert.mock.calls[0][0].create).toMatchObject({
+          plan_type: 'monthly',
+          expires_at: new Date('2026-04-01T00:00:00Z'),
+        });
+        expect(db.subscriptionPlanChange.update).toHaveBeenCalledWith({
+          where: { id: 'change-id' },
+          data: { to_subscription_id: 'sub-monthly' },
+        });
+      });
+
+      it('should wait for the end of a renewed old period', async () => {
+        db.subscriptionPlanChange.findUnique.mockResolvedValue({
+          ...scheduledChange,
+          fromSubscription: yearlySubscription,
+        });
+
+        const applied = await service.applyDuePlanChanges();
+
+        expect(applied).toBe(0);
+        expect(db.subscriptionPlanChange.update).toHaveBeenCalledWith({
+          where: { id: 'change-id' },
+          data: { effective_at: new Date('2026-09-01T00:00:00Z') },
+        });
+        expect(db.subscription.upsert).not.toHaveBeenCalled();
+      });
+
+      it('should skip a change another instance already applied', async () => {
+        db.subscriptionPlanChange.findUnique.mockResolvedValue({
+          ...scheduledChange,
+          fromSubscription: { ...yearlySubscription, status: 'EXPIRED' },
+        });
+        db.subscriptionPlanChange.updateMany.mockResolvedValue({ count: 0 });
+
+        expect(await service.applyDuePlanChanges()).toBe(0);
+        expect(db.subscription.upsert).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('subscription history', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-03-10T00:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should record a renewal from the current expiry with its payment', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        user_id: 'user-1',
+        plan_type: 'monthly',
+        status: 'ACTIVE',
+        expires_at: new Date('2026-03-20T00:00:00Z'),
+        billing_anchor_day: 20,
+      });
+      db.subscription.upsert.mockResolvedValue({
+        id: 'sub-id',
+        user_id: 'user-1',
+        plan_type: 'monthly',
+      });
+
+      await service.activatePurchasedPlan('user-1', 'monthly', oneMonth, {
+        paymentId: 'pay-id',
+        currency: 'USD',
+      });
+
+      expect(db.subscriptionPeriod.create).toHaveBeenCalledWith({
+        data: {
+          subscription_id: 'sub-id',
+          user_id: 'user-1',
+          plan_type: 'monthly',
+          reason: 'RENEWAL',
+          payment_id: 'pay-id',
+          starts_at: new Date('2026-03-20T00:00:00Z'),
+          ends_at: new Date('2026-04-20T00:00:00Z'),
+        },
+      });
+    });
+
+    it('should record a new period when the subscription starts over', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        id: 'sub-id',
+        status: 'EXPIRED',
+        expires_at: new Date('2026-02-01T00:00:00Z'),
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      expect(db.subscriptionPeriod.create.mock.calls[0][0].data).toMatchObject({
+        reason: 'NEW',
+        starts_at: new Date('2026-03-10T00:00:00Z'),
+        ends_at: new Date('2026-04-10T00:00:00Z'),
+      });
+    });
+
+    it('should return the timeline of a user oldest first', async () => {
+      db.user.findUnique.mockResolvedValue({ id: 'user-1' });
+      db.subscriptionPeriod.findMany.mockResolvedValue([]);
+
+      await service.getUserTimeline('user-1');
+
+      expect(db.subscriptionPeriod.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { user_id: 'user-1' },
+          orderBy: [{ starts_at: 'asc' }, { created_at: 'asc' }],
+        }),
+      );
+    });
+
+    it('should throw NotFoundException for an unknown user', async () => {
+      db.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.getUserTimeline('user-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
   });
 
   describe('isSubscriptionActive', () => {
@@ -198,21 +1008,395 @@ describe('SubscriptionsService', () => {
   });
 
   describe('cancelSubscription', () => {
-    it('should set status to CANCELLED without deleting', async () => {
-      db.subscription.update.mockResolvedValue({
-        id: 'sub-id',
+    const subscription = {
+      id: 'sub-id',
+      user_id: 'user-1',
+      plan_type: 'monthly',
+      status: 'ACTIVE',
+      is_lifetime: false,
+      expires_at: new Date('2026-04-01T00:00:00Z'),
+      billing_anchor_day: 1,
+      cancel_at_period_end: false,
+    };
+    const byAdmin = { requestedBy: 'admin-1', reason: 'Too expensive' };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-03-16T00:00:00Z') });
+      db.subscription.findUnique.mockResolvedValue(subscription);
+      db.subscription.update.mockImplementation(async (args: any) => ({
+        ...subscription,
+        ...args.data,
+      }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should keep access until the period ends when cancelled at period end', async () => {
+      const result = await service.cancelSubscription('sub-id', {
+        mode: 'AT_PERIOD_END',
+        ...byAdmin,
+      });
+
+      expect(result.status).toBe('ACTIVE');
+      expect(result.refund).toBeNull();
+      expect(db.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-id' },
+        data: {
+          cancel_at_period_end: true,
+          cancelled_at: new Date('2026-03-16T00:00:00Z'),
+          cancellation_mode: 'AT_PERIOD_END',
+          cancellation_reason: 'Too expensive',
+        },
+      });
+      expect(db.subscriptionEvent.create.mock.calls[0][0].data).toMatchObject({
+        type: 'CANCELLATION_SCHEDULED',
+        metadata: { reason: 'Too expensive', requestedBy: 'admin-1' },
+      });
+    });
+
+    it('should clear the cached entitlements of the user', async () => {
+      const invalidate = jest.spyOn(entitlementsCache, 'invalidate');
+
+      await service.cancelSubscription('sub-id', {
+        mode: 'IMMEDIATE',
+        ...byAdmin,
+      });
+
+      expect(invalidate).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should end access now and record a prorated refund', async () => {
+      db.payment.findFirst.mockResolvedValue({
+        id: 'pay-id',
+        amount: 1000,
+        currency: 'USD',
+      });
+
+      const result = await service.cancelSubscription('sub-id', {
+        mode: 'IMMEDIATE',
+        refund: true,
+        ...byAdmin,
+      });
+
+      expect(result).toMatchObject({
         status: 'CANCELLED',
-        expires_at: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000),
+        expires_at: new Date('2026-03-16T00:00:00Z'),
+        cancellation_mode: 'IMMEDIATE',
+      });
+      // 16 of the 31 days of March left
+      expect(db.subscriptionRefund.create).toHaveBeenCalledWith({
+        data: {
+          subscription_id: 'sub-id',
+          user_id: 'user-1',
+          payment_id: 'pay-id',
+          amount: 516,
+          currency: 'USD',
+          unused_days: 16,
+          reason: 'Too expensive',
+          requested_by: 'admin-1',
+        },
+      });
+      expect(db.subscriptionPlanChange.updateMany).toHaveBeenCalledWith({
+        where: { from_subscription_id: 'sub-id', status: 'SCHEDULED' },
+        data: { status: 'CANCELLED' },
+      });
+      expect(db.subscriptionEvent.create.mock.calls[0][0].data).toMatchObject({
+        type: 'CANCELLED',
+        from_status: 'ACTIVE',
+        to_status: 'CANCELLED',
+        metadata: { refundId: 'refund-id' },
+      });
+    });
+
+    it('should refuse a refund without a completed payment', async () => {
+      await expect(
+        service.cancelSubscription('sub-id', {
+          mode: 'IMMEDIATE',
+          refund: true,
+          ...byAdmin,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(db.subscription.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a refund when cancelling at period end', async () => {
+      await expect(
+        service.cancelSubscription('sub-id', {
+          mode: 'AT_PERIOD_END',
+          refund: true,
+          ...byAdmin,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse to cancel an expired subscription', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...subscription,
+        status: 'EXPIRED',
       });
 
-      const result = await service.cancelSubscription('user-1', 'monthly');
+      await expect(
+        service.cancelSubscription('sub-id', {
+          mode: 'IMMEDIATE',
+          ...byAdmin,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
 
-      expect(result.status).toBe('CANCELLED');
-      expect(db.subscription.update).toHaveBeenCalledWith({
+    it('should throw NotFoundException for an unknown subscription', async () => {
+      db.subscription.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.cancelSubscription('missing', {
+          mode: 'IMMEDIATE',
+          ...byAdmin,
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should be undone when the user pays again', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...subscription,
+        cancel_at_period_end: true,
+        cancelled_at: new Date('2026-03-06T00:00:00Z'),
+      });
+
+      await service.activateOrExtendSubscription('user-1', 'monthly', oneMonth);
+
+      expect(db.subscription.upsert.mock.calls[0][0].update).toMatchObject({
+        expires_at: new Date('2026-05-01T00:00:00Z'),
+        cancel_at_period_end: false,
+        cancelled_at: null,
+        cancellation_mode: null,
+        cancellation_reason: null,
+      });
+    });
+
+    describe('reactivateSubscription', () => {
+      it('should resume renewal of a subscription cancelled at period end', async () => {
+        db.subscription.findUnique.mockResolvedValue({
+          ...subscription,
+          cancel_at_period_end: true,
+        });
+
+        await service.reactivateSubscription('sub-id', 'admin-1');
+
+        expect(db.subscription.update).toHaveBeenCalledWith({
+          where: { id: 'sub-id' },
+          data: {
+            status: 'ACTIVE',
+            cancel_at_period_end: false,
+            cancelled_at: null,
+            cancellation_mode: null,
+            cancellation_reason: null,
+          },
+        });
+        expect(db.subscriptionEvent.create.mock.calls[0][0].data).toMatchObject(
+          { type: 'REACTIVATED', to_status: 'ACTIVE' },
+        );
+      });
+
+      it('should reactivate a cancelled subscription with time left', async () => {
+        db.subscription.findUnique.mockResolvedValue({
+          ...subscription,
+          status: 'CANCELLED',
+        });
+
+        const result = await service.reactivateSubscription(
+          'sub-id',
+          'admin-1',
+        );
+
+        expect(result.status).toBe('ACTIVE');
+      });
+
+      it('should refuse once the subscription ran out', async () => {
+        db.subscription.findUnique.mockResolvedValue({
+          ...subscription,
+          status: 'CANCELLED',
+          expires_at: new Date('2026-03-10T00:00:00Z'),
+        });
+
+        await expect(
+          service.reactivateSubscription('sub-id', 'admin-1'),
+        ).rejects.toThrow(BadRequestException);
+      });
+
+      it('should refuse an active subscription that is not cancelled', async () => {
+        await expect(
+          service.reactivateSubscription('sub-id', 'admin-1'),
+        ).rejects.toThrow(BadRequestException);
+      });
+    });
+  });
+
+  describe('pauseSubscription', () => {
+    const subscription = {
+      id: 'sub-id',
+      user_id: 'user-1',
+      plan_type: 'yearly',
+      status: 'ACTIVE',
+      is_lifetime: false,
+      expires_at: new Date('2026-12-01T00:00:00Z'),
+      billing_anchor_day: 1,
+      cancel_at_period_end: false,
+    };
+    const openPause = {
+      id: 'pause-id',
+      subscription_id: 'sub-id',
+      paused_at: new Date('2026-03-16T00:00:00Z'),
+      remaining_seconds: 260 * 24 * 60 * 60, // Mar 16 → Dec 1
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-03-16T00:00:00Z') });
+      db.subscription.findUnique.mockResolvedValue(subscription);
+      db.subscription.updateMany.mockResolvedValue({ count: 1 });
+      db.subscription.update.mockImplementation(async (args: any) => ({
+        ...subscription,
+        ...args.data,
+      }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should freeze the remaining time until the longest allowed pause', async () => {
+      await service.pauseSubscription('sub-id', {
+        reason: 'Travelling',
+        requestedBy: 'admin-1',
+      });
+
+      expect(db.subscription.updateMany).toHaveBeenCalledWith({
         where: {
-          user_id_plan_type: { user_id: 'user-1', plan_type: 'monthly' },
+          id: 'sub-id',
+          status: 'ACTIVE',
+          expires_at: new Date('2026-12-01T00:00:00Z'),
         },
-        data: { status: 'CANCELLED' },
+        data: {
+          status: 'PAUSED',
+          updated_at: new Date('2026-03-16T00:00:00Z'),
+        },
+      });
+      expect(db.subscriptionPause.create).toHaveBeenCalledWith({
+        data: {
+          subscription_id: 'sub-id',
+          user_id: 'user-1',
+          paused_at: new Date('2026-03-16T00:00:00Z'),
+          resume_at: new Date('2026-05-15T00:00:00Z'),
+          remaining_seconds: 260 * 24 * 60 * 60,
+          reason: 'Travelling',
+          paused_by: 'admin-1',
+        },
+      });
+      expect(db.subscriptionEvent.create.mock.calls[0][0].data).toMatchObject({
+        type: 'PAUSED',
+        to_status: 'PAUSED',
+      });
+    });
+
+    it('should refuse a resume date past the plan maximum', async () => {
+      await expect(
+        service.pauseSubscription('sub-id', {
+          resumeAt: new Date('2026-06-01T00:00:00Z'),
+          requestedBy: 'admin-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(db.subscription.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a plan that cannot be paused', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...subscription,
+        plan_type: 'monthly',
+      });
+
+      await expect(
+        service.pauseSubscription('sub-id', { requestedBy: 'admin-1' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should add the frozen time back from the resume date', async () => {
+      jest.setSystemTime(new Date('2026-05-01T00:00:00Z'));
+      db.subscription.findUnique.mockResolvedValue({
+        ...subscription,
+        status: 'PAUSED',
+      });
+      db.subscriptionPause.findFirst.mockResolvedValue(openPause);
+
+      const result = await service.resumeSubscription('sub-id', 'admin-1');
+
+      expect(db.subscriptionPause.updateMany).toHaveBeenCalledWith({
+        where: { id: 'pause-id', ended_at: null },
+        data: {
+          ended_at: new Date('2026-05-01T00:00:00Z'),
+          resumed_by: 'admin-1',
+        },
+      });
+      expect(result).toMatchObject({
+        status: 'ACTIVE',
+        expires_at: new Date('2027-01-16T00:00:00Z'),
+        billing_anchor_day: 16,
+      });
+      expect(db.subscriptionEvent.create.mock.calls[0][0].data).toMatchObject({
+        type: 'RESUMED',
+        metadata: { pauseId: 'pause-id', resumedBy: 'admin-1', pausedDays: 46 },
+      });
+    });
+
+    it('should not add the time twice when resumed concurrently', async () => {
+      db.subscription.findUnique.mockResolvedValue({
+        ...subscription,
+        status: 'PAUSED',
+      });
+      db.subscriptionPause.findFirst.mockResolvedValue(openPause);
+      db.subscriptionPause.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.resumeSubscription('sub-id', 'admin-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(db.subscription.update).not.toHaveBeenCalled();
+    });
+
+    it('should resume and extend when the user pays during the pause', async () => {
+      jest.setSystemTime(new Date('2026-05-01T00:00:00Z'));
+      db.subscription.findUnique.mockResolvedValue({
+        ...subscription,
+        status: 'PAUSED',
+      });
+      db.subscriptionPause.findFirst.mockResolvedValue(openPause);
+
+      await service.activateOrExtendSubscription('user-1', 'yearly', oneYear);
+
+      expect(db.subscriptionPause.updateMany.mock.calls[0][0].data).toEqual({
+        ended_at: new Date('2026-05-01T00:00:00Z'),
+        resumed_by: 'payment',
+      });
+      expect(db.subscription.upsert.mock.calls[0][0].update).toMatchObject({
+        status: 'ACTIVE',
+        expires_at: new Date('2028-01-16T00:00:00Z'),
+      });
+    });
+
+    it('should resume pauses whose resume date has passed', async () => {
+      db.subscriptionPause.findMany.mockResolvedValue([openPause]);
+      db.subscriptionPause.findFirst.mockResolvedValue(openPause);
+
+      const resumed = await service.resumeDuePauses(
+        new Date('2026-05-15T00:00:00Z'),
+      );
+
+      expect(resumed).toBe(1);
+      expect(db.subscriptionPause.findMany.mock.calls[0][0].where).toEqual({
+        ended_at: null,
+        resume_at: { lte: new Date('2026-05-15T00:00:00Z') },
+      });
+      expect(db.subscriptionPause.updateMany.mock.calls[0][0].data).toEqual({
+        ended_at: new Date('2026-05-15T00:00:00Z'),
+        resumed_by: 'schedule',
       });
     });
   });
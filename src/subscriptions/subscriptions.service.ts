@@ -1,6 +1,78 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { DatabaseService } from '../database/database.service';
-import { SubscriptionStatus } from '@prisma/client';
+import {
+  BillingInterval,
+  CancellationMode,
+  PaymentStatus,
+  PlanChangeDirection,
+  PlanChangeStatus,
+  Prisma,
+  Subscription,
+  SubscriptionEventType,
+  SubscriptionPeriodReason,
+  SubscriptionStatus,
+} from '@prisma/client';
+import { PlansService } from '../plans/plans.service';
+import { PlanWithPrices } from '../plans/interfaces/plan.interface';
+import {
+  addBillingPeriod,
+  getBillingAnchorDay,
+  IBillingPeriod,
+  isCalendarInterval,
+} from './billing-period';
+import {
+  ICancelSubscriptionOptions,
+  IPauseSubscriptionOptions,
+  IPlanPurchase,
+  ISubscriptionPeriodSource,
+} from './interfaces/subscription.interface';
+import { recordSubscriptionEvent } from './subscription-events';
+import { recordSubscriptionPeriod } from './subscription-periods';
+import { EntitlementsCacheService } from '../entitlements/entitlements-cache.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Max scheduled plan changes applied per cron run
+const PLAN_CHANGE_BATCH_SIZE = 100;
+
+// Max pauses resumed automatically per cron run
+const PAUSE_RESUME_BATCH_SIZE = 100;
+
+// Statuses that grant access until expires_at
+const ACCESS_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.TRIALING,
+];
+
+// Recurring subscriptions that still run - cancelled by a lifetime purchase
+const SUPERSEDED_BY_LIFETIME_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.TRIALING,
+  SubscriptionStatus.PAST_DUE,
+  SubscriptionStatus.PAUSED,
+];
+
+// Leaving PAST_DUE - dunning state no longer applies
+const CLEAR_DUNNING = {
+  past_due_at: null,
+  grace_ends_at: null,
+  dunning_step: 0,
+};
+
+// Cancellation undone (reactivated or paid for again)
+const CLEAR_CANCELLATION = {
+  cancel_at_period_end: false,
+  cancelled_at: null,
+  cancellation_mode: null,
+  cancellation_reason: null,
+};
 
 /**
  * Subscriptions Service
@@ -11,12 +83,84 @@ import { SubscriptionStatus } from '@prisma/client';
  * - New subscription: starts from now
  * - Active subscription: extends from current expiry (not from now!)
  * - Expired subscription: reactivates from now
+ *
+ * Periods are calendar units (see billing-period.ts): a monthly
+ * subscription bought on the 15th renews on the 15th. The day is stored as
+ * billing_anchor_day so end-of-month clamping (Jan 31 → Feb 28) doesn't
+ * stick for the rest of the subscription.
+ *
+ * Lifetime subscriptions (is_lifetime) have no expires_at - they are active
+ * for as long as their status is ACTIVE.
+ *
+ * Trials (TRIALING, see SubscriptionTrialsService) grant access until
+ * expires_at like ACTIVE ones; the first payment converts them.
+ *
+ * Failed renewals (PAST_DUE, see SubscriptionDunningService) grant access
+ * until grace_ends_at; expires_at stays the end of the paid period.
+ *
+ * Paused subscriptions (PAUSED, see pauseSubscription) grant no access; the
+ * paid time left is frozen on a SubscriptionPause and added back on resume.
+ *
+ * Plan changes: subscriptions are unique per (user, plan), so paying for a
+ * different plan while another one is active is a plan change, not a second
+ * subscription (see changePlan). Every change is recorded as a
+ * SubscriptionPlanChange linking the old and the new subscription.
+ *
+ * Every activation or extension is recorded as a SubscriptionPeriod (which
+ * payment paid for which stretch of time, and why) - see getUserTimeline.
+ *
+ * Methods that write take an optional transaction client, so callers that
+ * already run inside a transaction (e.g. webhook processing) reuse the same
+ * logic instead of duplicating it. Without one they use the default client.
  */
 @Injectable()
 export class SubscriptionsService {
   private readonly logger = new Logger(SubscriptionsService.name);
 
-  constructor(private readonly db: DatabaseService) {}
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly plansService: PlansService,
+    private readonly entitlementsCache: EntitlementsCacheService,
+  ) {}
+
+  /**
+   * Apply a payment for a plan - entry point for purchases (webhooks)
+   *
+   * - User holds an ACTIVE recurring subscription on another plan → plan
+   *   change (upgrade now or downgrade at period end)
+   * - Otherwise → activate/extend the subscription for this plan
+   *
+   * Returns the subscription that grants access afterwards
+   */
+  async activatePurchasedPlan(
+    userId: string,
+    planType: string,
+    period: IBillingPeriod,
+    purchase: IPlanPurchase,
+    tx: Prisma.TransactionClient = this.db,
+  ) {
+    // Lifetime access supersedes recurring plans on its own
+    if (period.interval !== BillingInterval.LIFETIME) {
+      const current = await tx.subscription.findFirst({
+        where: {
+          user_id: userId,
+          plan_type: { not: planType },
+          status: SubscriptionStatus.ACTIVE,
+          is_lifetime: false,
+          expires_at: { gt: new Date() },
+        },
+        orderBy: { expires_at: 'desc' },
+      });
+
+      if (current) {
+        return this.changePlan(current, planType, period, purchase, tx);
+      }
+    }
+
+    return this.activateOrExtendSubscription(userId, planType, period, tx, {
+      paymentId: purchase.paymentId,
+    });
+  }
 
   /**
    * Activate or extend subscription
@@ -26,13 +170,42 @@ export class SubscriptionsService {
    * - If subscription is PENDING/EXPIRED/doesn't exist → start from now
    *
    * This ensures users don't lose time when renewing early
+   *
+   * Trial conversion: the first payment after a trial sets
+   * trial_converted_at. Paid time starts when the trial ends (its
+   * expires_at), or now if the trial already lapsed - also when the
+   * expiry job has moved it to EXPIRED meanwhile.
+   *
+   * A payment also undoes a cancellation (cancel_at_period_end or an
+   * immediate cancel) - the user chose to pay again - and resumes a
+   * paused subscription.
+   *
+   * Recovery: a PAST_DUE subscription paid during its grace period is
+   * ACTIVE again and extends from the end of the paid period (expires_at),
+   * so the grace days are paid for. Recorded as a RECOVERED event.
+   *
+   * Billing anchor:
+   * - Starting from now → anchor is today's day of month
+   * - Extending → keeps the stored anchor
+   * - Day/week periods (and prorated days) move it to the new expiry day,
+   *   so a later monthly renewal doesn't snap back to an old day and lose
+   *   or gain time
+   *
+   * History: the added time is recorded as a SubscriptionPeriod - reason
+   * RENEWAL when extending, NEW when starting from now or converting a
+   * trial (unless `source.reason` says otherwise)
+   *
+   * CRITICAL: Pass `tx` when called inside a transaction - the read and the
+   * upsert must see the same snapshot as the rest of the caller's writes
    */
   async activateOrExtendSubscription(
     userId: string,
     planType: string,
-    durationDays: number,
+    period: IBillingPeriod,
+    tx: Prisma.TransactionClient = this.db,
+    source: ISubscriptionPeriodSource = {},
   ) {
-    const existing = await this.db.subscription.findUnique({
+    let existing = await tx.subscription.findUnique({
       where: {
         user_id_plan_type: {
           user_id: userId,
@@ -41,36 +214,85 @@ export class SubscriptionsService {
       },
     });
 
+    // Paying ends a pause - the frozen time comes back first, the payment
+    // extends from there
+    if (existing?.status === SubscriptionStatus.PAUSED) {
+      existing =
+        (await this.resumePaused(existing.id, 'payment', new Date(), tx)) ??
+        (await tx.subscription.findUnique({ where: { id: existing.id } }));
+    }
+
+    if (period.interval === BillingInterval.LIFETIME) {
+      return this.activateLifetimeSubscription(
+        userId,
+        planType,
+        existing,
+        source,
+        tx,
+      );
+    }
+
+    // EDGE CASE: Plan switched from lifetime to recurring - nothing to extend
+    if (
+      existing?.is_lifetime &&
+      existing.status === SubscriptionStatus.ACTIVE
+    ) {
+      this.logger.warn(
+        `Subscription ${existing.id} is lifetime - ignoring ${period.count} ${period.interval} extension`,
+      );
+      return existing;
+    }
+
     const now = new Date();
+    const isTrialConversion = this.isTrialConversion(existing);
+    const isRecovery =
+      existing?.status === SubscriptionStatus.PAST_DUE &&
+      !!existing.grace_ends_at &&
+      existing.grace_ends_at > now;
+    let periodStart: Date;
+    let periodReason: SubscriptionPeriodReason;
     let newExpiryDate: Date;
+    let anchorDay: number;
 
     if (
       existing &&
-      existing.status === SubscriptionStatus.ACTIVE &&
       existing.expires_at &&
-      existing.expires_at > now
+      ((ACCESS_STATUSES.includes(existing.status) &&
+        existing.expires_at > now) ||
+        isRecovery)
     ) {
       // Subscription is active and not expired
       // Extend from current expiry (user keeps their remaining time!)
-      newExpiryDate = new Date(existing.expires_at);
-      newExpiryDate.setDate(newExpiryDate.getDate() + durationDays);
+      anchorDay =
+        existing.billing_anchor_day ?? getBillingAnchorDay(existing.expires_at);
+      periodStart = existing.expires_at;
+      periodReason = isTrialConversion
+        ? SubscriptionPeriodReason.NEW
+        : SubscriptionPeriodReason.RENEWAL;
+      newExpiryDate = addBillingPeriod(existing.expires_at, period, anchorDay);
 
       this.logger.log(
-        `Extending subscription ${existing.id} from ${existing.expires_at.toISOString()} to ${newExpiryDate.toISOString()}`,
+        `${isTrialConversion ? 'Converting trial' : 'Extending subscription'} ${existing.id} from ${existing.expires_at.toISOString()} to ${newExpiryDate.toISOString()}`,
       );
     } else {
       // New subscription OR expired subscription
       // Start from now
-      newExpiryDate = new Date(now);
-      newExpiryDate.setDate(newExpiryDate.getDate() + durationDays);
+      anchorDay = getBillingAnchorDay(now);
+      periodStart = now;
+      periodReason = SubscriptionPeriodReason.NEW;
+      newExpiryDate = addBillingPeriod(now, period, anchorDay);
 
       this.logger.log(
         `Activating subscription for user ${userId}, expires ${newExpiryDate.toISOString()}`,
       );
     }
 
+    if (!isCalendarInterval(period.interval)) {
+      anchorDay = getBillingAnchorDay(newExpiryDate);
+    }
+
     // Upsert: create if doesn't exist, update if exists
-    const subscription = await this.db.subscription.upsert({
+    const subscription = await tx.subscription.upsert({
       where: {
         user_id_plan_type: {
           user_id: userId,
@@ -83,22 +305,583 @@ export class SubscriptionsService {
         status: SubscriptionStatus.ACTIVE,
         started_at: now,
         expires_at: newExpiryDate,
+        billing_anchor_day: anchorDay,
       },
       update: {
         status: SubscriptionStatus.ACTIVE,
         expires_at: newExpiryDate,
+        billing_anchor_day: anchorDay,
+        ...(isTrialConversion && { trial_converted_at: now }),
+        ...(existing?.status === SubscriptionStatus.PAST_DUE && CLEAR_DUNNING),
+        ...(existing?.cancelled_at && CLEAR_CANCELLATION),
         updated_at: now,
       },
     });
 
+    await recordSubscriptionPeriod(tx, subscription, {
+      reason: source.reason ?? periodReason,
+      startsAt: periodStart,
+      endsAt: newExpiryDate,
+      paymentId: source.paymentId,
+    });
+
+    if (isRecovery) {
+      await recordSubscriptionEvent(tx, subscription, {
+        type: SubscriptionEventType.RECOVERED,
+        fromStatus: SubscriptionStatus.PAST_DUE,
+        toStatus: SubscriptionStatus.ACTIVE,
+      });
+      this.logger.log(
+        `Subscription ${subscription.id} recovered from past due`,
+      );
+    }
+
     return subscription;
   }
 
+  /**
+   * Activate a lifetime subscription
+   *
+   * - Already lifetime and ACTIVE → unchanged (buying it again doesn't add
+   *   anything)
+   * - Otherwise → ACTIVE, is_lifetime, no expiry and no billing anchor
+   *
+   * EDGE CASE: User still holds monthly/yearly subscriptions (active,
+   * trialing, past due or paused) - lifetime access supersedes them, so
+   * they are cancelled immediately in the same transaction (see
+   * cancelSupersededSubscriptions). Their recurring billing at the provider
+   * has to be stopped separately; a renewal payment arriving later
+   * reactivates that subscription as usual.
+   */
+  private async activateLifetimeSubscription(
+    userId: string,
+    planType: string,
+    existing: Subscription | null,
+    source: ISubscriptionPeriodSource,
+    tx: Prisma.TransactionClient,
+  ) {
+    if (
+      existing?.is_lifetime &&
+      existing.status === SubscriptionStatus.ACTIVE
+    ) {
+      this.logger.log(
+        `Subscription ${existing.id} is already lifetime - nothing to extend`,
+      );
+      return existing;
+    }
+
+    const now = new Date();
+
+    const subscription = await tx.subscription.upsert({
+      where: {
+        user_id_plan_type: {
+          user_id: userId,
+          plan_type: planType,
+        },
+      },
+      create: {
+        user_id: userId,
+        plan_type: planType,
+        status: SubscriptionStatus.ACTIVE,
+        started_at: now,
+        expires_at: null,
+        is_lifetime: true,
+      },
+      update: {
+        status: SubscriptionStatus.ACTIVE,
+        expires_at: null,
+        is_lifetime: true,
+        billing_anchor_day: null,
+        ...(this.isTrialConversion(existing) && { trial_converted_at: now }),
+        ...(existing?.status === SubscriptionStatus.PAST_DUE && CLEAR_DUNNING),
+        ...(existing?.cancelled_at && CLEAR_CANCELLATION),
+        updated_at: now,
+      },
+    });
+
+    await recordSubscriptionPeriod(tx, subscription, {
+      reason: source.reason ?? SubscriptionPeriodReason.NEW,
+      startsAt: now,
+      endsAt: null,
+      paymentId: source.paymentId,
+    });
+
+    this.logger.log(
+      `Lifetime subscription activated for user ${userId}: ${subscription.id}`,
+    );
+
+    const superseded = await tx.subscription.findMany({
+      where: {
+        user_id: userId,
+        plan_type: { not: planType },
+        status: { in: SUPERSEDED_BY_LIFETIME_STATUSES },
+        is_lifetime: false,
+      },
+    });
+
+    if (superseded.length > 0) {
+      await this.cancelSupersededSubscriptions(superseded, planType, now, tx);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Cancel recurring subscriptions superseded by lifetime access
+   *
+   * Same end state as an immediate cancellation: expires now, so
+   * reactivateSubscription() has no time to bring back. Open pauses end
+   * and scheduled downgrades are cancelled - nothing may start the old
+   * plan again later.
+   */
+  private async cancelSupersededSubscriptions(
+    subscriptions: Subscription[],
+    lifetimePlanType: string,
+    now: Date,
+    tx: Prisma.TransactionClient,
+  ) {
+    const ids = subscriptions.map((subscription) => subscription.id);
+    const reason = `Superseded by lifetime ${lifetimePlanType}`;
+
+    await tx.subscription.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        status: SubscriptionStatus.CANCELLED,
+        expires_at: now,
+        cancel_at_period_end: false,
+        cancelled_at: now,
+        cancellation_mode: CancellationMode.IMMEDIATE,
+        cancellation_reason: reason,
+        ...CLEAR_DUNNING,
+        updated_at: now,
+      },
+    });
+    await tx.subscriptionPause.updateMany({
+      where: { subscription_id: { in: ids }, ended_at: null },
+      data: { ended_at: now },
+    });
+    await tx.subscriptionPlanChange.updateMany({
+      where: {
+        from_subscription_id: { in: ids },
+        status: PlanChangeStatus.SCHEDULED,
+      },
+      data: { status: PlanChangeStatus.CANCELLED },
+    });
+
+    for (const subscription of subscriptions) {
+      await recordSubscriptionEvent(tx, subscription, {
+        type: SubscriptionEventType.CANCELLED,
+        fromStatus: subscription.status,
+        toStatus: SubscriptionStatus.CANCELLED,
+        metadata: { reason, requestedBy: 'payment' },
+      });
+    }
+
+    this.logger.warn(
+      `Cancelled ${subscriptions.length} recurring subscription(s) of user ${subscriptions[0].user_id} superseded by lifetime ${lifetimePlanType} - stop their billing at the provider`,
+    );
+  }
+
+  /**
+   * First payment for a subscription that had a trial
+   */
+  private isTrialConversion(existing: Subscription | null): boolean {
+    return !!existing?.trial_started_at && !existing.trial_converted_at;
+  }
+
+  /**
+   * Move a user from their current subscription to another plan
+   *
+   * Direction is decided by the plan prices in the payment currency (a
+   * plan without a price there is compared by period length instead):
+   *
+   * UPGRADE (new plan costs more) - applied immediately:
+   * - Old subscription is closed (CANCELLED, expires now) - recorded as an
+   *   immediate cancellation, so a late failed renewal of the old plan
+   *   can't revive it (SubscriptionDunningService)
+   * - Its remaining time is converted at the old plan's daily rate into
+   *   extra days on the new plan (credited_days), on top of the paid period
+   * - The credited days are linked to the payment of the old subscription's
+   *   latest paid period, so refunding that payment takes them back
+   * - A downgrade still scheduled from the old subscription is cancelled
+   *
+   * DOWNGRADE (same price or cheaper) - scheduled:
+   * - User keeps the old plan until its current period ends
+   * - The paid period starts then (applyDuePlanChanges)
+   * - Paying again for the same downgrade schedules another change - one
+   *   per payment, applied one after the other, so each keeps its own
+   *   period unit and a refund cancels only its own; paying for a
+   *   different downgrade replaces them
+   *
+   * CRITICAL: Runs in the caller's transaction - the plan change record,
+   * both subscriptions and the payment commit or roll back together
+   */
+  async changePlan(
+    current: Subscription,
+    toPlanType: string,
+    period: IBillingPeriod,
+    purchase: IPlanPurchase,
+    tx: Prisma.TransactionClient = this.db,
+  ) {
+    const [fromPlan, toPlan] = await Promise.all([
+      this.plansService.getPlan(current.plan_type),
+      this.plansService.getPlan(toPlanType),
+    ]);
+
+    const direction = this.getPlanChangeDirection(
+      fromPlan,
+      toPlan,
+      purchase.currency,
+    );
+
+    if (direction === PlanChangeDirection.UPGRADE) {
+      return this.upgradePlan(current, toPlan, fromPlan, period, purchase, tx);
+    }
+
+    return this.scheduleDowngrade(current, toPlan, period, purchase, tx);
+  }
+
+  /**
+   * Apply scheduled downgrades whose old period has ended
+   *
+   * EDGE CASE: Old plan renewed after the downgrade was scheduled - the
+   * change moves to the new end of the old period instead of cutting the
+   * renewed time short
+   */
+  async applyDuePlanChanges(now = new Date()): Promise<number> {
+    const due = await this.db.subscriptionPlanChange.findMany({
+      where: {
+        status: PlanChangeStatus.SCHEDULED,
+        effective_at: { lte: now },
+      },
+      // Repeat payments for one downgrade apply in the order they were made
+      orderBy: [{ effective_at: 'asc' }, { created_at: 'asc' }],
+      take: PLAN_CHANGE_BATCH_SIZE,
+    });
+
+    let applied = 0;
+    for (const change of due) {
+      try {
+        if (await this.applyScheduledPlanChange(change.id, now)) {
+          this.entitlementsCache.invalidate(change.user_id);
+          applied++;
+        }
+      } catch (error: unknown) {
+        // One broken change must not block the rest of the batch
+        this.logger.error(
+          `Failed to apply plan change ${change.id}`,
+          error instanceof Error ? error.stack : error,
+        );
+      }
+    }
+
+    if (applied > 0) {
+      this.logger.log(`Applied ${applied} scheduled plan change(s)`);
+    }
+
+    return applied;
+  }
+
+  /**
+   * Scheduled entry point for applyDuePlanChanges()
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'subscription-plan-changes' })
+  async handlePlanChangeCron() {
+    try {
+      await this.applyDuePlanChanges();
+    } catch (error: unknown) {
+      this.logger.error(
+        'Scheduled plan changes failed',
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
+
+  /**
+   * Cancel a downgrade that was bought by a payment and hasn't started yet
+   * (e.g. the payment was refunded) - returns how many were cancelled
+   */
+  async cancelScheduledPlanChanges(
+    paymentId: string,
+    tx: Prisma.TransactionClient = this.db,
+  ): Promise<number> {
+    const { count } = await tx.subscriptionPlanChange.updateMany({
+      where: { payment_id: paymentId, status: PlanChangeStatus.SCHEDULED },
+      data: { status: PlanChangeStatus.CANCELLED },
+    });
+
+    if (count > 0) {
+      this.logger.log(
+        `Cancelled ${count} scheduled plan change(s) paid by ${paymentId}`,
+      );
+    }
+
+    return count;
+  }
+
+  private async upgradePlan(
+    current: Subscription,
+    toPlan: PlanWithPrices,
+    fromPlan: PlanWithPrices,
+    period: IBillingPeriod,
+    purchase: IPlanPurchase,
+    tx: Prisma.TransactionClient,
+  ) {
+    const now = new Date();
+    const remainingDays =
+      (current.expires_at!.getTime() - now.getTime()) / DAY_MS;
+    const creditedDays = this.convertRemainingDays(
+      remainingDays,
+      fromPlan,
+      toPlan,
+      purchase.currency,
+    );
+    // Payment behind the remaining time - the credit is refunded with it
+    const creditSource = await tx.subscriptionPeriod.findFirst({
+      where: {
+        subscription_id: current.id,
+        payment_id: { not: null },
+        revoked_at: null,
+      },
+      orderBy: { starts_at: 'desc' },
+    });
+
+    // Close out the old subscription
+    await tx.subscription.update({
+      where: { id: current.id },
+      data: {
+        status: SubscriptionStatus.CANCELLED,
+        expires_at: now,
+        cancel_at_period_end: false,
+        cancelled_at: now,
+        cancellation_mode: CancellationMode.IMMEDIATE,
+        cancellation_reason: `Upgraded to ${toPlan.code}`,
+        ...CLEAR_DUNNING,
+      },
+    });
+    await tx.subscriptionPlanChange.updateMany({
+      where: {
+        from_subscription_id: current.id,
+        status: PlanChangeStatus.SCHEDULED,
+      },
+      data: { status: PlanChangeStatus.CANCELLED },
+    });
+
+    let subscription = await this.activateOrExtendSubscription(
+      current.user_id,
+      toPlan.code,
+      period,
+      tx,
+      {
+        paymentId: purchase.paymentId,
+        reason: SubscriptionPeriodReason.UPGRADE,
+      },
+    );
+    if (creditedDays > 0) {
+      subscription = await this.activateOrExtendSubscription(
+        current.user_id,
+        toPlan.code,
+        { interval: BillingInterval.DAY, count: creditedDays },
+        tx,
+        {
+          paymentId: creditSource?.payment_id,
+          reason: SubscriptionPeriodReason.UPGRADE,
+        },
+      );
+    }
+
+    await tx.subscriptionPlanChange.create({
+      data: {
+        user_id: current.user_id,
+        from_subscription_id: current.id,
+        to_subscription_id: subscription.id,
+        from_plan: current.plan_type,
+        to_plan: toPlan.code,
+        direction: PlanChangeDirection.UPGRADE,
+        status: PlanChangeStatus.APPLIED,
+        payment_id: purchase.paymentId,
+        period_interval: period.interval,
+        period_count: period.count,
+        credited_days: creditedDays,
+        effective_at: now,
+        applied_at: now,
+      },
+    });
+
+    this.logger.log(
+      `Upgraded user ${current.user_id} from ${current.plan_type} to ${toPlan.code} (${creditedDays} day(s) credited)`,
+    );
+
+    return subscription;
+  }
+
+  private async scheduleDowngrade(
+    current: Subscription,
+    toPlan: PlanWithPrices,
+    period: IBillingPeriod,
+    purchase: IPlanPurchase,
+    tx: Prisma.TransactionClient,
+  ) {
+    // The latest choice wins over a downgrade to another plan
+    await tx.subscriptionPlanChange.updateMany({
+      where: {
+        from_subscription_id: current.id,
+        to_plan: { not: toPlan.code },
+        status: PlanChangeStatus.SCHEDULED,
+      },
+      data: { status: PlanChangeStatus.CANCELLED },
+    });
+
+    await tx.subscriptionPlanChange.create({
+      data: {
+        user_id: current.user_id,
+        from_subscription_id: current.id,
+        from_plan: current.plan_type,
+        to_plan: toPlan.code,
+        direction: PlanChangeDirection.DOWNGRADE,
+        status: PlanChangeStatus.SCHEDULED,
+        payment_id: purchase.paymentId,
+        period_interval: period.interval,
+        period_count: period.count,
+        effective_at: current.expires_at!,
+      },
+    });
+
+    this.logger.log(
+      `Downgrade of user ${current.user_id} from ${current.plan_type} to ${toPlan.code} scheduled for ${current.expires_at!.toISOString()}`,
+    );
+
+    return current;
+  }
+
+  /**
+   * Apply one scheduled downgrade - returns false if it wasn't (yet)
+   */
+  private applyScheduledPlanChange(changeId: string, now: Date) {
+    return this.db.$transaction(async (tx) => {
+      const change = await tx.subscriptionPlanChange.findUnique({
+        where: { id: changeId },
+        include: { fromSubscription: true },
+      });
+      if (!change || change.status !== PlanChangeStatus.SCHEDULED) {
+        return false;
+      }
+
+      const from = change.fromSubscription;
+      if (
+        from.status === SubscriptionStatus.ACTIVE &&
+        from.expires_at &&
+        from.expires_at > now
+      ) {
+        await tx.subscriptionPlanChange.update({
+          where: { id: change.id },
+          data: { effective_at: from.expires_at },
+        });
+        return false;
+      }
+
+      // CRITICAL: Claim the change first - another instance running the
+      // same cron must not apply it twice
+      const { count } = await tx.subscriptionPlanChange.updateMany({
+        where: { id: change.id, status: PlanChangeStatus.SCHEDULED },
+        data: { status: PlanChangeStatus.APPLIED, applied_at: now },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      // Old plan still open (its renewal may have failed - PAST_DUE)
+      if (
+        from.status === SubscriptionStatus.ACTIVE ||
+        from.status === SubscriptionStatus.PAST_DUE
+      ) {
+        await tx.subscription.update({
+          where: { id: from.id },
+          data: { status: SubscriptionStatus.EXPIRED },
+        });
+      }
+
+      const subscription = await this.activateOrExtendSubscription(
+        change.user_id,
+        change.to_plan,
+        { interval: change.period_interval, count: change.period_count },
+        tx,
+        {
+          paymentId: change.payment_id,
+          reason: SubscriptionPeriodReason.DOWNGRADE,
+        },
+      );
+
+      await tx.subscriptionPlanChange.update({
+        where: { id: change.id },
+        data: { to_subscription_id: subscription.id },
+      });
+
+      this.logger.log(
+        `Downgrade ${change.id} applied: user ${change.user_id} moved from ${change.from_plan} to ${change.to_plan}`,
+      );
+
+      return true;
+    });
+  }
+
+  /**
+   * UPGRADE: value of the unused time on the old plan, bought back at the
+   * new plan's daily rate (whole days, rounded down). Without prices in the
+   * payment currency on both plans, days are carried over one to one.
+   */
+  private convertRemainingDays(
+    remainingDays: number,
+    fromPlan: PlanWithPrices,
+    toPlan: PlanWithPrices,
+    currency: string,
+  ): number {
+    const fromPrice = this.plansService.findPrice(fromPlan, currency);
+    const toPrice = this.plansService.findPrice(toPlan, currency);
+
+    if (!fromPrice || !toPrice) {
+      return Math.max(0, Math.floor(remainingDays));
+    }
+
+    const fromDailyRate =
+      fromPrice.amount / this.plansService.getDurationDays(fromPlan);
+    const toDailyRate =
+      toPrice.amount / this.plansService.getDurationDays(toPlan);
+
+    return Math.max(
+      0,
+      Math.floor((remainingDays * fromDailyRate) / toDailyRate),
+    );
+  }
+
+  private getPlanChangeDirection(
+    fromPlan: PlanWithPrices,
+    toPlan: PlanWithPrices,
+    currency: string,
+  ): PlanChangeDirection {
+    const fromPrice = this.plansService.findPrice(fromPlan, currency);
+    const toPrice = this.plansService.findPrice(toPlan, currency);
+
+    const isUpgrade =
+      fromPrice && toPrice
+        ? toPrice.amount > fromPrice.amount
+        : this.plansService.getDurationDays(toPlan) >
+          this.plansService.getDurationDays(fromPlan);
+
+    return isUpgrade
+      ? PlanChangeDirection.UPGRADE
+      : PlanChangeDirection.DOWNGRADE;
+  }
+
   /**
    * Get user's subscription
    */
-  async getUserSubscription(userId: string, planType: string) {
-    return this.db.subscription.findUnique({
+  async getUserSubscription(
+    userId: string,
+    planType: string,
+    tx: Prisma.TransactionClient = this.db,
+  ) {
+    return tx.subscription.findUnique({
       where: {
         user_id_plan_type: {
           user_id: userId,
@@ -116,8 +899,10 @@ export class SubscriptionsService {
    *
    * Returns true only if:
    * - Subscription exists
-   * - Status is ACTIVE
-   * - Not expired (expires_at > now)
+   * - Status is ACTIVE or TRIALING
+   * - Lifetime, or not expired (expires_at > now)
+   *
+   * or PAST_DUE within its grace period (grace_ends_at > now)
    */
   async isSubscriptionActive(
     userId: string,
@@ -126,7 +911,13 @@ export class SubscriptionsService {
     const subscription = await this.getUserSubscription(userId, planType);
 
     if (!subscription) return false;
-    if (subscription.status !== SubscriptionStatus.ACTIVE) return false;
+    if (subscription.status === SubscriptionStatus.PAST_DUE) {
+      return (
+        !!subscription.grace_ends_at && subscription.grace_ends_at > new Date()
+      );
+    }
+    if (!ACCESS_STATUSES.includes(subscription.status)) return false;
+    if (subscription.is_lifetime) return true;
     if (!subscription.expires_at) return false;
     if (subscription.expires_at < new Date()) return false;
 
@@ -134,42 +925,633 @@ export class SubscriptionsService {
   }
 
   /**
-   * Get all active subscriptions for a user
+   * Get all active subscriptions for a user (lifetime ones, running
+   * trials and past-due ones in their grace period included)
    */
   async getUserActiveSubscriptions(userId: string) {
+    const now = new Date();
+
     return this.db.subscription.findMany({
       where: {
         user_id: userId,
-        status: SubscriptionStatus.ACTIVE,
-        expires_at: {
-          gt: new Date(), // Greater than now (not expired)
-        },
+        OR: [
+          {
+            status: { in: ACCESS_STATUSES },
+            OR: [
+              { is_lifetime: true },
+              { expires_at: { gt: now } }, // Greater than now (not expired)
+            ],
+          },
+          { status: SubscriptionStatus.PAST_DUE, grace_ends_at: { gt: now } },
+        ],
       },
     });
   }
 
   /**
-   * Cancel subscription
+   * Cancel a subscription (not deleted - the row and its history stay)
+   *
+   * AT_PERIOD_END:
+   * - Stays ACTIVE/TRIALING with cancel_at_period_end - access until
+   *   expires_at, then the expiry job moves it to EXPIRED
+   * - Not renewed: a failed renewal no longer starts dunning
+   *   (recurring billing at the provider has to be stopped separately)
    *
-   * Note: Doesn't delete, just marks as CANCELLED
-   * User retains access until expires_at
+   * IMMEDIATE:
+   * - CANCELLED, access ends now (expires_at = now), downgrades scheduled
+   *   from it are cancelled
+   * - refund → records a SubscriptionRefund for the unused part of the
+   *   last completed payment, to be issued at the provider
+   *
+   * Throws NotFoundException for an unknown id and BadRequestException
+   * when the subscription can't be cancelled that way
    */
-  async cancelSubscription(userId: string, planType: string) {
-    const subscription = await this.db.subscription.update({
+  async cancelSubscription(
+    subscriptionId: string,
+    options: ICancelSubscriptionOptions,
+  ) {
+    const subscription = await this.getSubscriptionOrThrow(subscriptionId);
+
+    const cancelled =
+      options.mode === CancellationMode.AT_PERIOD_END
+        ? await this.cancelAtPeriodEnd(subscription, options)
+        : await this.cancelImmediately(subscription, options);
+
+    this.entitlementsCache.invalidate(subscription.user_id);
+
+    return cancelled;
+  }
+
+  /**
+   * Undo a cancellation before the subscription ran out
+   *
+   * - cancel_at_period_end → cleared, renews again
+   * - CANCELLED with time left (expires_at in the future) → ACTIVE again
+   *   (TRIALING for a trial that never converted)
+   *
+   * An immediate cancellation ends access now, so it can't be reactivated -
+   * the user buys the plan again instead
+   */
+  async reactivateSubscription(subscriptionId: string, requestedBy: string) {
+    const subscription = await this.getSubscriptionOrThrow(subscriptionId);
+    const now = new Date();
+
+    const hasTimeLeft =
+      !subscription.is_lifetime &&
+      !!subscription.expires_at &&
+      subscription.expires_at > now;
+    const isScheduledCancel =
+      subscription.cancel_at_period_end &&
+      ACCESS_STATUSES.includes(subscription.status);
+
+    if (
+      !hasTimeLeft ||
+      (!isScheduledCancel &&
+        subscription.status !== SubscriptionStatus.CANCELLED)
+    ) {
+      throw new BadRequestException(
+        `Subscription ${subscriptionId} has no cancellation to undo`,
+      );
+    }
+
+    const status = isScheduledCancel
+      ? subscription.status
+      : this.isTrialConversion(subscription)
+        ? SubscriptionStatus.TRIALING
+        : SubscriptionStatus.ACTIVE;
+
+    const result = await this.db.$transaction(async (tx) => {
+      const reactivated = await tx.subscription.update({
+        where: { id: subscription.id },
+        data: { status, ...CLEAR_CANCELLATION },
+      });
+
+      await recordSubscriptionEvent(tx, reactivated, {
+        type: SubscriptionEventType.REACTIVATED,
+        fromStatus: subscription.status,
+        toStatus: status,
+        metadata: { requestedBy },
+      });
+
+      this.logger.log(
+        `Subscription ${subscription.id} reactivated by ${requestedBy}`,
+      );
+
+      return reactivated;
+    });
+
+    this.entitlementsCache.invalidate(subscription.user_id);
+
+    return result;
+  }
+
+  /**
+   * Pause a subscription - no access until it is resumed, the paid time
+   * left is frozen and added back on resume
+   *
+   * - Only ACTIVE recurring subscriptions with time left, on a plan with
+   *   max_pause_days > 0 (else 400)
+   * - Not while cancelled at period end or with a downgrade scheduled -
+   *   both are tied to the current expires_at (else 400)
+   * - resumeAt: automatic resume, at most max_pause_days from now; without
+   *   one the pause lasts the maximum
+   *
+   * Every pause is recorded as a SubscriptionPause (see
+   * getSubscriptionPauses) plus a PAUSED event.
+   *
+   * While PAUSED the expiry job and dunning leave the subscription alone;
+   * an immediate cancellation requires resuming it first.
+   */
+  async pauseSubscription(
+    subscriptionId: string,
+    options: IPauseSubscriptionOptions,
+  ) {
+    const subscription = await this.getSubscriptionOrThrow(subscriptionId);
+    const now = new Date();
+
+    if (
+      subscription.status !== SubscriptionStatus.ACTIVE ||
+      subscription.is_lifetime ||
+      !subscription.expires_at ||
+      subscription.expires_at <= now
+    ) {
+      throw new BadRequestException(
+        `Subscription ${subscriptionId} has no period to pause (${subscription.is_lifetime ? 'lifetime' : subscription.status})`,
+      );
+    }
+    if (subscription.cancel_at_period_end) {
+      throw new BadRequestException(
+        `Subscription ${subscriptionId} is cancelled at period end - reactivate it first`,
+      );
+    }
+
+    const scheduledChange = await this.db.subscriptionPlanChange.findFirst({
       where: {
-        user_id_plan_type: {
-          user_id: userId,
-          plan_type: planType,
-        },
+        from_subscription_id: subscriptionId,
+        status: PlanChangeStatus.SCHEDULED,
       },
+    });
+    if (scheduledChange) {
+      throw new BadRequestException(
+        `Subscription ${subscriptionId} has a plan change scheduled (${scheduledChange.id})`,
+      );
+    }
+
+    const plan = await this.plansService.getPlan(subscription.plan_type);
+    if (plan.max_pause_days <= 0) {
+      throw new BadRequestException(`Plan ${plan.code} can't be paused`);
+    }
+
+    const latestResumeAt = addBillingPeriod(now, {
+      interval: BillingInterval.DAY,
+      count: plan.max_pause_days,
+    });
+    const resumeAt = options.resumeAt ?? latestResumeAt;
+    if (resumeAt <= now || resumeAt > latestResumeAt) {
+      throw new BadRequestException(
+        `Plan ${plan.code} can be paused for at most ${plan.max_pause_days} day(s) - resume date must be before ${latestResumeAt.toISOString()}`,
+      );
+    }
+
+    const remainingSeconds = Math.floor(
+      (subscription.expires_at.getTime() - now.getTime()) / 1000,
+    );
+
+    const result = await this.db.$transaction(async (tx) => {
+      // CRITICAL: Guarded update - a renewal or the expiry job may have
+      // changed the period since we read it, the frozen time would be wrong
+      const { count } = await tx.subscription.updateMany({
+        where: {
+          id: subscription.id,
+          status: SubscriptionStatus.ACTIVE,
+          expires_at: subscription.expires_at,
+        },
+        data: { status: SubscriptionStatus.PAUSED, updated_at: now },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          `Subscription ${subscriptionId} changed meanwhile - try again`,
+        );
+      }
+
+      const pause = await tx.subscriptionPause.create({
+        data: {
+          subscription_id: subscription.id,
+          user_id: subscription.user_id,
+          paused_at: now,
+          resume_at: resumeAt,
+          remaining_seconds: remainingSeconds,
+          reason: options.reason,
+          paused_by: options.requestedBy,
+        },
+      });
+
+      await recordSubscriptionEvent(tx, subscription, {
+        type: SubscriptionEventType.PAUSED,
+        fromStatus: SubscriptionStatus.ACTIVE,
+        toStatus: SubscriptionStatus.PAUSED,
+        metadata: {
+          pauseId: pause.id,
+          resumeAt: resumeAt.toISOString(),
+          requestedBy: options.requestedBy,
+        },
+      });
+
+      this.logger.log(
+        `Subscription ${subscription.id} paused by ${options.requestedBy} until ${resumeAt.toISOString()}`,
+      );
+
+      const paused = await tx.subscription.findUnique({
+        where: { id: subscription.id },
+      });
+
+      return { ...paused!, pause };
+    });
+
+    this.entitlementsCache.invalidate(subscription.user_id);
+
+    return result;
+  }
+
+  /**
+   * Resume a paused subscription before its automatic resume date
+   *
+   * Throws BadRequestException if it isn't paused and ConflictException if
+   * it was resumed concurrently (schedule or payment)
+   */
+  async resumeSubscription(subscriptionId: string, requestedBy: string) {
+    const subscription = await this.getSubscriptionOrThrow(subscriptionId);
+
+    if (subscription.status !== SubscriptionStatus.PAUSED) {
+      throw new BadRequestException(
+        `Subscription ${subscriptionId} is not paused (${subscription.status})`,
+      );
+    }
+
+    const resumed = await this.db.$transaction((tx) =>
+      this.resumePaused(subscription.id, requestedBy, new Date(), tx),
+    );
+
+    if (!resumed) {
+      throw new ConflictException(
+        `Subscription ${subscriptionId} was resumed meanwhile`,
+      );
+    }
+
+    this.entitlementsCache.invalidate(subscription.user_id);
+
+    return resumed;
+  }
+
+  /**
+   * Pause history of a subscription, newest first - for support
+   */
+  async getSubscriptionPauses(subscriptionId: string) {
+    await this.getSubscriptionOrThrow(subscriptionId);
+
+    return this.db.subscriptionPause.findMany({
+      where: { subscription_id: subscriptionId },
+      orderBy: { paused_at: 'desc' },
+    });
+  }
+
+  /**
+   * Resume pauses whose automatic resume date has passed
+   */
+  async resumeDuePauses(now = new Date()): Promise<number> {
+    const due = await this.db.subscriptionPause.findMany({
+      where: { ended_at: null, resume_at: { lte: now } },
+      orderBy: { resume_at: 'asc' },
+      take: PAUSE_RESUME_BATCH_SIZE,
+    });
+
+    let resumed = 0;
+    for (const pause of due) {
+      try {
+        const subscription = await this.db.$transaction((tx) =>
+          this.resumePaused(pause.subscription_id, 'schedule', now, tx),
+        );
+        if (subscription) {
+          this.entitlementsCache.invalidate(pause.user_id);
+          resumed++;
+        }
+      } catch (error: unknown) {
+        // One broken pause must not block the rest of the batch
+        this.logger.error(
+          `Failed to resume pause ${pause.id}`,
+          error instanceof Error ? error.stack : error,
+        );
+      }
+    }
+
+    if (resumed > 0) {
+      this.logger.log(`Resumed ${resumed} paused subscription(s)`);
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Scheduled entry point for resumeDuePauses()
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'subscription-pause-resume' })
+  async handlePauseResumeCron() {
+    try {
+      await this.resumeDuePauses();
+    } catch (error: unknown) {
+      this.logger.error(
+        'Scheduled pause resumes failed',
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
+
+  /**
+   * End the open pause of a subscription - ACTIVE again with the frozen
+   * time counted from now, so the billing anchor moves to the new expiry day
+   *
+   * CRITICAL: The pause is claimed with a guarded update, so an admin, the
+   * schedule and a payment resuming at once add the time back only once.
+   * Returns null when there was no open pause left to claim.
+   */
+  private async resumePaused(
+    subscriptionId: string,
+    resumedBy: string,
+    now: Date,
+    tx: Prisma.TransactionClient,
+  ): Promise<Subscription | null> {
+    const pause = await tx.subscriptionPause.findFirst({
+      where: { subscription_id: subscriptionId, ended_at: null },
+      orderBy: { paused_at: 'desc' },
+    });
+    if (!pause) {
+      return null;
+    }
+
+    const { count } = await tx.subscriptionPause.updateMany({
+      where: { id: pause.id, ended_at: null },
+      data: { ended_at: now, resumed_by: resumedBy },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const expiresAt = new Date(now.getTime() + pause.remaining_seconds * 1000);
+
+    const resumed = await tx.subscription.update({
+      where: { id: subscriptionId },
       data: {
-        status: SubscriptionStatus.CANCELLED,
+        status: SubscriptionStatus.ACTIVE,
+        expires_at: expiresAt,
+        billing_anchor_day: getBillingAnchorDay(expiresAt),
+        updated_at: now,
+      },
+    });
+
+    await recordSubscriptionPeriod(tx, resumed, {
+      reason: SubscriptionPeriodReason.RESUME,
+      startsAt: now,
+      endsAt: expiresAt,
+    });
+
+    await recordSubscriptionEvent(tx, resumed, {
+      type: SubscriptionEventType.RESUMED,
+      fromStatus: SubscriptionStatus.PAUSED,
+      toStatus: SubscriptionStatus.ACTIVE,
+      metadata: {
+        pauseId: pause.id,
+        resumedBy,
+        pausedDays: Math.floor(
+          (now.getTime() - pause.paused_at.getTime()) / DAY_MS,
+        ),
       },
     });
 
     this.logger.log(
-      `Subscription cancelled: ${subscription.id} (expires ${subscription.expires_at?.toISOString()})`,
+      `Subscription ${subscriptionId} resumed by ${resumedBy}, expires ${expiresAt.toISOString()}`,
+    );
+
+    return resumed;
+  }
+
+  /**
+   * Subscription history of a user - every period on every plan, oldest
+   * first, with the payment behind it
+   *
+   * Answers "why does this user have access until X": the latest
+   * non-revoked period of a plan ends at its expires_at (unless it was
+   * cancelled, paused or refunded since - see SubscriptionEvent)
+   */
+  async getUserTimeline(userId: string) {
+    const user = await this.db.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    return this.db.subscriptionPeriod.findMany({
+      where: { user_id: userId },
+      orderBy: [{ starts_at: 'asc' }, { created_at: 'asc' }],
+      include: {
+        payment: {
+          select: {
+            id: true,
+            external_payment_id: true,
+            amount: true,
+            currency: true,
+            status: true,
+            created_at: true,
+          },
+        },
+      },
+    });
+  }
+
+  private async cancelAtPeriodEnd(
+    subscription: Subscription,
+    options: ICancelSubscriptionOptions,
+  ) {
+    if (options.refund) {
+      throw new BadRequestException(
+        'A refund is only possible with an immediate cancellation',
+      );
+    }
+    if (
+      !ACCESS_STATUSES.includes(subscription.status) ||
+      subscription.is_lifetime
+    ) {
+      throw new BadRequestException(
+        `Subscription ${subscription.id} has no period to cancel at the end of (${subscription.is_lifetime ? 'lifetime' : subscription.status})`,
+      );
+    }
+    if (subscription.cancel_at_period_end) {
+      throw new BadRequestException(
+        `Subscription ${subscription.id} is already cancelled at period end`,
+      );
+    }
+
+    return this.db.$transaction(async (tx) => {
+      const cancelled = await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          cancel_at_period_end: true,
+          cancelled_at: new Date(),
+          cancellation_mode: CancellationMode.AT_PERIOD_END,
+          cancellation_reason: options.reason,
+        },
+      });
+
+      await recordSubscriptionEvent(tx, cancelled, {
+        type: SubscriptionEventType.CANCELLATION_SCHEDULED,
+        metadata: {
+          reason: options.reason ?? null,
+          requestedBy: options.requestedBy,
+        },
+      });
+
+      this.logger.log(
+        `Subscription ${subscription.id} cancelled at period end (${subscription.expires_at!.toISOString()}) by ${options.requestedBy}`,
+      );
+
+      return { ...cancelled, refund: null };
+    });
+  }
+
+  private async cancelImmediately(
+    subscription: Subscription,
+    options: ICancelSubscriptionOptions,
+  ) {
+    if (
+      !ACCESS_STATUSES.includes(subscription.status) &&
+      subscription.status !== SubscriptionStatus.PAST_DUE
+    ) {
+      throw new BadRequestException(
+        `Subscription ${subscription.id} is not active (${subscription.status})`,
+      );
+    }
+
+    const now = new Date();
+
+    return this.db.$transaction(async (tx) => {
+      const refund = options.refund
+        ? await this.createProratedRefund(subscription, options, now, tx)
+        : null;
+
+      const cancelled = await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          status: SubscriptionStatus.CANCELLED,
+          expires_at: now,
+          is_lifetime: false,
+          cancel_at_period_end: false,
+          cancelled_at: now,
+          cancellation_mode: CancellationMode.IMMEDIATE,
+          cancellation_reason: options.reason,
+          ...CLEAR_DUNNING,
+        },
+      });
+
+      await tx.subscriptionPlanChange.updateMany({
+        where: {
+          from_subscription_id: subscription.id,
+          status: PlanChangeStatus.SCHEDULED,
+        },
+        data: { status: PlanChangeStatus.CANCELLED },
+      });
+
+      await recordSubscriptionEvent(tx, cancelled, {
+        type: SubscriptionEventType.CANCELLED,
+        fromStatus: subscription.status,
+        toStatus: SubscriptionStatus.CANCELLED,
+        metadata: {
+          reason: options.reason ?? null,
+          requestedBy: options.requestedBy,
+          refundId: refund?.id ?? null,
+        },
+      });
+
+      this.logger.log(
+        `Subscription ${subscription.id} cancelled immediately by ${options.requestedBy}${refund ? ` - refund ${refund.amount} ${refund.currency} recorded` : ''}`,
+      );
+
+      return { ...cancelled, refund };
+    });
+  }
+
+  /**
+   * Refund owed for the unused part of the current period
+   *
+   * Taken from the last completed payment for the plan: its amount times
+   * the share of the period (one plan period back from expires_at) that is
+   * still left, rounded down to whole minor units.
+   *
+   * EDGE CASE: Paid several periods ahead - the share is capped at the
+   * whole last payment; older payments have to be refunded by hand
+   */
+  private async createProratedRefund(
+    subscription: Subscription,
+    options: ICancelSubscriptionOptions,
+    now: Date,
+    tx: Prisma.TransactionClient,
+  ) {
+    const payment = await tx.payment.findFirst({
+      where: {
+        user_id: subscription.user_id,
+        plan_type: subscription.plan_type,
+        status: PaymentStatus.COMPLETED,
+      },
+      orderBy: { created_at: 'desc' },
+    });
+    if (!payment || subscription.is_lifetime || !subscription.expires_at) {
+      throw new BadRequestException(
+        `Subscription ${subscription.id} has no paid period to refund`,
+      );
+    }
+
+    const plan = await this.plansService.getPlan(subscription.plan_type);
+    const period = this.plansService.getBillingPeriod(plan);
+    if (period.interval === BillingInterval.LIFETIME) {
+      throw new BadRequestException(
+        `Lifetime plan ${plan.code} can't be refunded pro rata`,
+      );
+    }
+
+    const periodStart = addBillingPeriod(
+      subscription.expires_at,
+      { interval: period.interval, count: -period.count },
+      subscription.billing_anchor_day ??
+        getBillingAnchorDay(subscription.expires_at),
+    );
+    const remainingMs = Math.max(
+      0,
+      subscription.expires_at.getTime() - now.getTime(),
     );
+    const share = Math.min(
+      1,
+      remainingMs / (subscription.expires_at.getTime() - periodStart.getTime()),
+    );
+
+    return tx.subscriptionRefund.create({
+      data: {
+        subscription_id: subscription.id,
+        user_id: subscription.user_id,
+        payment_id: payment.id,
+        amount: Math.floor(payment.amount * share),
+        currency: payment.currency,
+        unused_days: Math.floor(remainingMs / DAY_MS),
+        reason: options.reason,
+        requested_by: options.requestedBy,
+      },
+    });
+  }
+
+  private async getSubscriptionOrThrow(id: string): Promise<Subscription> {
+    const subscription = await this.db.subscription.findUnique({
+      where: { id },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException(`Subscription ${id} not found`);
+    }
 
     return subscription;
   }
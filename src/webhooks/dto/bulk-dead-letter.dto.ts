@@ -0,0 +1,17 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { WebhookEventFilterDto } from './webhook-event-filter.dto';
+
+/**
+ * Bulk Dead Letter DTO - requeue or discard every EXHAUSTED event
+ * matching the filters
+ *
+ * Same filters as the event browser (GET /admin/webhook-events), so a
+ * batch can be previewed there first. No filters = the whole queue.
+ */
+export class BulkDeadLetterDto extends WebhookEventFilterDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string; // Kept on each event's audit record
+}
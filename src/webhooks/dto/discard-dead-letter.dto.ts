@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Discard Dead Letter DTO - drop one EXHAUSTED event for good
+ */
+export class DiscardDeadLetterDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string; // Why it was discarded (kept on the audit record)
+}
@@ -0,0 +1,27 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { WebhookStatus } from '@prisma/client';
+import { WebhookEventFilterDto } from './webhook-event-filter.dto';
+
+/**
+ * List Webhook Events Query - filters for the admin event browser
+ *
+ * All filters are optional and combined with AND.
+ * Pagination: pass `nextCursor` from the previous page as `cursor`.
+ */
+export class ListWebhookEventsQueryDto extends WebhookEventFilterDto {
+  @IsEnum(WebhookStatus)
+  @IsOptional()
+  status?: WebhookStatus;
+
+  @IsUUID()
+  @IsOptional()
+  cursor?: string; // Id of the last event on the previous page
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number; // Page size (default 20)
+}
@@ -0,0 +1,10 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+/**
+ * Replay Webhook Event DTO - options for a manual replay
+ */
+export class ReplayWebhookEventDto {
+  @IsBoolean()
+  @IsOptional()
+  force?: boolean; // Reprocess even if already PROCESSED/IGNORED/REJECTED/DISCARDED (default false)
+}
@@ -0,0 +1,29 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { WebhookPayloadDto } from './webhook-payload.dto';
+
+/**
+ * Requeue Dead Letter DTO - requeue one EXHAUSTED event
+ *
+ * `payload` (optional) replaces the stored payload before requeueing
+ * (edit-then-requeue). It is validated like a new delivery and must keep
+ * the same externalPaymentId and eventType (the idempotency key).
+ */
+export class RequeueDeadLetterDto {
+  @ValidateNested()
+  @Type(() => WebhookPayloadDto)
+  @IsOptional()
+  payload?: WebhookPayloadDto;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string; // Why it was requeued (kept on the audit record)
+}
@@ -0,0 +1,37 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+/**
+ * Webhook Event Filter DTO - filters shared by the admin event browser
+ * and the dead-letter bulk operations
+ *
+ * All filters are optional and combined with AND.
+ */
+export class WebhookEventFilterDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  eventType?: string; // e.g., "payment.success"
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  externalPaymentId?: string;
+
+  @IsDateString()
+  @IsOptional()
+  from?: string; // created_at >= from (ISO 8601)
+
+  @IsDateString()
+  @IsOptional()
+  to?: string; // created_at <= to (ISO 8601)
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  error?: string; // Case-insensitive match inside processing_error
+}
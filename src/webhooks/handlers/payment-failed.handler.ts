@@ -0,0 +1,75 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PaymentStatus, Prisma } from '@prisma/client';
+import {
+  IWebhookEventHandler,
+  IWebhookHandlerContext,
+  IWebhookHandlerResult,
+} from '../interfaces/webhook-handler.interface';
+import { WebhookEventType } from './webhook-event-types';
+import { upsertPaymentFromWebhook } from './payment-record';
+import { SubscriptionDunningService } from '../../subscriptions/subscription-dunning.service';
+
+/**
+ * payment.failed
+ *
+ * Records a FAILED payment. A failed renewal puts the user's subscription
+ * for the plan into PAST_DUE with a grace period (see
+ * SubscriptionDunningService) instead of letting it silently expire.
+ *
+ * EDGE CASE: Failure arrives after the payment already settled
+ * (out-of-order delivery) → keep the settled status
+ */
+@Injectable()
+export class PaymentFailedHandler implements IWebhookEventHandler {
+  private readonly logger = new Logger(PaymentFailedHandler.name);
+
+  readonly eventType = WebhookEventType.PAYMENT_FAILED;
+  readonly requiresUser = true;
+  readonly checksAmount = false;
+
+  constructor(private readonly dunningService: SubscriptionDunningService) {}
+
+  async handle(
+    tx: Prisma.TransactionClient,
+    { userId, payload, traceId }: IWebhookHandlerContext,
+  ): Promise<IWebhookHandlerResult> {
+    const existing = await tx.payment.findUnique({
+      where: { external_payment_id: payload.externalPaymentId },
+    });
+
+    if (
+      existing?.status === PaymentStatus.COMPLETED ||
+      existing?.status === PaymentStatus.REFUNDED
+    ) {
+      this.logger.warn(
+        `[${traceId}] Ignoring failure for settled payment ${existing.id} (${existing.status})`,
+      );
+      return { paymentId: existing.id };
+    }
+
+    const payment = await upsertPaymentFromWebhook(
+      tx,
+      userId!,
+      payload,
+      PaymentStatus.FAILED,
+    );
+
+    this.logger.log(`[${traceId}] Payment marked as failed: ${payment.id}`);
+
+    const subscription = await this.dunningService.markPastDue(
+      userId!,
+      payload.planType,
+      payment.id,
+      tx,
+    );
+
+    if (subscription) {
+      this.logger.warn(
+        `[${traceId}] Renewal failed - subscription ${subscription.id} is past due until ${subscription.grace_ends_at!.toISOString()}`,
+      );
+      return { paymentId: payment.id, subscriptionId: subscription.id };
+    }
+
+    return { paymentId: payment.id };
+  }
+}
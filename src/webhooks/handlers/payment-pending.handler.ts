@@ -0,0 +1,54 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PaymentStatus, Prisma } from '@prisma/client';
+import {
+  IWebhookEventHandler,
+  IWebhookHandlerContext,
+  IWebhookHandlerResult,
+} from '../interfaces/webhook-handler.interface';
+import { WebhookEventType } from './webhook-event-types';
+import { upsertPaymentFromWebhook } from './payment-record';
+
+/**
+ * payment.pending
+ *
+ * Records a PENDING payment - subscription is only activated once the
+ * matching payment.success arrives
+ *
+ * EDGE CASE: Pending arrives after the payment already settled or failed
+ * (out-of-order delivery) → keep the final status
+ */
+@Injectable()
+export class PaymentPendingHandler implements IWebhookEventHandler {
+  private readonly logger = new Logger(PaymentPendingHandler.name);
+
+  readonly eventType = WebhookEventType.PAYMENT_PENDING;
+  readonly requiresUser = true;
+  readonly checksAmount = false;
+
+  async handle(
+    tx: Prisma.TransactionClient,
+    { userId, payload, traceId }: IWebhookHandlerContext,
+  ): Promise<IWebhookHandlerResult> {
+    const existing = await tx.payment.findUnique({
+      where: { external_payment_id: payload.externalPaymentId },
+    });
+
+    if (existing && existing.status !== PaymentStatus.PENDING) {
+      this.logger.warn(
+        `[${traceId}] Ignoring pending event for payment ${existing.id} (${existing.status})`,
+      );
+      return { paymentId: existing.id };
+    }
+
+    const payment = await upsertPaymentFromWebhook(
+      tx,
+      userId!,
+      payload,
+      PaymentStatus.PENDING,
+    );
+
+    this.logger.log(`[${traceId}] Payment recorded as pending: ${payment.id}`);
+
+    return { paymentId: payment.id };
+  }
+}
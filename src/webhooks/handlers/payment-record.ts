@@ -0,0 +1,36 @@
+import { PaymentStatus, Prisma } from '@prisma/client';
+import { WebhookPayloadDto } from '../dto/webhook-payload.dto';
+
+/**
+ * Create or update the payment for a webhook (keyed by external_payment_id)
+ *
+ * The same external payment moves through several events
+ * (e.g. payment.pending → payment.success), so payments are upserted
+ * instead of created.
+ */
+export function upsertPaymentFromWebhook(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  payload: WebhookPayloadDto,
+  status: PaymentStatus,
+) {
+  const data = {
+    amount: payload.amount,
+    currency: payload.currency,
+    plan_type: payload.planType,
+    payment_method: payload.paymentMethod,
+    provider: payload.provider,
+    status,
+    metadata: payload.metadata as Prisma.InputJsonValue,
+  };
+
+  return tx.payment.upsert({
+    where: { external_payment_id: payload.externalPaymentId },
+    create: {
+      ...data,
+      user_id: userId,
+      external_payment_id: payload.externalPaymentId,
+    },
+    update: data,
+  });
+}
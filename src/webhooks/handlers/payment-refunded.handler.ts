@@ -0,0 +1,333 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BillingInterval,
+  Payment,
+  PaymentStatus,
+  Prisma,
+  Subscription,
+  SubscriptionPeriod,
+  SubscriptionPeriodReason,
+  SubscriptionStatus,
+} from '@prisma/client';
+import {
+  IWebhookEventHandler,
+  IWebhookHandlerContext,
+  IWebhookHandlerResult,
+} from '../interfaces/webhook-handler.interface';
+import { WebhookEventType } from './webhook-event-types';
+import { SubscriptionsService } from '../../subscriptions/subscriptions.service';
+import {
+  addBillingPeriod,
+  getBillingAnchorDay,
+  IBillingPeriod,
+} from '../../subscriptions/billing-period';
+
+/**
+ * payment.refunded
+ *
+ * Marks the original payment REFUNDED and takes back the subscription time
+ * it bought: the length of the SubscriptionPeriods the payment paid for
+ * (so a prorated payment only loses its prorated days), which are marked
+ * revoked. If that leaves no time, the subscription is EXPIRED.
+ *
+ * Days credited from this payment's plan on an upgrade are linked to the
+ * payment too and are taken back from the new plan's subscription - the
+ * refund can't keep both the money and the credit.
+ *
+ * On a PAUSED subscription the frozen time left (the open pause) is
+ * shortened instead, so resuming doesn't bring the refunded time back.
+ * Refunding a lifetime purchase ends the lifetime subscription right away.
+ * Refunding a downgrade that hasn't started yet just cancels the downgrade.
+ *
+ * EDGE CASE: Refund arrives before the payment is known → throws so the
+ * event is reported as failed and can be retried later
+ *
+ * EDGE CASE: Payment from before periods were recorded → one plan period
+ * is taken back (calendar units from the billing anchor day)
+ */
+@Injectable()
+export class PaymentRefundedHandler implements IWebhookEventHandler {
+  private readonly logger = new Logger(PaymentRefundedHandler.name);
+
+  readonly eventType = WebhookEventType.PAYMENT_REFUNDED;
+  readonly requiresUser = false;
+  readonly checksAmount = false;
+
+  constructor(private readonly subscriptionsService: SubscriptionsService) {}
+
+  async handle(
+    tx: Prisma.TransactionClient,
+    { payload, traceId, period }: IWebhookHandlerContext,
+  ): Promise<IWebhookHandlerResult> {
+    const payment = await tx.payment.findUnique({
+      where: { external_payment_id: payload.externalPaymentId },
+    });
+
+    if (!payment) {
+      this.logger.error(
+        `[${traceId}] Refund for unknown payment: ${payload.externalPaymentId}`,
+      );
+      throw new NotFoundException(
+        `Payment ${payload.externalPaymentId} not found for refund`,
+      );
+    }
+
+    const wasCompleted = payment.status === PaymentStatus.COMPLETED;
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: { status: PaymentStatus.REFUNDED },
+    });
+
+    this.logger.log(`[${traceId}] Payment refunded: ${payment.id}`);
+
+    // Only a completed payment granted subscription time
+    if (!wasCompleted) {
+      return { paymentId: payment.id };
+    }
+
+    const now = new Date();
+
+    const boughtPeriods = await tx.subscriptionPeriod.findMany({
+      where: { payment_id: payment.id, revoked_at: null },
+    });
+    await tx.subscriptionPeriod.updateMany({
+      where: { payment_id: payment.id, revoked_at: null },
+      data: { revoked_at: now },
+    });
+    await this.revokeUpgradeCredit(tx, payment, boughtPeriods, now, traceId);
+
+    // Payment bought a scheduled downgrade - no time was granted yet
+    const cancelledChanges =
+      await this.subscriptionsService.cancelScheduledPlanChanges(
+        payment.id,
+        tx,
+      );
+    if (cancelledChanges > 0) {
+      return { paymentId: payment.id };
+    }
+
+    const subscription = await tx.subscription.findUnique({
+      where: {
+        user_id_plan_type: {
+          user_id: payment.user_id,
+          plan_type: payment.plan_type,
+        },
+      },
+    });
+
+    if (period.interval === BillingInterval.LIFETIME) {
+      if (!subscription?.is_lifetime) {
+        return { paymentId: payment.id };
+      }
+
+      const revoked = await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          status: SubscriptionStatus.EXPIRED,
+          is_lifetime: false,
+          expires_at: now,
+        },
+      });
+
+      this.logger.log(
+        `[${traceId}] Lifetime subscription ${revoked.id} ended after refund`,
+      );
+
+      return {
+        paymentId: payment.id,
+        subscriptionId: revoked.id,
+        userId: payment.user_id,
+      };
+    }
+
+    // Lifetime subscriptions (no expires_at) keep their access
+    if (!subscription?.expires_at) {
+      return { paymentId: payment.id };
+    }
+
+    const newExpiry = this.getExpiryWithoutPayment(
+      subscription,
+      subscription.expires_at,
+      boughtPeriods,
+      period,
+    );
+
+    const updated = await this.takeBackTime(
+      tx,
+      subscription,
+      subscription.expires_at.getTime() - newExpiry.getTime(),
+      now,
+      traceId,
+    );
+
+    return {
+      paymentId: payment.id,
+      subscriptionId: updated.id,
+      userId: payment.user_id,
+    };
+  }
+
+  /**
+   * Days credited from the refunded payment's plan on an upgrade - they
+   * live on the new plan's subscription, not on the refunded one
+   */
+  private async revokeUpgradeCredit(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+    boughtPeriods: SubscriptionPeriod[],
+    now: Date,
+    traceId: string,
+  ) {
+    const credits = boughtPeriods.filter(
+      (bought) =>
+        bought.reason === SubscriptionPeriodReason.UPGRADE &&
+        bought.plan_type !== payment.plan_type,
+    );
+
+    for (const credit of credits) {
+      const subscription = await tx.subscription.findUnique({
+        where: { id: credit.subscription_id },
+      });
+      // Lifetime (or gone) - no expiry to take the credit off
+      if (!subscription?.expires_at) {
+        continue;
+      }
+
+      await this.takeBackTime(
+        tx,
+        subscription,
+        (credit.ends_at ?? credit.starts_at).getTime() -
+          credit.starts_at.getTime(),
+        now,
+        traceId,
+      );
+      this.logger.log(
+        `[${traceId}] Upgrade credit on ${subscription.plan_type} taken back with refunded payment ${payment.id}`,
+      );
+    }
+  }
+
+  /**
+   * Shorten a subscription by the refunded time - EXPIRED if nothing is
+   * left. A PAUSED one loses the time from its open pause instead.
+   */
+  private async takeBackTime(
+    tx: Prisma.TransactionClient,
+    subscription: Subscription,
+    refundedMs: number,
+    now: Date,
+    traceId: string,
+  ): Promise<Subscription> {
+    if (subscription.status === SubscriptionStatus.PAUSED) {
+      return this.shortenPause(tx, subscription, refundedMs, now, traceId);
+    }
+
+    const newExpiry = new Date(subscription.expires_at!.getTime() - refundedMs);
+    const hasTimeLeft = newExpiry > now;
+
+    const updated = await tx.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        expires_at: hasTimeLeft ? newExpiry : now,
+        ...(hasTimeLeft ? {} : { status: SubscriptionStatus.EXPIRED }),
+      },
+    });
+
+    this.logger.log(
+      `[${traceId}] Subscription ${updated.id} shortened to ${updated.expires_at?.toISOString()} after refund`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * Refund on a PAUSED subscription - the time left lives on the open
+   * pause (remaining_seconds), resuming restores exactly that
+   *
+   * CRITICAL: Shortening only expires_at isn't enough - resumePaused()
+   * would bring the refunded time back. No time left → the pause is
+   * closed and the subscription EXPIRED, so nothing resumes it.
+   */
+  private async shortenPause(
+    tx: Prisma.TransactionClient,
+    subscription: Subscription,
+    refundedMs: number,
+    now: Date,
+    traceId: string,
+  ): Promise<Subscription> {
+    const pause = await tx.subscriptionPause.findFirst({
+      where: { subscription_id: subscription.id, ended_at: null },
+      orderBy: { paused_at: 'desc' },
+    });
+    const remainingSeconds =
+      (pause?.remaining_seconds ?? 0) - Math.ceil(refundedMs / 1000);
+
+    if (pause && remainingSeconds > 0) {
+      await tx.subscriptionPause.update({
+        where: { id: pause.id },
+        data: { remaining_seconds: remainingSeconds },
+      });
+      const updated = await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          expires_at: new Date(subscription.expires_at!.getTime() - refundedMs),
+        },
+      });
+
+      this.logger.log(
+        `[${traceId}] Paused subscription ${updated.id} keeps ${remainingSeconds}s after refund`,
+      );
+
+      return updated;
+    }
+
+    if (pause) {
+      await tx.subscriptionPause.update({
+        where: { id: pause.id },
+        data: { ended_at: now },
+      });
+    }
+    const expired = await tx.subscription.update({
+      where: { id: subscription.id },
+      data: { status: SubscriptionStatus.EXPIRED, expires_at: now },
+    });
+
+    this.logger.log(
+      `[${traceId}] Paused subscription ${expired.id} expired after refund`,
+    );
+
+    return expired;
+  }
+
+  /**
+   * expires_at minus the time the refunded payment bought on this
+   * subscription
+   */
+  private getExpiryWithoutPayment(
+    subscription: Subscription,
+    expiresAt: Date,
+    boughtPeriods: SubscriptionPeriod[],
+    period: IBillingPeriod,
+  ): Date {
+    if (boughtPeriods.length === 0) {
+      return addBillingPeriod(
+        expiresAt,
+        { ...period, count: -period.count },
+        subscription.billing_anchor_day ?? getBillingAnchorDay(expiresAt),
+      );
+    }
+
+    const boughtMs = boughtPeriods
+      .filter((bought) => bought.subscription_id === subscription.id)
+      .reduce(
+        (total, bought) =>
+          total +
+          ((bought.ends_at ?? bought.starts_at).getTime() -
+            bought.starts_at.getTime()),
+        0,
+      );
+
+    return new Date(expiresAt.getTime() - boughtMs);
+  }
+}
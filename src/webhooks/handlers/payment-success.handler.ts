@@ -0,0 +1,73 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PaymentStatus, Prisma } from '@prisma/client';
+import { SubscriptionsService } from '../../subscriptions/subscriptions.service';
+import {
+  IWebhookEventHandler,
+  IWebhookHandlerContext,
+  IWebhookHandlerResult,
+} from '../interfaces/webhook-handler.interface';
+import { WebhookEventType } from './webhook-event-types';
+import { upsertPaymentFromWebhook } from './payment-record';
+
+/**
+ * payment.success
+ *
+ * Records a COMPLETED payment and activates/extends the subscription
+ *
+ * CRITICAL: Renewal goes through SubscriptionsService (inside the webhook
+ * transaction) - an early renewal extends from the current expiry instead
+ * of resetting it to now + duration, and paying for another plan while one
+ * is active is handled as an upgrade/downgrade
+ *
+ * EDGE CASE: Success arrives after the payment was refunded (out-of-order
+ * delivery) → keep it REFUNDED, no subscription time is granted
+ */
+@Injectable()
+export class PaymentSuccessHandler implements IWebhookEventHandler {
+  private readonly logger = new Logger(PaymentSuccessHandler.name);
+
+  readonly eventType = WebhookEventType.PAYMENT_SUCCESS;
+  readonly requiresUser = true;
+  readonly checksAmount = true;
+
+  constructor(private readonly subscriptionsService: SubscriptionsService) {}
+
+  async handle(
+    tx: Prisma.TransactionClient,
+    { userId, payload, traceId, period }: IWebhookHandlerContext,
+  ): Promise<IWebhookHandlerResult> {
+    const existing = await tx.payment.findUnique({
+      where: { external_payment_id: payload.externalPaymentId },
+    });
+
+    if (existing?.status === PaymentStatus.REFUNDED) {
+      this.logger.warn(
+        `[${traceId}] Ignoring success for refunded payment ${existing.id}`,
+      );
+      return { paymentId: existing.id };
+    }
+
+    // Step 1: Create (or complete a pending) payment record
+    const payment = await upsertPaymentFromWebhook(
+      tx,
+      userId!,
+      payload,
+      PaymentStatus.COMPLETED,
+    );
+
+    this.logger.log(`[${traceId}] Payment created: ${payment.id}`);
+
+    // Step 2: Activate/extend subscription (or change plan)
+    const subscription = await this.subscriptionsService.activatePurchasedPlan(
+      userId!,
+      payload.planType,
+      period,
+      { paymentId: payment.id, currency: payload.currency },
+      tx,
+    );
+
+    this.logger.log(`[${traceId}] Subscription activated: ${subscription.id}`);
+
+    return { paymentId: payment.id, subscriptionId: subscription.id };
+  }
+}
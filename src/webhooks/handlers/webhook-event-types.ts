@@ -0,0 +1,11 @@
+/**
+ * Webhook event types with built-in handlers
+ *
+ * Any other event type is stored and acknowledged, but not processed
+ */
+export const WebhookEventType = {
+  PAYMENT_SUCCESS: 'payment.success',
+  PAYMENT_FAILED: 'payment.failed',
+  PAYMENT_PENDING: 'payment.pending',
+  PAYMENT_REFUNDED: 'payment.refunded',
+} as const;
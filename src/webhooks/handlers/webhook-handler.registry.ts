@@ -0,0 +1,49 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IWebhookEventHandler } from '../interfaces/webhook-handler.interface';
+import { PaymentSuccessHandler } from './payment-success.handler';
+import { PaymentFailedHandler } from './payment-failed.handler';
+import { PaymentPendingHandler } from './payment-pending.handler';
+import { PaymentRefundedHandler } from './payment-refunded.handler';
+
+/**
+ * Webhook Handler Registry
+ *
+ * Maps event type → handler. Built-in payment handlers are registered on
+ * construction; other modules can add handlers with `register()`.
+ */
+@Injectable()
+export class WebhookHandlerRegistry {
+  private readonly logger = new Logger(WebhookHandlerRegistry.name);
+  private readonly handlers = new Map<string, IWebhookEventHandler>();
+
+  constructor(
+    paymentSuccessHandler: PaymentSuccessHandler,
+    paymentFailedHandler: PaymentFailedHandler,
+    paymentPendingHandler: PaymentPendingHandler,
+    paymentRefundedHandler: PaymentRefundedHandler,
+  ) {
+    [
+      paymentSuccessHandler,
+      paymentFailedHandler,
+      paymentPendingHandler,
+      paymentRefundedHandler,
+    ].forEach((handler) => this.register(handler));
+  }
+
+  /**
+   * Register a handler (replaces any existing handler for the event type)
+   */
+  register(handler: IWebhookEventHandler) {
+    if (this.handlers.has(handler.eventType)) {
+      this.logger.warn(`Replacing handler for ${handler.eventType}`);
+    }
+    this.handlers.set(handler.eventType, handler);
+  }
+
+  /**
+   * Get handler for event type (undefined if event type is not handled)
+   */
+  get(eventType: string): IWebhookEventHandler | undefined {
+    return this.handlers.get(eventType);
+  }
+}
@@ -0,0 +1,50 @@
+import { Prisma } from '@prisma/client';
+import { WebhookPayloadDto } from '../dto/webhook-payload.dto';
+import { IBillingPeriod } from '../../subscriptions/billing-period';
+
+/**
+ * Webhook Handler Context
+ *
+ * Everything a handler needs to apply one webhook event
+ */
+export interface IWebhookHandlerContext {
+  webhookEventId: string;
+  payload: WebhookPayloadDto;
+  traceId: string;
+  userId?: string; // Only set when handler.requiresUser is true
+  period: IBillingPeriod; // Subscription time to grant (plan catalog + amount policy)
+}
+
+/**
+ * Webhook Handler Result
+ *
+ * Records touched by the handler (returned to the caller for logging)
+ */
+export interface IWebhookHandlerResult {
+  paymentId?: string;
+  subscriptionId?: string;
+  userId?: string; // Owner of the subscription, when the handler didn't need a user
+}
+
+/**
+ * Webhook Event Handler
+ *
+ * One handler per event type (e.g. "payment.success"). Runs INSIDE the
+ * webhook transaction - all writes must go through `tx` so they commit or
+ * roll back together with the webhook status update.
+ */
+export interface IWebhookEventHandler {
+  readonly eventType: string;
+
+  // Whether the paying user must be resolved (found or created by email)
+  readonly requiresUser: boolean;
+
+  // Whether the paid amount is checked against the plan price
+  // (events that grant subscription time - see AmountMismatchPolicy)
+  readonly checksAmount: boolean;
+
+  handle(
+    tx: Prisma.TransactionClient,
+    context: IWebhookHandlerContext,
+  ): Promise<IWebhookHandlerResult>;
+}
@@ -1,3 +1,6 @@
+import { PaymentReviewReason } from '@prisma/client';
+import { IBillingPeriod } from '../../subscriptions/billing-period';
+
 /**
  * Webhook Response Interface
  *
@@ -18,7 +21,64 @@ export interface IWebhookResponse {
 export interface IWebhookProcessingResult {
   success: boolean;
   isDuplicate: boolean;
+  inProgress?: boolean; // Duplicate of a delivery another worker is processing
+  conflict?: boolean; // Same idempotency key, different payload - not processed
+  ignored?: boolean; // Event type has no handler - stored but not processed
+  rejected?: boolean; // Refused by the plan's amount policy - stored, final
+  queued?: boolean; // Async mode - stored for the queue worker
+  webhookEventId?: string;
   paymentId?: string;
   subscriptionId?: string;
   error?: string;
 }
+
+/**
+ * Webhook Claim
+ *
+ * Exclusive right to process a webhook event (status PROCESSING) until
+ * the lease expires. Writes that finish processing check lease_owner, so
+ * a worker whose lease was taken over cannot overwrite the new owner.
+ */
+export interface IWebhookClaim {
+  webhookEventId: string;
+  leaseOwner: string;
+}
+
+/**
+ * Webhook Processing Options
+ *
+ * See WebhooksService.processWebhook()
+ */
+export interface IWebhookProcessingOptions {
+  claim?: IWebhookClaim; // Event already claimed by the caller (queue worker)
+  force?: boolean; // Manual replay - skip the idempotency check
+}
+
+/**
+ * Webhook Claim Result
+ *
+ * Outcome of trying to claim an incoming delivery
+ */
+export type WebhookClaimResult =
+  | { claimed: true; claim: IWebhookClaim }
+  | {
+      claimed: false;
+      webhookEventId: string;
+      inProgress: boolean;
+      conflict?: boolean;
+    };
+
+/**
+ * Amount Policy Decision
+ *
+ * Outcome of the plan's amount mismatch policy for one payment
+ */
+export interface IAmountPolicyDecision {
+  period: IBillingPeriod; // Subscription time to grant
+  rejection?: string; // Set → payment refused (REJECT policy), nothing granted
+  review?: {
+    // Set → payment goes to the review queue
+    reason: PaymentReviewReason;
+    expectedAmount: number | null;
+  };
+}
@@ -0,0 +1,306 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { WebhookDeadLetterService } from './webhook-dead-letter.service';
+import { DatabaseService } from '../database/database.service';
+import { computePayloadHash } from './webhook-payload-hash';
+
+describe('WebhookDeadLetterService', () => {
+  let service: WebhookDeadLetterService;
+  let db: jest.Mocked<any>;
+
+  const storedPayload = {
+    externalPaymentId: 'pay_ext_123',
+    eventType: 'payment.success',
+    email: 'test@example.com',
+    amount: 999,
+    currency: 'USD',
+    planType: 'monthly',
+  };
+
+  const deadLetter = {
+    id: 'event-id',
+    external_payment_id: 'pay_ext_123',
+    event_type: 'payment.success',
+    status: 'EXHAUSTED',
+    payload: storedPayload,
+    retry_count: 5,
+  };
+
+  async function createService(config: Record<string, unknown> = {}) {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDeadLetterService,
+        { provide: DatabaseService, useValue: db },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<WebhookDeadLetterService>(WebhookDeadLetterService);
+  }
+
+  beforeEach(async () => {
+    db = {
+      webhookEvent: {
+        findUnique: jest.fn().mockResolvedValue(deadLetter),
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        aggregate: jest.fn(),
+        count: jest.fn(),
+        groupBy: jest.fn(),
+      },
+      webhookDeadLetterAction: {
+        create: jest.fn((args: any) =>
+          Promise.resolve({ id: 'action-id', ...args.data }),
+        ),
+        groupBy: jest.fn(),
+      },
+      $transaction: jest.fn((fn: any) => fn(db)),
+    };
+
+    service = await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('requeueEvent', () => {
+    it('should move the event back to RECEIVED with a fresh retry budget', async () => {
+      const action = await service.requeueEvent('event-id', {
+        performedBy: 'support-alice',
+        reason: 'Provider outage over',
+      });
+
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledWith({
+        where: { id: 'event-id', status: 'EXHAUSTED' },
+        data: {
+          status: 'RECEIVED',
+          retry_count: 0,
+          dead_lettered_at: null,
+          lease_owner: null,
+          lease_expires_at: null,
+        },
+      });
+      expect(action).toMatchObject({
+        webhook_event_id: 'event-id',
+        action: 'REQUEUE',
+        performed_by: 'support-alice',
+        reason: 'Provider outage over',
+        previous_payload: undefined,
+      });
+    });
+
+    it('should replace the payload and keep the original on the audit record', async () => {
+      const editedPayload = { ...storedPayload, planType: 'yearly' };
+
+      const action = await service.requeueEvent('event-id', {
+        performedBy: 'support-alice',
+        payload: editedPayload,
+      });
+
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            payload: editedPayload,
+            payload_hash: computePayloadHash(editedPayload),
+          }),
+        }),
+      );
+      expect(action.previous_payload).toEqual(storedPayload);
+    });
+
+    it('should reject an edit that changes the idempotency key', async () => {
+      await expect(
+        service.requeueEvent('event-id', {
+          performedBy: 'support-alice',
+          payload: { ...storedPayload, externalPaymentId: 'pay_other' },
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(db.webhookEvent.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject an event that is not dead-lettered', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        ...deadLetter,
+        status: 'PROCESSED',
+      });
+
+      await expect(
+        service.requeueEvent('event-id', { performedBy: 'support-alice' }),
+      ).rejects.toThrow('is not in the dead-letter queue (status PROCESSED)');
+    });
+
+    it('should reject when the event left the queue concurrently', async () => {
+      db.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.requeueEvent('event-id', { performedBy: 'support-alice' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(db.webhookDeadLetterAction.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown event', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.requeueEvent('missing-id', { performedBy: 'support-alice' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('discardEvent', () => {
+    it('should mark the event DISCARDED and record who did it', async () => {
+      const action = await service.discardEvent('event-id', {
+        performedBy: 'support-alice',
+        reason: 'Test payment',
+      });
+
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledWith({
+        where: { id: 'event-id', status: 'EXHAUSTED' },
+        data: { status: 'DISCARDED' },
+      });
+      expect(action).toMatchObject({
+        action: 'DISCARD',
+        performed_by: 'support-alice',
+        reason: 'Test payment',
+      });
+    });
+  });
+
+  describe('bulk operations', () => {
+    it('should only select dead letters matching the filters', async () => {
+      await service.requeueMatching(
+        { eventType: 'payment.success', error: 'timeout' },
+        { performedBy: 'support-alice' },
+      );
+
+      expect(db.webhookEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          event_type: 'payment.success',
+          processing_error: { contains: 'timeout', mode: 'insensitive' },
+          status: 'EXHAUSTED',
+        },
+        orderBy: { created_at: 'asc' },
+        take: 501,
+      });
+    });
+
+    it('should requeue each match and count the ones that left the queue meanwhile', async () => {
+      db.webhookEvent.findMany.mockResolvedValue([
+        deadLetter,
+        { ...deadLetter, id: 'event-2' },
+      ]);
+      db.webhookEvent.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const result = await service.requeueMatching(
+        {},
+        { performedBy: 'support-alice' },
+      );
+
+      expect(result).toEqual({
+        matched: 2,
+        requeued: 1,
+        skipped: 1,
+        hasMore: false,
+      });
+      expect(db.webhookDeadLetterAction.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should discard each match with the shared reason', async () => {
+      db.webhookEvent.findMany.mockResolvedValue([deadLetter]);
+
+      const result = await service.discardMatching(
+        { externalPaymentId: 'pay_ext_123' },
+        { performedBy: 'support-alice', reason: 'Sandbox traffic' },
+      );
+
+      expect(result).toEqual({
+        matched: 1,
+        discarded: 1,
+        skipped: 0,
+        hasMore: false,
+      });
+      expect(db.webhookDeadLetterAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'DISCARD',
+          reason: 'Sandbox traffic',
+        }),
+      });
+    });
+
+    it('should report hasMore when more than one batch matches', async () => {
+      db.webhookEvent.findMany.mockResolvedValue(
+        Array.from({ length: 501 }, (_, i) => ({ ...deadLetter, id: `e${i}` })),
+      );
+
+      const result = await service.discardMatching(
+        {},
+        { performedBy: 'support-alice' },
+      );
+
+      expect(result.matched).toBe(500);
+      expect(result.hasMore).toBe(true);
+    });
+  });
+
+  describe('getSummary', () => {
+    beforeEach(() => {
+      db.webhookEvent.aggregate.mockResolvedValue({
+        _count: { _all: 3 },
+        _min: { dead_lettered_at: new Date('2026-05-30T08:00:00Z') },
+      });
+      db.webhookEvent.count.mockResolvedValue(1);
+      db.webhookEvent.groupBy.mockResolvedValue([
+        { event_type: 'payment.success', _count: { _all: 2 } },
+        { event_type: 'payment.refunded', _count: { _all: 1 } },
+      ]);
+      db.webhookDeadLetterAction.groupBy.mockResolvedValue([
+        { action: 'DISCARD', _count: { _all: 4 } },
+      ]);
+    });
+
+    it('should count the queue and the last 24 hours of activity', async () => {
+      const now = new Date('2026-06-01T12:00:00Z');
+
+      const summary = await service.getSummary(now);
+
+      expect(summary).toEqual({
+        total: 3,
+        oldestDeadLetteredAt: new Date('2026-05-30T08:00:00Z'),
+        newLast24h: 1,
+        requeuedLast24h: 0,
+        discardedLast24h: 4,
+        byEventType: { 'payment.success': 2, 'payment.refunded': 1 },
+      });
+      expect(db.webhookEvent.count).toHaveBeenCalledWith({
+        where: {
+          status: 'EXHAUSTED',
+          dead_lettered_at: { gte: new Date('2026-05-31T12:00:00Z') },
+        },
+      });
+    });
+
+    it('should not run the daily summary when disabled', async () => {
+      const disabled = await createService({
+        WEBHOOK_DEAD_LETTER_SUMMARY_ENABLED: 'false',
+      });
+
+      await disabled.handleSummaryCron();
+
+      expect(db.webhookEvent.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the daily summary fails', async () => {
+      db.webhookEvent.aggregate.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.handleSummaryCron()).resolves.toBeUndefined();
+    });
+  });
+});
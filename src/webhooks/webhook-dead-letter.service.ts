@@ -0,0 +1,391 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Prisma,
+  WebhookDeadLetterActionType,
+  WebhookEvent,
+  WebhookStatus,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { WebhookPayloadDto } from './dto/webhook-payload.dto';
+import { WebhookEventFilterDto } from './dto/webhook-event-filter.dto';
+import { computePayloadHash } from './webhook-payload-hash';
+import { buildWebhookEventWhere } from './webhook-event-filter';
+
+// Max events touched by one bulk call - repeat the call for the rest
+const BULK_LIMIT = 500;
+
+const SUMMARY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Webhook Dead Letter Service - admin handling of EXHAUSTED events
+ *
+ * Events that still fail after all automatic retries are moved to
+ * EXHAUSTED by WebhookRetryService - that status IS the dead-letter queue.
+ * Nothing picks them up again on its own; an admin either:
+ * - requeues them (back to RECEIVED with a fresh retry budget),
+ *   optionally after fixing the stored payload (edit-then-requeue)
+ * - discards them (DISCARDED - acknowledged, never processed again)
+ *
+ * Requeued events are picked up by WebhookQueueService (async mode) or by
+ * WebhookRetryService once WEBHOOK_RETRY_STUCK_AFTER_SECONDS has passed
+ * (sync mode). For an immediate attempt use the replay endpoint instead.
+ *
+ * AUDIT: Every requeue/discard writes a WebhookDeadLetterAction (who,
+ * reason, payload before an edit) in the same transaction as the status
+ * change.
+ *
+ * A daily summary is logged so dead letters can't pile up unnoticed.
+ *
+ * Config (env):
+ * - WEBHOOK_DEAD_LETTER_SUMMARY_ENABLED (default true)
+ */
+@Injectable()
+export class WebhookDeadLetterService {
+  private readonly logger = new Logger(WebhookDeadLetterService.name);
+
+  private readonly summaryEnabled: boolean;
+
+  constructor(
+    private readonly db: DatabaseService,
+    configService: ConfigService,
+  ) {
+    this.summaryEnabled =
+      String(configService.get('WEBHOOK_DEAD_LETTER_SUMMARY_ENABLED')) !==
+      'false';
+  }
+
+  /**
+   * Requeue one dead letter, optionally replacing its payload
+   *
+   * EDGE CASE: the edited payload gets a new payload_hash, so a later
+   * provider redelivery of the ORIGINAL payload is reported as a conflict
+   * instead of overwriting the fix
+   */
+  async requeueEvent(
+    webhookEventId: string,
+    options: {
+      performedBy: string;
+      payload?: WebhookPayloadDto;
+      reason?: string;
+    },
+  ) {
+    const event = await this.findDeadLetter(webhookEventId);
+
+    if (options.payload) {
+      this.assertSameIdempotencyKey(event, options.payload);
+    }
+
+    const action = await this.requeue(event, options);
+    if (!action) {
+      throw this.notDeadLetteredError(webhookEventId);
+    }
+
+    this.logger.warn(
+      `Dead letter ${event.id} (${event.event_type}) requeued by ${options.performedBy}${options.payload ? ' - payload edited' : ''}`,
+    );
+
+    return action;
+  }
+
+  /**
+   * Discard one dead letter
+   */
+  async discardEvent(
+    webhookEventId: string,
+    options: { performedBy: string; reason?: string },
+  ) {
+    const event = await this.findDeadLetter(webhookEventId);
+
+    const action = await this.discard(event, options);
+    if (!action) {
+      throw this.notDeadLetteredError(webhookEventId);
+    }
+
+    this.logger.warn(
+      `Dead letter ${event.id} (${event.event_type}) discarded by ${options.performedBy}`,
+    );
+
+    return action;
+  }
+
+  /**
+   * Requeue every dead letter matching the filters (up to BULK_LIMIT)
+   *
+   * Events are handled one by one - an event requeued concurrently (or
+   * picked up by a provider redelivery) meanwhile is skipped, not failed
+   */
+  async requeueMatching(
+    filter: WebhookEventFilterDto,
+    options: { performedBy: string; reason?: string },
+  ) {
+    const { events, hasMore } = await this.findDeadLetters(filter);
+
+    let requeued = 0;
+    for (const event of events) {
+      if (await this.requeue(event, options)) {
+        requeued++;
+      }
+    }
+
+    this.logger.warn(
+      `${requeued} dead letter(s) requeued in bulk by ${options.performedBy}`,
+      { filter },
+    );
+
+    return {
+      matched: events.length,
+      requeued,
+      skipped: events.length - requeued,
+      hasMore,
+    };
+  }
+
+  /**
+   * Discard every dead letter matching the filters (up to BULK_LIMIT)
+   */
+  async discardMatching(
+    filter: WebhookEventFilterDto,
+    options: { performedBy: string; reason?: string },
+  ) {
+    const { events, hasMore } = await this.findDeadLetters(filter);
+
+    let discarded = 0;
+    for (const event of events) {
+      if (await this.discard(event, options)) {
+        discarded++;
+      }
+    }
+
+    this.logger.warn(
+      `${discarded} dead letter(s) discarded in bulk by ${options.performedBy}`,
+      { filter },
+    );
+
+    return {
+      matched: events.length,
+      discarded,
+      skipped: events.length - discarded,
+      hasMore,
+    };
+  }
+
+  /**
+   * Dead-letter queue size plus activity over the last 24 hours
+   */
+  async getSummary(now = new Date()) {
+    const since = new Date(now.getTime() - SUMMARY_WINDOW_MS);
+
+    const queue = await this.db.webhookEvent.aggregate({
+      where: { status: WebhookStatus.EXHAUSTED },
+      _count: { _all: true },
+      _min: { dead_lettered_at: true },
+    });
+
+    const newLast24h = await this.db.webhookEvent.count({
+      where: {
+        status: WebhookStatus.EXHAUSTED,
+        dead_lettered_at: { gte: since },
+      },
+    });
+
+    const byEventType = await this.db.webhookEvent.groupBy({
+      by: ['event_type'],
+      where: { status: WebhookStatus.EXHAUSTED },
+      _count: { _all: true },
+    });
+
+    const actions = await this.db.webhookDeadLetterAction.groupBy({
+      by: ['action'],
+      where: { created_at: { gte: since } },
+      _count: { _all: true },
+    });
+
+    const countActions = (type: WebhookDeadLetterActionType) =>
+      actions.find((a) => a.action === type)?._count._all ?? 0;
+
+    return {
+      total: queue._count._all,
+      oldestDeadLetteredAt: queue._min.dead_lettered_at,
+      newLast24h,
+      requeuedLast24h: countActions(WebhookDeadLetterActionType.REQUEUE),
+      discardedLast24h: countActions(WebhookDeadLetterActionType.DISCARD),
+      byEventType: Object.fromEntries(
+        byEventType.map((g) => [g.event_type, g._count._all]),
+      ),
+    };
+  }
+
+  /**
+   * Scheduled daily summary
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_9AM, {
+    name: 'webhook-dead-letter-summary',
+  })
+  async handleSummaryCron() {
+    if (!this.summaryEnabled) {
+      return;
+    }
+
+    try {
+      const summary = await this.getSummary();
+
+      if (summary.total === 0) {
+        this.logger.log('Dead-letter queue is empty');
+        return;
+      }
+
+      this.logger.warn(
+        `Dead-letter queue: ${summary.total} event(s) waiting for review (${summary.newLast24h} new, ${summary.requeuedLast24h} requeued, ${summary.discardedLast24h} discarded in the last 24h)`,
+        summary,
+      );
+    } catch (error: unknown) {
+      this.logger.error(
+        'Dead-letter summary failed',
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
+
+  private async findDeadLetter(webhookEventId: string): Promise<WebhookEvent> {
+    const event = await this.db.webhookEvent.findUnique({
+      where: { id: webhookEventId },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Webhook event ${webhookEventId} not found`);
+    }
+    if (event.status !== WebhookStatus.EXHAUSTED) {
+      throw this.notDeadLetteredError(webhookEventId, event.status);
+    }
+
+    return event;
+  }
+
+  private async findDeadLetters(filter: WebhookEventFilterDto) {
+    const events = await this.db.webhookEvent.findMany({
+      where: {
+        ...buildWebhookEventWhere(filter),
+        status: WebhookStatus.EXHAUSTED,
+      },
+      orderBy: { created_at: 'asc' },
+      take: BULK_LIMIT + 1,
+    });
+
+    return {
+      events: events.slice(0, BULK_LIMIT),
+      hasMore: events.length > BULK_LIMIT,
+    };
+  }
+
+  /**
+   * Move one event back to RECEIVED with a fresh retry budget
+   *
+   * CRITICAL: The update only matches while the event is still EXHAUSTED,
+   * so two admins (or an admin and a provider redelivery) can't both act
+   * on it. Returns null when it was no longer dead-lettered.
+   */
+  private requeue(
+    event: WebhookEvent,
+    options: {
+      performedBy: string;
+      payload?: WebhookPayloadDto;
+      reason?: string;
+    },
+  ) {
+    const { payload } = options;
+
+    return this.db.$transaction(async (tx) => {
+      const { count } = await tx.webhookEvent.updateMany({
+        where: { id: event.id, status: WebhookStatus.EXHAUSTED },
+        data: {
+          status: WebhookStatus.RECEIVED,
+          retry_count: 0,
+          dead_lettered_at: null,
+          lease_owner: null,
+          lease_expires_at: null,
+          ...(payload && {
+            payload: JSON.parse(
+              JSON.stringify(payload),
+            ) as Prisma.InputJsonValue,
+            payload_hash: computePayloadHash(payload),
+          }),
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      return tx.webhookDeadLetterAction.create({
+        data: {
+          webhook_event_id: event.id,
+          action: WebhookDeadLetterActionType.REQUEUE,
+          performed_by: options.performedBy,
+          reason: options.reason,
+          previous_payload: payload
+            ? (event.payload as Prisma.InputJsonValue)
+            : undefined,
+        },
+      });
+    });
+  }
+
+  /**
+   * Mark one event DISCARDED - same guard as requeue()
+   */
+  private discard(
+    event: WebhookEvent,
+    options: { performedBy: string; reason?: string },
+  ) {
+    return this.db.$transaction(async (tx) => {
+      const { count } = await tx.webhookEvent.updateMany({
+        where: { id: event.id, status: WebhookStatus.EXHAUSTED },
+        data: { status: WebhookStatus.DISCARDED },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      return tx.webhookDeadLetterAction.create({
+        data: {
+          webhook_event_id: event.id,
+          action: WebhookDeadLetterActionType.DISCARD,
+          performed_by: options.performedBy,
+          reason: options.reason,
+        },
+      });
+    });
+  }
+
+  /**
+   * An edit may fix the payment data, not re-key the event - a different
+   * externalPaymentId/eventType would be a different event altogether
+   */
+  private assertSameIdempotencyKey(
+    event: WebhookEvent,
+    payload: WebhookPayloadDto,
+  ) {
+    if (
+      payload.externalPaymentId !== event.external_payment_id ||
+      payload.eventType !== event.event_type
+    ) {
+      throw new BadRequestException(
+        'Edited payload must keep the same externalPaymentId and eventType',
+      );
+    }
+  }
+
+  private notDeadLetteredError(webhookEventId: string, status?: WebhookStatus) {
+    return new BadRequestException(
+      `Webhook event ${webhookEventId} is not in the dead-letter queue${status ? ` (status ${status})` : ''}`,
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { WebhookStatus } from '@prisma/client';
+import { WebhookEventsService } from './webhook-events.service';
+import { WebhookDeadLetterService } from './webhook-dead-letter.service';
+import { ListWebhookEventsQueryDto } from './dto/list-webhook-events.query.dto';
+import { RequeueDeadLetterDto } from './dto/requeue-dead-letter.dto';
+import { DiscardDeadLetterDto } from './dto/discard-dead-letter.dto';
+import { BulkDeadLetterDto } from './dto/bulk-dead-letter.dto';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+import { CurrentAdmin } from '../common/decorators/current-admin.decorator';
+import type { IAdminIdentity } from '../common/interfaces/admin.interface';
+
+/**
+ * Webhook Dead Letters Admin Controller
+ *
+ * Review, requeue and discard EXHAUSTED webhook events
+ *
+ * Security: Every route requires an admin API key (see AdminApiKeyGuard)
+ */
+@Controller('admin/webhook-dead-letters')
+@UseGuards(AdminApiKeyGuard)
+export class WebhookDeadLettersController {
+  constructor(
+    private readonly webhookEventsService: WebhookEventsService,
+    private readonly webhookDeadLetterService: WebhookDeadLetterService,
+  ) {}
+
+  /**
+   * GET /admin/webhook-dead-letters
+   *
+   * Same filters and pagination as GET /admin/webhook-events,
+   * `status` is always EXHAUSTED
+   */
+  @Get()
+  async listDeadLetters(@Query() query: ListWebhookEventsQueryDto) {
+    return this.webhookEventsService.listEvents({
+      ...query,
+      status: WebhookStatus.EXHAUSTED,
+    });
+  }
+
+  /**
+   * GET /admin/webhook-dead-letters/summary
+   *
+   * Queue size and activity over the last 24 hours
+   */
+  @Get('summary')
+  async getSummary() {
+    return this.webhookDeadLetterService.getSummary();
+  }
+
+  /**
+   * POST /admin/webhook-dead-letters/requeue
+   *
+   * Requeue every dead letter matching the filters (max 500 per call,
+   * `hasMore` tells whether to call again)
+   */
+  @Post('requeue')
+  @HttpCode(HttpStatus.OK)
+  async requeueMatching(
+    @Body() body: BulkDeadLetterDto,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.webhookDeadLetterService.requeueMatching(body, {
+      performedBy: admin.id,
+      reason: body.reason,
+    });
+  }
+
+  /**
+   * POST /admin/webhook-dead-letters/discard
+   *
+   * Discard every dead letter matching the filters (max 500 per call)
+   */
+  @Post('discard')
+  @HttpCode(HttpStatus.OK)
+  async discardMatching(
+    @Body() body: BulkDeadLetterDto,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.webhookDeadLetterService.discardMatching(body, {
+      performedBy: admin.id,
+      reason: body.reason,
+    });
+  }
+
+  /**
+   * POST /admin/webhook-dead-letters/:id/requeue
+   *
+   * Body `{ "payload": {...} }` replaces the stored payload first.
+   * Returns the audit record (WebhookDeadLetterAction).
+   */
+  @Post(':id/requeue')
+  @HttpCode(HttpStatus.OK)
+  async requeueEvent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: RequeueDeadLetterDto,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.webhookDeadLetterService.requeueEvent(id, {
+      performedBy: admin.id,
+      payload: body.payload,
+      reason: body.reason,
+    });
+  }
+
+  /**
+   * POST /admin/webhook-dead-letters/:id/discard
+   *
+   * Returns the audit record (WebhookDeadLetterAction)
+   */
+  @Post(':id/discard')
+  @HttpCode(HttpStatus.OK)
+  async discardEvent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: DiscardDeadLetterDto,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.webhookDeadLetterService.discardEvent(id, {
+      performedBy: admin.id,
+      reason: body.reason,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { Prisma } from '@prisma/client';
+import { WebhookEventFilterDto } from './dto/webhook-event-filter.dto';
+
+/**
+ * Translate admin filters into a WebhookEvent where clause
+ *
+ * Shared by the event browser and the dead-letter bulk operations so a
+ * filter previewed in the list selects exactly the same events in bulk
+ */
+export function buildWebhookEventWhere(
+  filter: WebhookEventFilterDto,
+): Prisma.WebhookEventWhereInput {
+  const where: Prisma.WebhookEventWhereInput = {};
+
+  if (filter.eventType) {
+    where.event_type = filter.eventType;
+  }
+  if (filter.externalPaymentId) {
+    where.external_payment_id = filter.externalPaymentId;
+  }
+  if (filter.from || filter.to) {
+    where.created_at = {
+      ...(filter.from && { gte: new Date(filter.from) }),
+      ...(filter.to && { lte: new Date(filter.to) }),
+    };
+  }
+  if (filter.error) {
+    where.processing_error = { contains: filter.error, mode: 'insensitive' };
+  }
+
+  return where;
+}
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { WebhookEventsService } from './webhook-events.service';
+import { WebhookReplayService } from './webhook-replay.service';
+import { ListWebhookEventsQueryDto } from './dto/list-webhook-events.query.dto';
+import { ReplayWebhookEventDto } from './dto/replay-webhook-event.dto';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+import { CurrentAdmin } from '../common/decorators/current-admin.decorator';
+import type { IAdminIdentity } from '../common/interfaces/admin.interface';
+
+/**
+ * Webhook Events Admin Controller
+ *
+ * Browse, inspect and replay stored webhook deliveries
+ *
+ * Security: Every route requires an admin API key (see AdminApiKeyGuard)
+ */
+@Controller('admin/webhook-events')
+@UseGuards(AdminApiKeyGuard)
+export class WebhookEventsController {
+  constructor(
+    private readonly webhookEventsService: WebhookEventsService,
+    private readonly webhookReplayService: WebhookReplayService,
+  ) {}
+
+  /**
+   * GET /admin/webhook-events
+   *
+   * Filters: status, eventType, externalPaymentId, from, to, error
+   * Pagination: limit (default 20, max 100) + cursor (nextCursor)
+   */
+  @Get()
+  async listEvents(@Query() query: ListWebhookEventsQueryDto) {
+    return this.webhookEventsService.listEvents(query);
+  }
+
+  /**
+   * GET /admin/webhook-events/:id
+   *
+   * Stored payload plus the payment and subscription it produced
+   */
+  @Get(':id')
+  async getEvent(@Param('id', ParseUUIDPipe) id: string) {
+    return this.webhookEventsService.getEventDetail(id);
+  }
+
+  /**
+   * POST /admin/webhook-events/:id/replay
+   *
+   * Re-run the stored payload, body `{ "force": true }` skips the
+   * idempotency check. Returns the audit record (WebhookReplay).
+   */
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  async replayEvent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: ReplayWebhookEventDto,
+    @CurrentAdmin() admin: IAdminIdentity,
+  ) {
+    return this.webhookReplayService.replayEvent(id, {
+      requestedBy: admin.id,
+      force: body.force,
+    });
+  }
+}
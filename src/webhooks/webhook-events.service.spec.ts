@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { WebhookEventsService } from './webhook-events.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('WebhookEventsService', () => {
+  let service: WebhookEventsService;
+  let db: jest.Mocked<any>;
+
+  const buildEvents = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      id: `event-${i + 1}`,
+      status: 'PROCESSED',
+    }));
+
+  beforeEach(async () => {
+    const mockDb = {
+      webhookEvent: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+      },
+      payment: { findUnique: jest.fn() },
+      subscription: { findUnique: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookEventsService,
+        { provide: DatabaseService, useValue: mockDb },
+      ],
+    }).compile();
+
+    service = module.get<WebhookEventsService>(WebhookEventsService);
+    db = module.get(DatabaseService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('listEvents', () => {
+    it('should list newest first without loading payloads', async () => {
+      await service.listEvents({});
+
+      const args = db.webhookEvent.findMany.mock.calls[0][0];
+      expect(args.where).toEqual({});
+      expect(args.orderBy).toEqual([{ created_at: 'desc' }, { id: 'desc' }]);
+      expect(args.take).toBe(21); // default page size + 1
+      expect(args.select.payload).toBeUndefined();
+      expect(args.cursor).toBeUndefined();
+    });
+
+    it('should combine all filters', async () => {
+      await service.listEvents({
+        status: 'FAILED',
+        eventType: 'payment.success',
+        externalPaymentId: 'pay_ext_123',
+        from: '2026-06-01T00:00:00Z',
+        to: '2026-06-30T23:59:59Z',
+        error: 'deadlock',
+      });
+
+      expect(db.webhookEvent.findMany.mock.calls[0][0].where).toEqual({
+        status: 'FAILED',
+        event_type: 'payment.success',
+        external_payment_id: 'pay_ext_123',
+        created_at: {
+          gte: new Date('2026-06-01T00:00:00Z'),
+          lte: new Date('2026-06-30T23:59:59Z'),
+        },
+        processing_error: { contains: 'deadlock', mode: 'insensitive' },
+      });
+    });
+
+    it('should support an open-ended date range', async () => {
+      await service.listEvents({ from: '2026-06-01T00:00:00Z' });
+
+      expect(db.webhookEvent.findMany.mock.calls[0][0].where).toEqual({
+        created_at: { gte: new Date('2026-06-01T00:00:00Z') },
+      });
+    });
+
+    it('should return a cursor when there is another page', async () => {
+      db.webhookEvent.findMany.mockResolvedValue(buildEvents(3));
+
+      const result = await service.listEvents({ limit: 2 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.nextCursor).toBe('event-2');
+    });
+
+    it('should return no cursor on the last page', async () => {
+      db.webhookEvent.findMany.mockResolvedValue(buildEvents(2));
+
+      const result = await service.listEvents({ limit: 2 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should continue after the cursor', async () => {
+      await service.listEvents({ cursor: 'event-2', limit: 2 });
+
+      const args = db.webhookEvent.findMany.mock.calls[0][0];
+      expect(args.cursor).toEqual({ id: 'event-2' });
+      expect(args.skip).toBe(1);
+      expect(args.take).toBe(3);
+    });
+  });
+
+  describe('getEventDetail', () => {
+    it('should return payload with the payment and subscription it produced', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'event-id',
+        external_payment_id: 'pay_ext_123',
+        payload: { amount: 999 },
+        conflicts: [],
+      });
+      db.payment.findUnique.mockResolvedValue({
+        id: 'pay-id',
+        user_id: 'user-id',
+        plan_type: 'monthly',
+      });
+      db.subscription.findUnique.mockResolvedValue({ id: 'sub-id' });
+
+      const result = await service.getEventDetail('event-id');
+
+      expect(result.payload).toEqual({ amount: 999 });
+      expect(result.payment?.id).toBe('pay-id');
+      expect(result.subscription?.id).toBe('sub-id');
+      expect(db.payment.findUnique).toHaveBeenCalledWith({
+        where: { external_payment_id: 'pay_ext_123' },
+      });
+      expect(db.subscription.findUnique).toHaveBeenCalledWith({
+        where: {
+          user_id_plan_type: { user_id: 'user-id', plan_type: 'monthly' },
+        },
+      });
+    });
+
+    it('should return null payment and subscription when none were produced', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'event-id',
+        external_payment_id: 'pay_ext_123',
+        conflicts: [],
+      });
+      db.payment.findUnique.mockResolvedValue(null);
+
+      const result = await service.getEventDetail('event-id');
+
+      expect(result.payment).toBeNull();
+      expect(result.subscription).toBeNull();
+      expect(db.subscription.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown event', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+
+      await expect(service.getEventDetail('missing-id')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
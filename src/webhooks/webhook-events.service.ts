@@ -0,0 +1,106 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { ListWebhookEventsQueryDto } from './dto/list-webhook-events.query.dto';
+import { buildWebhookEventWhere } from './webhook-event-filter';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Columns shown in event lists - the payload is only loaded in the
+ * detail view, lists stay small even for large provider payloads
+ */
+const EVENT_SUMMARY_SELECT = {
+  id: true,
+  external_payment_id: true,
+  event_type: true,
+  status: true,
+  retry_count: true,
+  processing_error: true,
+  processed_at: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.WebhookEventSelect;
+
+/**
+ * Webhook Events Service - read side for the admin API
+ *
+ * Lets support see what happened to a delivery without querying
+ * Postgres by hand
+ */
+@Injectable()
+export class WebhookEventsService {
+  private readonly logger = new Logger(WebhookEventsService.name);
+
+  constructor(private readonly db: DatabaseService) {}
+
+  /**
+   * List events, newest first, cursor-paginated
+   *
+   * Ordered by (created_at, id) so the order is stable when several
+   * events share a timestamp. One extra row is fetched to know whether
+   * another page exists.
+   */
+  async listEvents(query: ListWebhookEventsQueryDto) {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    const events = await this.db.webhookEvent.findMany({
+      where: {
+        ...buildWebhookEventWhere(query),
+        ...(query.status && { status: query.status }),
+      },
+      select: EVENT_SUMMARY_SELECT,
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = events.length > limit;
+    const data = hasMore ? events.slice(0, limit) : events;
+
+    return {
+      data,
+      nextCursor: hasMore ? data[data.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Event detail: stored payload, conflicting redeliveries, manual
+   * replays, and the payment and subscription the event produced (if any)
+   *
+   * Payment is matched by external_payment_id, subscription by the
+   * payment's user + plan type
+   */
+  async getEventDetail(id: string) {
+    const event = await this.db.webhookEvent.findUnique({
+      where: { id },
+      include: {
+        conflicts: { orderBy: { created_at: 'desc' } },
+        replays: { orderBy: { created_at: 'desc' } },
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Webhook event ${id} not found`);
+    }
+
+    const payment = await this.db.payment.findUnique({
+      where: { external_payment_id: event.external_payment_id },
+    });
+
+    const subscription = payment
+      ? await this.db.subscription.findUnique({
+          where: {
+            user_id_plan_type: {
+              user_id: payment.user_id,
+              plan_type: payment.plan_type,
+            },
+          },
+        })
+      : null;
+
+    this.logger.log(`Webhook event ${id} viewed`);
+
+    return { ...event, payment, subscription };
+  }
+}
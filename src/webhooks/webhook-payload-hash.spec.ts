@@ -0,0 +1,54 @@
+import { computePayloadHash } from './webhook-payload-hash';
+import { WebhookPayloadDto } from './dto/webhook-payload.dto';
+
+describe('computePayloadHash', () => {
+  const payload: WebhookPayloadDto = {
+    externalPaymentId: 'pay_ext_123',
+    eventType: 'payment.success',
+    email: 'test@example.com',
+    amount: 999,
+    currency: 'USD',
+    planType: 'monthly',
+  };
+
+  it('should be stable regardless of key order', () => {
+    const reordered: WebhookPayloadDto = {
+      planType: 'monthly',
+      currency: 'USD',
+      amount: 999,
+      email: 'test@example.com',
+      eventType: 'payment.success',
+      externalPaymentId: 'pay_ext_123',
+    };
+
+    expect(computePayloadHash(reordered)).toBe(computePayloadHash(payload));
+  });
+
+  it('should ignore email and currency case', () => {
+    expect(
+      computePayloadHash({
+        ...payload,
+        email: 'Test@Example.com',
+        currency: 'usd',
+      }),
+    ).toBe(computePayloadHash(payload));
+  });
+
+  it('should ignore provider metadata', () => {
+    expect(
+      computePayloadHash({ ...payload, metadata: { deliveryAttempt: 3 } }),
+    ).toBe(computePayloadHash(payload));
+  });
+
+  it.each([
+    ['amount', { amount: 1999 }],
+    ['currency', { currency: 'EUR' }],
+    ['email', { email: 'other@example.com' }],
+    ['missing email', { email: undefined }],
+    ['plan', { planType: 'yearly' }],
+  ])('should change when the %s differs', (_field, change) => {
+    expect(computePayloadHash({ ...payload, ...change })).not.toBe(
+      computePayloadHash(payload),
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import { createHash } from 'crypto';
+import { WebhookPayloadDto } from './dto/webhook-payload.dto';
+
+/**
+ * Canonical payload hash (sha256, hex)
+ *
+ * Two deliveries with the same idempotency key must describe the same
+ * payment. Only the fields that define it are hashed, normalized so that
+ * cosmetic differences (key order, email case, currency case) don't count:
+ * - externalPaymentId, eventType, email, amount, currency, planType,
+ *   paymentMethod, provider
+ *
+ * EDGE CASE: `metadata` is provider-specific (delivery ids, attempt
+ * numbers, ...) and legitimately differs between redeliveries - excluded
+ */
+export function computePayloadHash(payload: WebhookPayloadDto): string {
+  const canonical = [
+    payload.externalPaymentId,
+    payload.eventType,
+    payload.email?.trim().toLowerCase() ?? null,
+    payload.amount,
+    payload.currency.trim().toUpperCase(),
+    payload.planType,
+    payload.paymentMethod ?? null,
+    payload.provider ?? null,
+  ];
+
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
@@ -0,0 +1,43 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Webhook processing mode (WEBHOOK_PROCESSING_MODE)
+ *
+ * - sync (default): the request processes the webhook before responding
+ * - async: the request only stores the event, the queue worker processes it
+ */
+export type WebhookProcessingMode = 'sync' | 'async';
+
+export function getWebhookProcessingMode(
+  configService: ConfigService,
+): WebhookProcessingMode {
+  const mode = String(
+    configService.get<string>('WEBHOOK_PROCESSING_MODE') ?? 'sync',
+  ).toLowerCase();
+
+  if (mode !== 'sync' && mode !== 'async') {
+    throw new Error('WEBHOOK_PROCESSING_MODE must be "sync" or "async"');
+  }
+
+  return mode;
+}
+
+/**
+ * How long a worker may hold a PROCESSING event before another worker can
+ * take it over (WEBHOOK_PROCESSING_LEASE_SECONDS, default 300)
+ *
+ * Must comfortably exceed the slowest expected processing run
+ */
+export function getWebhookLeaseSeconds(configService: ConfigService): number {
+  const seconds = Number(
+    configService.get<string>('WEBHOOK_PROCESSING_LEASE_SECONDS') ?? 300,
+  );
+
+  if (!Number.isInteger(seconds) || seconds <= 0) {
+    throw new Error(
+      'WEBHOOK_PROCESSING_LEASE_SECONDS must be a positive integer',
+    );
+  }
+
+  return seconds;
+}
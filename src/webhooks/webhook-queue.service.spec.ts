@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { WebhookQueueService } from './webhook-queue.service';
+import { WebhooksService } from './webhooks.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('WebhookQueueService', () => {
+  let service: WebhookQueueService;
+  let db: jest.Mocked<any>;
+  let webhooksService: jest.Mocked<any>;
+
+  const storedPayload = {
+    externalPaymentId: 'pay_ext_123',
+    eventType: 'payment.success',
+    email: 'test@example.com',
+    amount: 999,
+    currency: 'USD',
+    planType: 'monthly',
+  };
+
+  async function createService(
+    config: Record<string, unknown> = { WEBHOOK_PROCESSING_MODE: 'async' },
+  ) {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookQueueService,
+        { provide: DatabaseService, useValue: db },
+        { provide: WebhooksService, useValue: webhooksService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<WebhookQueueService>(WebhookQueueService);
+  }
+
+  beforeEach(async () => {
+    db = { $queryRaw: jest.fn().mockResolvedValue([]) };
+    webhooksService = {
+      processWebhook: jest
+        .fn()
+        .mockResolvedValue({ success: true, isDuplicate: false }),
+    };
+
+    service = await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should throw if the batch size is not a positive integer', async () => {
+    await expect(
+      createService({
+        WEBHOOK_PROCESSING_MODE: 'async',
+        WEBHOOK_QUEUE_BATCH_SIZE: '2.5',
+      }),
+    ).rejects.toThrow('WEBHOOK_QUEUE_BATCH_SIZE must be a positive integer');
+  });
+
+  it('should throw on an unknown processing mode', async () => {
+    await expect(
+      createService({ WEBHOOK_PROCESSING_MODE: 'later' }),
+    ).rejects.toThrow('WEBHOOK_PROCESSING_MODE');
+  });
+
+  describe('drainQueue', () => {
+    it('should process claimed events from the stored payload', async () => {
+      db.$queryRaw.mockResolvedValueOnce([
+        { id: 'event-1', payload: storedPayload },
+      ]);
+
+      const processed = await service.drainQueue();
+
+      expect(processed).toBe(1);
+      // Claim (with its lease owner) is handed over - no second claim
+      const [, leaseOwner] = db.$queryRaw.mock.calls[0];
+      expect(webhooksService.processWebhook).toHaveBeenCalledWith(
+        storedPayload,
+        { claim: { webhookEventId: 'event-1', leaseOwner } },
+      );
+    });
+
+    it('should claim with SKIP LOCKED, a lease and the configured batch size', async () => {
+      await service.drainQueue();
+
+      const [strings, leaseOwner, leaseSeconds, limit] =
+        db.$queryRaw.mock.calls[0];
+      const sql = strings.join('?');
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(sql).toContain('lease_expires_at');
+      expect(typeof leaseOwner).toBe('string');
+      expect(leaseSeconds).toBe(300);
+      expect(limit).toBe(10);
+    });
+
+    it('should keep claiming until a short batch comes back', async () => {
+      const custom = await createService({
+        WEBHOOK_PROCESSING_MODE: 'async',
+        WEBHOOK_QUEUE_BATCH_SIZE: '2',
+      });
+      db.$queryRaw
+        .mockResolvedValueOnce([
+          { id: 'event-1', payload: storedPayload },
+          { id: 'event-2', payload: storedPayload },
+        ])
+        .mockResolvedValueOnce([{ id: 'event-3', payload: storedPayload }]);
+
+      const processed = await custom.drainQueue();
+
+      expect(processed).toBe(3);
+      expect(db.$queryRaw).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep going when processing an event fails', async () => {
+      db.$queryRaw.mockResolvedValueOnce([
+        { id: 'event-1', payload: storedPayload },
+        { id: 'event-2', payload: storedPayload },
+      ]);
+      webhooksService.processWebhook
+        .mockRejectedValueOnce(new Error('Handler failed'))
+        .mockResolvedValueOnce({ success: true, isDuplicate: false });
+
+      const processed = await service.drainQueue();
+
+      expect(processed).toBe(2);
+      expect(webhooksService.processWebhook).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('handleQueuePoll', () => {
+    it('should do nothing in sync mode', async () => {
+      const syncService = await createService({});
+
+      await syncService.handleQueuePoll();
+
+      expect(db.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should skip a poll while the previous one is still in progress', async () => {
+      let finishFirstPoll: () => void = () => undefined;
+      db.$queryRaw.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishFirstPoll = () => resolve([]);
+          }),
+      );
+
+      const firstPoll = service.handleQueuePoll();
+      await service.handleQueuePoll();
+      finishFirstPoll();
+      await firstPoll;
+
+      expect(db.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not throw when claiming fails', async () => {
+      db.$queryRaw.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.handleQueuePoll()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { DatabaseService } from '../database/database.service';
+import { WebhooksService } from './webhooks.service';
+import { WebhookPayloadDto } from './dto/webhook-payload.dto';
+import {
+  getWebhookLeaseSeconds,
+  getWebhookProcessingMode,
+} from './webhook-processing-mode';
+
+/**
+ * Webhook Queue Service - Postgres-backed work queue (async mode only)
+ *
+ * WebhookEvent rows in RECEIVED status are the queue. Every second each
+ * app instance claims a batch with `FOR UPDATE SKIP LOCKED` and moves it to
+ * PROCESSING (with a processing lease) in the same statement, so several
+ * instances can share the work without ever claiming the same event twice.
+ *
+ * Claimed events are processed with WebhooksService.processWebhook() from
+ * the stored payload, passing the claim along. Failures end up FAILED and are requeued by
+ * WebhookRetryService with backoff.
+ *
+ * Config (env):
+ * - WEBHOOK_PROCESSING_MODE=async enables the worker
+ * - WEBHOOK_QUEUE_BATCH_SIZE (default 10)
+ * - WEBHOOK_PROCESSING_LEASE_SECONDS (default 300)
+ */
+@Injectable()
+export class WebhookQueueService {
+  private readonly logger = new Logger(WebhookQueueService.name);
+
+  private readonly enabled: boolean;
+  private readonly batchSize: number;
+  private readonly leaseSeconds: number;
+
+  // Prevents overlapping polls while a batch is still being processed
+  private isRunning = false;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly webhooksService: WebhooksService,
+    configService: ConfigService,
+  ) {
+    this.enabled = getWebhookProcessingMode(configService) === 'async';
+
+    const batchSize = Number(
+      configService.get<string>('WEBHOOK_QUEUE_BATCH_SIZE') ?? 10,
+    );
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error('WEBHOOK_QUEUE_BATCH_SIZE must be a positive integer');
+    }
+    this.batchSize = batchSize;
+    this.leaseSeconds = getWebhookLeaseSeconds(configService);
+  }
+
+  /**
+   * Scheduled entry point
+   */
+  @Interval('webhook-queue', 1000)
+  async handleQueuePoll() {
+    if (!this.enabled || this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.drainQueue();
+    } catch (error: unknown) {
+      this.logger.error(
+        'Webhook queue poll failed',
+        error instanceof Error ? error.stack : error,
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Claim and process batches until the queue is empty
+   */
+  async drainQueue(): Promise<number> {
+    let processed = 0;
+
+    for (;;) {
+      const leaseOwner = randomUUID();
+      const claimed = await this.claimEvents(this.batchSize, leaseOwner);
+
+      for (const event of claimed) {
+        try {
+          await this.webhooksService.processWebhook(
+            event.payload as unknown as WebhookPayloadDto,
+            { claim: { webhookEventId: event.id, leaseOwner } },
+          );
+        } catch {
+          // Failure already recorded on the event (FAILED, retry_count + 1)
+        }
+        processed++;
+      }
+
+      // Short batch → nothing left right now
+      if (claimed.length < this.batchSize) {
+        break;
+      }
+    }
+
+    if (processed > 0) {
+      this.logger.log(`Processed ${processed} queued webhook event(s)`);
+    }
+
+    return processed;
+  }
+
+  /**
+   * Atomically claim up to `limit` queued events (oldest first)
+   *
+   * SKIP LOCKED: rows locked by another instance's claim are skipped
+   * instead of waited on, so concurrent workers get disjoint batches
+   *
+   * The whole batch shares one lease owner - the lease must outlast
+   * processing the batch, not just one event
+   */
+  private claimEvents(
+    limit: number,
+    leaseOwner: string,
+  ): Promise<{ id: string; payload: Prisma.JsonValue }[]> {
+    return this.db.$queryRaw`
+      UPDATE "WebhookEvent"
+      SET status = 'PROCESSING',
+          lease_owner = ${leaseOwner},
+          lease_expires_at = NOW() + make_interval(secs => ${this.leaseSeconds}),
+          updated_at = NOW()
+      WHERE id IN (
+        SELECT id FROM "WebhookEvent"
+        WHERE status = 'RECEIVED'
+        ORDER BY created_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, payload
+    `;
+  }
+}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { WebhookReplayService } from './webhook-replay.service';
+import { WebhooksService } from './webhooks.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('WebhookReplayService', () => {
+  let service: WebhookReplayService;
+  let db: jest.Mocked<any>;
+  let webhooksService: jest.Mocked<any>;
+
+  const storedPayload = {
+    externalPaymentId: 'pay_ext_123',
+    eventType: 'payment.success',
+    email: 'test@example.com',
+    amount: 999,
+    currency: 'USD',
+    planType: 'monthly',
+  };
+
+  beforeEach(async () => {
+    db = {
+      webhookEvent: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'event-id',
+          event_type: 'payment.success',
+          status: 'PROCESSED',
+          payload: storedPayload,
+        }),
+      },
+      webhookReplay: {
+        create: jest.fn().mockResolvedValue({ id: 'replay-id' }),
+        update: jest.fn((args: any) =>
+          Promise.resolve({ id: 'replay-id', ...args.data }),
+        ),
+      },
+    };
+    webhooksService = { processWebhook: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookReplayService,
+        { provide: DatabaseService, useValue: db },
+        { provide: WebhooksService, useValue: webhooksService },
+      ],
+    }).compile();
+
+    service = module.get<WebhookReplayService>(WebhookReplayService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should record who requested the replay before processing', async () => {
+    webhooksService.processWebhook.mockImplementation(() => {
+      expect(db.webhookReplay.create).toHaveBeenCalled();
+      return Promise.resolve({ success: true, isDuplicate: false });
+    });
+
+    await service.replayEvent('event-id', { requestedBy: 'alice' });
+
+    expect(db.webhookReplay.create).toHaveBeenCalledWith({
+      data: {
+        webhook_event_id: 'event-id',
+        requested_by: 'alice',
+        force: false,
+      },
+    });
+  });
+
+  it('should replay the stored payload and record the result', async () => {
+    webhooksService.processWebhook.mockResolvedValue({
+      success: true,
+      isDuplicate: false,
+      paymentId: 'pay-id',
+    });
+
+    const replay = await service.replayEvent('event-id', {
+      requestedBy: 'alice',
+      force: true,
+    });
+
+    expect(webhooksService.processWebhook).toHaveBeenCalledWith(storedPayload, {
+      force: true,
+    });
+    expect(replay).toMatchObject({
+      id: 'replay-id',
+      outcome: 'PROCESSED',
+      result: { success: true, isDuplicate: false, paymentId: 'pay-id' },
+      completed_at: expect.any(Date),
+    });
+  });
+
+  it.each([
+    [{ success: true, isDuplicate: true }, 'DUPLICATE'],
+    [{ success: true, isDuplicate: true, inProgress: true }, 'IN_PROGRESS'],
+    [{ success: true, isDuplicate: false, ignored: true }, 'IGNORED'],
+    [{ success: false, isDuplicate: false, rejected: true }, 'REJECTED'],
+    [{ success: false, isDuplicate: false, conflict: true }, 'CONFLICT'],
+  ])('should map %o to outcome %s', async (result, outcome) => {
+    webhooksService.processWebhook.mockResolvedValue(result);
+
+    const replay = await service.replayEvent('event-id', {
+      requestedBy: 'alice',
+    });
+
+    expect(replay.outcome).toBe(outcome);
+  });
+
+  it('should record a failed replay instead of throwing', async () => {
+    webhooksService.processWebhook.mockRejectedValue(
+      new Error('Handler still broken'),
+    );
+
+    const replay = await service.replayEvent('event-id', {
+      requestedBy: 'alice',
+    });
+
+    expect(replay).toMatchObject({
+      outcome: 'FAILED',
+      error: 'Handler still broken',
+      result: undefined,
+    });
+  });
+
+  it('should throw NotFoundException for an unknown event', async () => {
+    db.webhookEvent.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.replayEvent('missing-id', { requestedBy: 'alice' }),
+    ).rejects.toThrow(NotFoundException);
+    expect(db.webhookReplay.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, WebhookReplayOutcome } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { WebhooksService } from './webhooks.service';
+import { WebhookPayloadDto } from './dto/webhook-payload.dto';
+import { IWebhookProcessingResult } from './interfaces/webhook.interface';
+
+/**
+ * Webhook Replay Service - manual replay of a stored delivery
+ *
+ * Used by support after a bug fix (admin API and CLI). The stored payload
+ * is run through WebhooksService.processWebhook() exactly like a new
+ * delivery, so idempotency, conflict detection and leases all apply.
+ *
+ * `force` skips the idempotency check (PROCESSED/IGNORED/REJECTED/DISCARDED
+ * events are processed again).
+ * CAUTION: handlers run again - a forced payment.success extends the
+ * subscription a second time.
+ *
+ * AUDIT: Every replay gets its own WebhookReplay record (who, force,
+ * outcome, result/error), created BEFORE processing so a crashed replay
+ * still leaves a trace (outcome PENDING).
+ */
+@Injectable()
+export class WebhookReplayService {
+  private readonly logger = new Logger(WebhookReplayService.name);
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly webhooksService: WebhooksService,
+  ) {}
+
+  /**
+   * Replay one stored webhook event
+   *
+   * Never throws for processing failures - they are recorded on the
+   * replay (outcome FAILED) and returned to the caller
+   */
+  async replayEvent(
+    webhookEventId: string,
+    options: { requestedBy: string; force?: boolean },
+  ) {
+    const force = options.force ?? false;
+
+    const event = await this.db.webhookEvent.findUnique({
+      where: { id: webhookEventId },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Webhook event ${webhookEventId} not found`);
+    }
+
+    const replay = await this.db.webhookReplay.create({
+      data: {
+        webhook_event_id: event.id,
+        requested_by: options.requestedBy,
+        force,
+      },
+    });
+
+    this.logger.warn(
+      `Replaying webhook event ${event.id} (${event.event_type}, status ${event.status}) requested by ${options.requestedBy}${force ? ' - FORCED' : ''}`,
+      { replayId: replay.id },
+    );
+
+    let outcome: WebhookReplayOutcome;
+    let result: IWebhookProcessingResult | undefined;
+    let error: string | undefined;
+
+    try {
+      result = await this.webhooksService.processWebhook(
+        event.payload as unknown as WebhookPayloadDto,
+        { force },
+      );
+      outcome = this.getOutcome(result);
+    } catch (processingError: unknown) {
+      // Failure is also recorded on the event itself by WebhooksService
+      outcome = WebhookReplayOutcome.FAILED;
+      error =
+        processingError instanceof Error
+          ? processingError.message
+          : 'Unknown error';
+    }
+
+    const completed = await this.db.webhookReplay.update({
+      where: { id: replay.id },
+      data: {
+        outcome,
+        result: result
+          ? (JSON.parse(JSON.stringify(result)) as Prisma.InputJsonValue)
+          : undefined,
+        error,
+        completed_at: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `Replay ${replay.id} of webhook event ${event.id} finished: ${outcome}`,
+    );
+
+    return completed;
+  }
+
+  private getOutcome(result: IWebhookProcessingResult): WebhookReplayOutcome {
+    if (result.conflict) {
+      return WebhookReplayOutcome.CONFLICT;
+    }
+    if (result.inProgress) {
+      return WebhookReplayOutcome.IN_PROGRESS;
+    }
+    if (result.isDuplicate) {
+      return WebhookReplayOutcome.DUPLICATE;
+    }
+    if (result.ignored) {
+      return WebhookReplayOutcome.IGNORED;
+    }
+    if (result.rejected) {
+      return WebhookReplayOutcome.REJECTED;
+    }
+    return WebhookReplayOutcome.PROCESSED;
+  }
+}
@@ -0,0 +1,276 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { WebhookRetryService } from './webhook-retry.service';
+import { WebhooksService } from './webhooks.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('WebhookRetryService', () => {
+  let service: WebhookRetryService;
+  let db: jest.Mocked<any>;
+  let webhooksService: jest.Mocked<any>;
+
+  const storedPayload = {
+    externalPaymentId: 'pay_ext_123',
+    eventType: 'payment.success',
+    email: 'test@example.com',
+    amount: 999,
+    currency: 'USD',
+    planType: 'monthly',
+  };
+
+  async function createService(config: Record<string, unknown> = {}) {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookRetryService,
+        { provide: DatabaseService, useValue: db },
+        { provide: WebhooksService, useValue: webhooksService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<WebhookRetryService>(WebhookRetryService);
+  }
+
+  beforeEach(async () => {
+    db = {
+      webhookEvent: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+    };
+    webhooksService = { processWebhook: jest.fn() };
+
+    service = await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should throw if a retry setting is not a positive number', async () => {
+    await expect(
+      createService({ WEBHOOK_RETRY_MAX_ATTEMPTS: '0' }),
+    ).rejects.toThrow('WEBHOOK_RETRY_MAX_ATTEMPTS must be a positive number');
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should back off exponentially based on retry_count', () => {
+      expect(service.getRetryDelayMs(1)).toBe(60_000);
+      expect(service.getRetryDelayMs(2)).toBe(120_000);
+      expect(service.getRetryDelayMs(3)).toBe(240_000);
+      expect(service.getRetryDelayMs(4)).toBe(480_000);
+    });
+
+    it('should use configured base delay', async () => {
+      const custom = await createService({
+        WEBHOOK_RETRY_BASE_DELAY_SECONDS: '10',
+      });
+
+      expect(custom.getRetryDelayMs(3)).toBe(40_000);
+    });
+  });
+
+  describe('retryFailedEvents', () => {
+    it('should re-run processing from the stored payload', async () => {
+      db.webhookEvent.findMany.mockResolvedValue([
+        {
+          id: 'event-1',
+          event_type: 'payment.success',
+          status: 'FAILED',
+          retry_count: 1,
+          payload: storedPayload,
+        },
+      ]);
+      webhooksService.processWebhook.mockResolvedValue({
+        success: true,
+        isDuplicate: false,
+      });
+
+      const result = await service.retryFailedEvents();
+
+      expect(webhooksService.processWebhook).toHaveBeenCalledWith(
+        storedPayload,
+      );
+      expect(result).toEqual({
+        retried: 1,
+        succeeded: 1,
+        failed: 0,
+        exhausted: 0,
+        requeued: 0,
+      });
+    });
+
+    it('should keep going when a retry fails', async () => {
+      db.webhookEvent.findMany.mockResolvedValue([
+        { id: 'event-1', status: 'FAILED', retry_count: 1, payload: {} },
+        { id: 'event-2', status: 'FAILED', retry_count: 2, payload: {} },
+      ]);
+      webhooksService.processWebhook
+        .mockRejectedValueOnce(new Error('Still broken'))
+        .mockResolvedValueOnce({ success: true, isDuplicate: false });
+
+      const result = await service.retryFailedEvents();
+
+      expect(webhooksService.processWebhook).toHaveBeenCalledTimes(2);
+      expect(result.succeeded).toBe(1);
+      expect(result.failed).toBe(1);
+    });
+
+    it('should not count a retry refused by the amount policy as a success', async () => {
+      db.webhookEvent.findMany.mockResolvedValue([
+        { id: 'event-1', status: 'FAILED', retry_count: 1, payload: {} },
+      ]);
+      webhooksService.processWebhook.mockResolvedValueOnce({
+        success: false,
+        isDuplicate: false,
+        rejected: true,
+      });
+
+      const result = await service.retryFailedEvents();
+
+      expect(result.succeeded).toBe(0);
+      expect(result.failed).toBe(1);
+    });
+
+    it('should only pick FAILED events whose backoff elapsed, expired leases and stuck RECEIVED events', async () => {
+      const now = new Date('2026-06-01T12:00:00Z');
+
+      await service.retryFailedEvents(now);
+
+      const { where, orderBy, take } =
+        db.webhookEvent.findMany.mock.calls[0][0];
+      const [failedCondition, leaseCondition, stuckCondition] = where.OR;
+
+      expect(failedCondition.status).toBe('FAILED');
+      // One backoff condition per attempt below the max (5)
+      expect(failedCondition.OR).toHaveLength(4);
+      expect(failedCondition.OR[0]).toEqual({
+        retry_count: 1,
+        updated_at: { lte: new Date('2026-06-01T11:59:00Z') },
+      });
+      expect(failedCondition.OR[3]).toEqual({
+        retry_count: 4,
+        updated_at: { lte: new Date('2026-06-01T11:52:00Z') },
+      });
+      expect(leaseCondition).toEqual({
+        status: 'PROCESSING',
+        lease_expires_at: { lte: now },
+      });
+      expect(stuckCondition).toEqual({
+        status: 'RECEIVED',
+        updated_at: { lte: new Date('2026-06-01T11:55:00Z') },
+      });
+      expect(orderBy).toEqual({ updated_at: 'asc' });
+      expect(take).toBe(20);
+    });
+
+    it('should mark events that reached max attempts as EXHAUSTED', async () => {
+      db.webhookEvent.updateMany.mockResolvedValue({ count: 2 });
+
+      const now = new Date('2026-06-01T12:00:00Z');
+      const result = await service.retryFailedEvents(now);
+
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledWith({
+        where: { status: 'FAILED', retry_count: { gte: 5 } },
+        data: { status: 'EXHAUSTED', dead_lettered_at: now },
+      });
+      expect(result.exhausted).toBe(2);
+    });
+
+    it('should respect configured max attempts', async () => {
+      const custom = await createService({ WEBHOOK_RETRY_MAX_ATTEMPTS: '3' });
+
+      await custom.retryFailedEvents();
+
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'FAILED', retry_count: { gte: 3 } },
+        }),
+      );
+      const { where } = db.webhookEvent.findMany.mock.calls[0][0];
+      expect(where.OR[0].OR).toHaveLength(2);
+    });
+  });
+
+  describe('async processing mode', () => {
+    let asyncService: WebhookRetryService;
+
+    beforeEach(async () => {
+      asyncService = await createService({ WEBHOOK_PROCESSING_MODE: 'async' });
+    });
+
+    it('should requeue due events instead of processing them', async () => {
+      db.webhookEvent.findMany.mockResolvedValue([
+        { id: 'event-1', status: 'FAILED', retry_count: 1, payload: {} },
+        { id: 'event-2', status: 'PROCESSING', retry_count: 0, payload: {} },
+      ]);
+      db.webhookEvent.updateMany
+        .mockResolvedValueOnce({ count: 0 }) // exhaustion sweep
+        .mockResolvedValueOnce({ count: 2 }); // requeue
+
+      const now = new Date('2026-06-01T12:00:00Z');
+      const result = await asyncService.retryFailedEvents(now);
+
+      expect(webhooksService.processWebhook).not.toHaveBeenCalled();
+      expect(db.webhookEvent.updateMany).toHaveBeenLastCalledWith({
+        where: {
+          id: { in: ['event-1', 'event-2'] },
+          // Lease re-checked in case the event was taken over meanwhile
+          OR: [
+            { status: 'FAILED' },
+            { status: 'PROCESSING', lease_expires_at: { lte: now } },
+          ],
+        },
+        data: { status: 'RECEIVED', lease_owner: null, lease_expires_at: null },
+      });
+      expect(result.requeued).toBe(2);
+    });
+
+    it('should not treat queued RECEIVED events as stuck', async () => {
+      await asyncService.retryFailedEvents();
+
+      const { where } = db.webhookEvent.findMany.mock.calls[0][0];
+      expect(where.OR).toHaveLength(2);
+      expect(where.OR.map((c: any) => c.status)).toEqual([
+        'FAILED',
+        'PROCESSING',
+      ]);
+    });
+  });
+
+  describe('handleRetryCron', () => {
+    it('should do nothing when retries are disabled', async () => {
+      const disabled = await createService({ WEBHOOK_RETRY_ENABLED: 'false' });
+
+      await disabled.handleRetryCron();
+
+      expect(db.webhookEvent.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should skip a run while the previous one is still in progress', async () => {
+      let finishFirstRun: () => void = () => undefined;
+      db.webhookEvent.updateMany.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishFirstRun = () => resolve({ count: 0 });
+          }),
+      );
+
+      const firstRun = service.handleRetryCron();
+      await service.handleRetryCron();
+      finishFirstRun();
+      await firstRun;
+
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not throw when the run fails', async () => {
+      db.webhookEvent.updateMany.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.handleRetryCron()).resolves.toBeUndefined();
+    });
+  });
+});
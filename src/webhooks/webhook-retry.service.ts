@@ -0,0 +1,244 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, WebhookStatus } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { WebhooksService } from './webhooks.service';
+import { WebhookPayloadDto } from './dto/webhook-payload.dto';
+import { getWebhookProcessingMode } from './webhook-processing-mode';
+
+/**
+ * Webhook Retry Service - background retry worker
+ *
+ * Every 30 seconds picks up webhook events that did not complete and
+ * re-runs processing from the stored payload:
+ * - FAILED events, once their backoff has elapsed
+ *   (base delay * 2^(retry_count - 1) since the last attempt)
+ * - RECEIVED events stuck for longer than the stuck threshold
+ * - PROCESSING events whose lease expired (worker crashed mid-processing)
+ *
+ * In async mode (WEBHOOK_PROCESSING_MODE=async) due events are requeued
+ * (back to RECEIVED) for WebhookQueueService instead of being processed
+ * here, and RECEIVED events are left alone - they are simply queued.
+ *
+ * FAILED events with retry_count >= max attempts are marked EXHAUSTED -
+ * the dead-letter queue, handled by an admin (WebhookDeadLetterService).
+ *
+ * Config (env):
+ * - WEBHOOK_RETRY_ENABLED (default true)
+ * - WEBHOOK_RETRY_MAX_ATTEMPTS (default 5)
+ * - WEBHOOK_RETRY_BASE_DELAY_SECONDS (default 60)
+ * - WEBHOOK_RETRY_STUCK_AFTER_SECONDS (default 300)
+ * - WEBHOOK_RETRY_BATCH_SIZE (default 20)
+ */
+@Injectable()
+export class WebhookRetryService {
+  private readonly logger = new Logger(WebhookRetryService.name);
+
+  private readonly enabled: boolean;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly stuckAfterMs: number;
+  private readonly batchSize: number;
+  private readonly requeueOnly: boolean;
+
+  // Prevents overlapping runs when a batch takes longer than the interval
+  private isRunning = false;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly webhooksService: WebhooksService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      String(this.configService.get('WEBHOOK_RETRY_ENABLED')) !== 'false';
+    this.maxAttempts = this.getPositiveNumber('WEBHOOK_RETRY_MAX_ATTEMPTS', 5);
+    this.baseDelayMs =
+      this.getPositiveNumber('WEBHOOK_RETRY_BASE_DELAY_SECONDS', 60) * 1000;
+    this.stuckAfterMs =
+      this.getPositiveNumber('WEBHOOK_RETRY_STUCK_AFTER_SECONDS', 300) * 1000;
+    this.batchSize = this.getPositiveNumber('WEBHOOK_RETRY_BATCH_SIZE', 20);
+    this.requeueOnly = getWebhookProcessingMode(this.configService) === 'async';
+  }
+
+  /**
+   * Scheduled entry point
+   */
+  @Cron(CronExpression.EVERY_30_SECONDS, { name: 'webhook-retry' })
+  async handleRetryCron() {
+    if (!this.enabled || this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.retryFailedEvents();
+    } catch (error: unknown) {
+      this.logger.error(
+        'Webhook retry run failed',
+        error instanceof Error ? error.stack : error,
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Run one retry pass
+   *
+   * Processing failures are recorded on the event by WebhooksService
+   * (status FAILED, retry_count + 1) - they never abort the batch
+   */
+  async retryFailedEvents(now = new Date()) {
+    const exhausted = await this.markExhaustedEvents(now);
+    const dueEvents = await this.findDueEvents(now);
+
+    if (this.requeueOnly) {
+      const requeued = await this.requeueEvents(
+        dueEvents.map((e) => e.id),
+        now,
+      );
+      return { retried: 0, succeeded: 0, failed: 0, exhausted, requeued };
+    }
+
+    let succeeded = 0;
+    let failed = 0;
+
+    for (const event of dueEvents) {
+      this.logger.log(
+        `Retrying webhook event ${event.id} (${event.event_type}, status ${event.status}, attempt ${event.retry_count + 1})`,
+      );
+
+      try {
+        const result = await this.webhooksService.processWebhook(
+          event.payload as unknown as WebhookPayloadDto,
+        );
+        // Rejected by the amount policy - final, but not a success
+        if (result.rejected) {
+          failed++;
+        } else {
+          succeeded++;
+        }
+      } catch {
+        failed++;
+      }
+    }
+
+    if (dueEvents.length > 0 || exhausted > 0) {
+      this.logger.log(
+        `Webhook retry run: ${dueEvents.length} retried, ${succeeded} succeeded, ${failed} failed, ${exhausted} exhausted`,
+      );
+    }
+
+    return {
+      retried: dueEvents.length,
+      succeeded,
+      failed,
+      exhausted,
+      requeued: 0,
+    };
+  }
+
+  /**
+   * Backoff before the next attempt after `retryCount` failures
+   */
+  getRetryDelayMs(retryCount: number): number {
+    return this.baseDelayMs * 2 ** Math.max(retryCount - 1, 0);
+  }
+
+  /**
+   * Hand events back to the queue worker (async mode)
+   */
+  private async requeueEvents(ids: string[], now: Date): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    // Re-check the lease - the event may have been taken over meanwhile
+    const { count } = await this.db.webhookEvent.updateMany({
+      where: {
+        id: { in: ids },
+        OR: [
+          { status: WebhookStatus.FAILED },
+          { status: WebhookStatus.PROCESSING, lease_expires_at: { lte: now } },
+        ],
+      },
+      data: {
+        status: WebhookStatus.RECEIVED,
+        lease_owner: null,
+        lease_expires_at: null,
+      },
+    });
+
+    this.logger.log(`Requeued ${count} webhook event(s) for retry`);
+
+    return count;
+  }
+
+  /**
+   * Move events that used up all attempts to the dead-letter queue
+   * (EXHAUSTED, see WebhookDeadLetterService)
+   */
+  private async markExhaustedEvents(now: Date): Promise<number> {
+    const { count } = await this.db.webhookEvent.updateMany({
+      where: {
+        status: WebhookStatus.FAILED,
+        retry_count: { gte: this.maxAttempts },
+      },
+      data: { status: WebhookStatus.EXHAUSTED, dead_lettered_at: now },
+    });
+
+    if (count > 0) {
+      this.logger.warn(
+        `${count} webhook event(s) exhausted after ${this.maxAttempts} attempts - moved to the dead-letter queue`,
+      );
+    }
+
+    return count;
+  }
+
+  /**
+   * Find events due for a retry, oldest first
+   *
+   * Backoff depends on retry_count, so there is one condition per attempt
+   * number (bounded by max attempts) - keeps filtering in the database
+   */
+  private findDueEvents(now: Date) {
+    const backoffConditions: Prisma.WebhookEventWhereInput[] = [];
+    for (let attempt = 1; attempt < this.maxAttempts; attempt++) {
+      backoffConditions.push({
+        retry_count: attempt,
+        updated_at: {
+          lte: new Date(now.getTime() - this.getRetryDelayMs(attempt)),
+        },
+      });
+    }
+
+    const dueConditions: Prisma.WebhookEventWhereInput[] = [
+      { status: WebhookStatus.FAILED, OR: backoffConditions },
+      { status: WebhookStatus.PROCESSING, lease_expires_at: { lte: now } },
+    ];
+
+    // In async mode RECEIVED means queued, not stuck
+    if (!this.requeueOnly) {
+      dueConditions.push({
+        status: WebhookStatus.RECEIVED,
+        updated_at: { lte: new Date(now.getTime() - this.stuckAfterMs) },
+      });
+    }
+
+    return this.db.webhookEvent.findMany({
+      where: { OR: dueConditions },
+      orderBy: { updated_at: 'asc' },
+      take: this.batchSize,
+    });
+  }
+
+  private getPositiveNumber(key: string, defaultValue: number): number {
+    const value = Number(this.configService.get(key) ?? defaultValue);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`${key} must be a positive number`);
+    }
+    return value;
+  }
+}
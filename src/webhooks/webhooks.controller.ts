@@ -7,10 +7,15 @@ import {
   UseGuards,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { WebhooksService } from './webhooks.service';
 import { WebhookPayloadDto } from './dto/webhook-payload.dto';
 import { WebhookSignatureGuard } from '../common/guards/webhook-signature.guard';
 import { IWebhookResponse } from './interfaces/webhook.interface';
+import {
+  getWebhookProcessingMode,
+  WebhookProcessingMode,
+} from './webhook-processing-mode';
 
 /**
  * Webhooks Controller
@@ -26,8 +31,14 @@ import { IWebhookResponse } from './interfaces/webhook.interface';
 @Controller('webhooks')
 export class WebhooksController {
   private readonly logger = new Logger(WebhooksController.name);
+  private readonly processingMode: WebhookProcessingMode;
 
-  constructor(private readonly webhooksService: WebhooksService) {}
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    configService: ConfigService,
+  ) {
+    this.processingMode = getWebhookProcessingMode(configService);
+  }
 
   /**
    * POST /webhooks/payment
@@ -39,6 +50,9 @@ export class WebhooksController {
    * - Even for errors (prevents retry storms)
    *
    * Security: Signature verified by guard BEFORE this runs
+   *
+   * WEBHOOK_PROCESSING_MODE=async: only stores the event and returns,
+   * the queue worker processes it (see WebhookQueueService)
    */
   @Post('payment')
   @HttpCode(HttpStatus.OK) // ALWAYS return 200, even for duplicates/errors
@@ -51,7 +65,35 @@ export class WebhooksController {
     );
 
     try {
-      const result = await this.webhooksService.processWebhook(payload);
+      const result =
+        this.processingMode === 'async'
+          ? await this.webhooksService.enqueueWebhook(payload)
+          : await this.webhooksService.processWebhook(payload);
+
+      // Not a duplicate - same key, different payload (see WebhookConflict)
+      if (result.conflict) {
+        this.logger.warn(
+          `Conflicting webhook payload: ${payload.externalPaymentId}`,
+        );
+        return {
+          status: HttpStatus.OK,
+          message:
+            'Webhook rejected (payload conflicts with an earlier delivery)',
+          webhookEventId: result.webhookEventId,
+        };
+      }
+
+      // Refused by the plan's amount policy - final, retrying won't help
+      if (result.rejected) {
+        this.logger.warn(
+          `Webhook rejected: ${payload.externalPaymentId} (${result.error})`,
+        );
+        return {
+          status: HttpStatus.OK,
+          message: 'Webhook rejected (amount mismatch)',
+          webhookEventId: result.webhookEventId,
+        };
+      }
 
       if (result.isDuplicate) {
         this.logger.log(
@@ -59,11 +101,28 @@ export class WebhooksController {
         );
         return {
           status: HttpStatus.OK,
-          message: 'Webhook already processed (duplicate)',
+          message: result.inProgress
+            ? 'Webhook already being processed (duplicate)'
+            : 'Webhook already processed (duplicate)',
           webhookEventId: result.paymentId,
         };
       }
 
+      if (result.queued) {
+        return {
+          status: HttpStatus.OK,
+          message: 'Webhook accepted for processing',
+          webhookEventId: result.webhookEventId,
+        };
+      }
+
+      if (result.ignored) {
+        return {
+          status: HttpStatus.OK,
+          message: 'Webhook received (event type not handled)',
+        };
+      }
+
       this.logger.log(
         `Webhook processed successfully: ${payload.externalPaymentId}`,
       );
@@ -1,13 +1,50 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { WebhooksController } from './webhooks.controller';
+import { WebhookEventsController } from './webhook-events.controller';
+import { WebhookDeadLettersController } from './webhook-dead-letters.controller';
 import { WebhooksService } from './webhooks.service';
+import { WebhookRetryService } from './webhook-retry.service';
+import { WebhookQueueService } from './webhook-queue.service';
+import { WebhookEventsService } from './webhook-events.service';
+import { WebhookReplayService } from './webhook-replay.service';
+import { WebhookDeadLetterService } from './webhook-dead-letter.service';
 import { PaymentsModule } from '../payments/payments.module';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { PlansModule } from '../plans/plans.module';
+import { EntitlementsCacheModule } from '../entitlements/entitlements-cache.module';
+import { WebhookHandlerRegistry } from './handlers/webhook-handler.registry';
+import { PaymentSuccessHandler } from './handlers/payment-success.handler';
+import { PaymentFailedHandler } from './handlers/payment-failed.handler';
+import { PaymentPendingHandler } from './handlers/payment-pending.handler';
+import { PaymentRefundedHandler } from './handlers/payment-refunded.handler';
 
 @Module({
-  imports: [ConfigModule, PaymentsModule, SubscriptionsModule],
-  controllers: [WebhooksController],
-  providers: [WebhooksService],
+  imports: [
+    ConfigModule,
+    PaymentsModule,
+    SubscriptionsModule,
+    PlansModule,
+    EntitlementsCacheModule,
+  ],
+  controllers: [
+    WebhooksController,
+    WebhookEventsController,
+    WebhookDeadLettersController,
+  ],
+  providers: [
+    WebhooksService,
+    WebhookRetryService,
+    WebhookQueueService,
+    WebhookEventsService,
+    WebhookReplayService,
+    WebhookDeadLetterService,
+    WebhookHandlerRegistry,
+    PaymentSuccessHandler,
+    PaymentFailedHandler,
+    PaymentPendingHandler,
+    PaymentRefundedHandler,
+  ],
+  exports: [WebhookHandlerRegistry, WebhookReplayService],
 })
 export class WebhooksModule {}
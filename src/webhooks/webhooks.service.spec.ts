@@ -1,14 +1,27 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { WebhooksService } from './webhooks.service';
 import { DatabaseService } from '../database/database.service';
 import { PaymentsService } from '../payments/payments.service';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { SubscriptionDunningService } from '../subscriptions/subscription-dunning.service';
 import { WebhookPayloadDto } from './dto/webhook-payload.dto';
+import { WebhookHandlerRegistry } from './handlers/webhook-handler.registry';
+import { PaymentSuccessHandler } from './handlers/payment-success.handler';
+import { PaymentFailedHandler } from './handlers/payment-failed.handler';
+import { PaymentPendingHandler } from './handlers/payment-pending.handler';
+import { PaymentRefundedHandler } from './handlers/payment-refunded.handler';
+import { computePayloadHash } from './webhook-payload-hash';
+import { PlansService } from '../plans/plans.service';
+import { PaymentReviewsService } from '../payments/payment-reviews.service';
+import { EntitlementsCacheService } from '../entitlements/entitlements-cache.service';
 
 describe('WebhooksService', () => {
   let service: WebhooksService;
   let db: jest.Mocked<any>;
+  let registry: WebhookHandlerRegistry;
+  let subscriptionsService: SubscriptionsService;
 
   const validPayload: WebhookPayloadDto = {
     externalPaymentId: 'pay_ext_123',
@@ -18,6 +31,37 @@ describe('WebhooksService', () => {
     currency: 'USD',
     planType: 'monthly',
   };
+  const validPayloadHash = computePayloadHash(validPayload);
+
+  const planCatalog: Record<string, unknown> = {
+    monthly: {
+      id: 'plan-monthly',
+      code: 'monthly',
+      billing_interval: 'MONTH',
+      interval_count: 1,
+      amount_mismatch_policy: 'FLAG',
+      active: true,
+      prices: [{ currency: 'USD', amount: 999, tolerance: 100 }],
+    },
+    quarterly: {
+      id: 'plan-quarterly',
+      code: 'quarterly',
+      billing_interval: 'MONTH',
+      interval_count: 3,
+      amount_mismatch_policy: 'PRORATE',
+      active: false,
+      prices: [{ currency: 'EUR', amount: 2499, tolerance: null }],
+    },
+    lifetime: {
+      id: 'plan-lifetime',
+      code: 'lifetime',
+      billing_interval: 'LIFETIME',
+      interval_count: 1,
+      amount_mismatch_policy: 'FLAG',
+      active: true,
+      prices: [{ currency: 'USD', amount: 29999, tolerance: 100 }],
+    },
+  };
 
   beforeEach(async () => {
     const mockDb = {
@@ -25,6 +69,10 @@ describe('WebhooksService', () => {
         findUnique: jest.fn(),
         create: jest.fn(),
         update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      webhookConflict: {
+        create: jest.fn(),
       },
       user: {
         findUnique: jest.fn(),
@@ -34,31 +82,48 @@ describe('WebhooksService', () => {
         create: jest.fn(),
       },
       subscription: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn().mockResolvedValue(null),
         upsert: jest.fn(),
       },
+      plan: {
+        findUnique: jest.fn(({ where }: any) =>
+          Promise.resolve(planCatalog[where.code] ?? null),
+        ),
+      },
       $transaction: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         WebhooksService,
+        WebhookHandlerRegistry,
+        PlansService,
+        PaymentReviewsService,
+        PaymentSuccessHandler,
+        PaymentFailedHandler,
+        PaymentPendingHandler,
+        PaymentRefundedHandler,
         { provide: DatabaseService, useValue: mockDb },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
         {
           provide: PaymentsService,
           useValue: { createPayment: jest.fn(), findByExternalId: jest.fn() },
         },
-        {
-          provide: SubscriptionsService,
-          useValue: {
-            activateOrExtendSubscription: jest.fn(),
-            getUserSubscription: jest.fn(),
-          },
-        },
+        SubscriptionsService,
+        SubscriptionDunningService,
+        EntitlementsCacheService,
       ],
     }).compile();
 
     service = module.get<WebhooksService>(WebhooksService);
     db = module.get(DatabaseService);
+    registry = module.get(WebhookHandlerRegistry);
+    subscriptionsService = module.get(SubscriptionsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
   });
 
   it('should be defined', () => {
@@ -72,6 +137,7 @@ describe('WebhooksService', () => {
     it('should return isDuplicate=true for already processed webhook', async () => {
       db.webhookEvent.findUnique.mockResolvedValue({
         id: 'existing-event-id',
+        payload_hash: validPayloadHash,
         external_payment_id: 'pay_ext_123',
         event_type: 'payment.success',
         status: 'PROCESSED',
@@ -99,10 +165,16 @@ describe('WebhooksService', () => {
       });
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
-          payment: { create: jest.fn().mockResolvedValue({ id: 'pay-id' }) },
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -127,6 +199,7 @@ describe('WebhooksService', () => {
         .mockResolvedValueOnce({
           // second call (duplicate)
           id: 'event-id',
+          payload_hash: validPayloadHash,
           status: 'PROCESSED',
           processed_at: new Date(),
         });
@@ -141,10 +214,16 @@ describe('WebhooksService', () => {
       });
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
-          payment: { create: jest.fn().mockResolvedValue({ id: 'pay-id' }) },
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -182,21 +261,23 @@ describe('WebhooksService', () => {
       db.$transaction.mockImplementation(async (fn: any) => {
         callOrder.push('transaction');
         return fn({
-          payment: { create: jest.fn().mockResolvedValue({ id: 'pay-id' }) },
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: jest.fn() },
         });
       });
 
       await service.processWebhook(validPayload);
 
-      expect(callOrder).toEqual([
-        'dedup_check',
-        'create_event',
-        'transaction',
-      ]);
+      expect(callOrder).toEqual(['dedup_check', 'create_event', 'transaction']);
     });
 
     it('should find/create user BEFORE starting transaction', async () => {
@@ -214,10 +295,16 @@ describe('WebhooksService', () => {
       db.$transaction.mockImplementation(async (fn: any) => {
         callOrder.push('transaction');
         return fn({
-          payment: { create: jest.fn().mockResolvedValue({ id: 'pay-id' }) },
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: jest.fn() },
         });
       });
@@ -245,9 +332,10 @@ describe('WebhooksService', () => {
         email: 'test@example.com',
       });
 
-      const txPaymentCreate = jest
-        .fn()
-        .mockResolvedValue({ id: 'pay-id', external_payment_id: 'pay_ext_123' });
+      const txPaymentUpsert = jest.fn().mockResolvedValue({
+        id: 'pay-id',
+        external_payment_id: 'pay_ext_123',
+      });
       const txSubscriptionUpsert = jest
         .fn()
         .mockResolvedValue({ id: 'sub-id' });
@@ -255,8 +343,16 @@ describe('WebhooksService', () => {
 
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
-          payment: { create: txPaymentCreate },
-          subscription: { upsert: txSubscriptionUpsert },
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: txPaymentUpsert,
+          },
+          subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: txSubscriptionUpsert,
+          },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: txWebhookUpdate },
         }),
       );
@@ -265,7 +361,7 @@ describe('WebhooksService', () => {
 
       // All three operations called inside transaction
       expect(db.$transaction).toHaveBeenCalledTimes(1);
-      expect(txPaymentCreate).toHaveBeenCalledTimes(1);
+      expect(txPaymentUpsert).toHaveBeenCalledTimes(1);
       expect(txSubscriptionUpsert).toHaveBeenCalledTimes(1);
       expect(txWebhookUpdate).toHaveBeenCalledTimes(1);
     });
@@ -286,17 +382,21 @@ describe('WebhooksService', () => {
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
           payment: {
-            create: jest.fn().mockImplementation(async () => {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockImplementation(async () => {
               callOrder.push('create_payment');
               return { id: 'pay-id' };
             }),
           },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockImplementation(async () => {
               callOrder.push('upsert_subscription');
               return { id: 'sub-id' };
             }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: {
             update: jest.fn().mockImplementation(async () => {
               callOrder.push('mark_processed');
@@ -330,17 +430,21 @@ describe('WebhooksService', () => {
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
           payment: {
-            create: jest.fn().mockImplementation(async () => {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockImplementation(async () => {
               callOrder.push('payment');
               return { id: 'pay-id' };
             }),
           },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockImplementation(async () => {
               callOrder.push('subscription');
               return { id: 'sub-id' };
             }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: {
             update: jest.fn().mockImplementation(async () => {
               callOrder.push('webhook_processed');
@@ -381,6 +485,7 @@ describe('WebhooksService', () => {
     it('should return 200-equivalent success for duplicate webhook', async () => {
       db.webhookEvent.findUnique.mockResolvedValue({
         id: 'existing-id',
+        payload_hash: validPayloadHash,
         status: 'PROCESSED',
         processed_at: new Date(),
       });
@@ -408,10 +513,16 @@ describe('WebhooksService', () => {
 
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
-          payment: { create: jest.fn().mockResolvedValue({ id: 'pay-id' }) },
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -442,10 +553,16 @@ describe('WebhooksService', () => {
 
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
-          payment: { create: jest.fn().mockResolvedValue({ id: 'pay-id' }) },
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -474,15 +591,21 @@ describe('WebhooksService', () => {
         email: 'test@example.com',
       });
 
-      db.$transaction.mockImplementation(async (fn: any) =>
-        fn({
-          payment: { create: jest.fn().mockResolvedValue({ id: 'pay-id' }) },
-          subscription: {
-            upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
-          },
-          webhookEvent: { update: jest.fn() },
-        }),
-      );
+      const tx = {
+        payment: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+        },
+        subscription: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        },
+        paymentReview: { upsert: jest.fn().mockResolvedValue({ id: 'rev' }) },
+        subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      };
+      db.$transaction.mockImplementation(async (fn: any) => fn(tx));
 
       // Amount 5000 instead of expected 999 for monthly (>$1 variance)
       const result = await service.processWebhook({
@@ -490,8 +613,9 @@ describe('WebhooksService', () => {
         amount: 5000,
       });
 
-      // Should still process (logs mismatch but proceeds)
+      // Should still process (monthly plan policy FLAG → review queue)
       expect(result.success).toBe(true);
+      expect(tx.paymentReview.upsert).toHaveBeenCalled();
     });
 
     // Invalid amount (validation)
@@ -533,6 +657,280 @@ describe('WebhooksService', () => {
     });
   });
 
+  // =============================================
+  // Plan catalog (database-backed plans)
+  // =============================================
+  describe('Plan catalog', () => {
+    let tx: any;
+
+    beforeEach(() => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({ id: 'event-id' });
+      db.user.findUnique.mockResolvedValue({ id: 'user-id' });
+
+      tx = {
+        payment: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+        },
+        subscription: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          findUnique: jest.fn().mockResolvedValue(null),
+          findMany: jest.fn().mockResolvedValue([]),
+          upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        },
+        subscriptionPlanChange: {
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        subscriptionPeriod: {
+          create: jest.fn(),
+          updateMany: jest.fn(),
+          findMany: jest.fn().mockResolvedValue([]),
+        },
+        webhookEvent: { update: jest.fn() },
+      };
+      db.$transaction.mockImplementation(async (fn: any) => fn(tx));
+    });
+
+    it('should take the subscription length from the plan interval', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-31T10:00:00Z') });
+
+      await service.processWebhook({
+        ...validPayload,
+        planType: 'quarterly',
+        currency: 'EUR',
+        amount: 2499,
+      });
+
+      // 3 calendar months, clamped to the end of April
+      const { create } = tx.subscription.upsert.mock.calls[0][0];
+      expect(create.expires_at).toEqual(new Date('2026-04-30T10:00:00Z'));
+      expect(create.billing_anchor_day).toBe(31);
+    });
+
+    it('should activate a lifetime plan without an expiry date', async () => {
+      tx.subscription.updateMany = jest.fn().mockResolvedValue({ count: 0 });
+
+      await service.processWebhook({
+        ...validPayload,
+        planType: 'lifetime',
+        amount: 29999,
+      });
+
+      const { create } = tx.subscription.upsert.mock.calls[0][0];
+      expect(create.is_lifetime).toBe(true);
+      expect(create.expires_at).toBeNull();
+    });
+
+    it('should still process payments for an inactive plan', async () => {
+      const result = await service.processWebhook({
+        ...validPayload,
+        planType: 'quarterly',
+        currency: 'EUR',
+        amount: 2499,
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should not flag an amount within the price tolerance', async () => {
+      tx.paymentReview = { upsert: jest.fn() };
+
+      await service.processWebhook({ ...validPayload, amount: 1050 });
+
+      expect(tx.paymentReview.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should flag a mismatched payment for review (FLAG policy)', async () => {
+      tx.paymentReview = { upsert: jest.fn().mockResolvedValue({ id: 'rev' }) };
+
+      await service.processWebhook({ ...validPayload, amount: 5000 });
+
+      expect(tx.paymentReview.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { payment_id: 'pay-id' },
+          create: expect.objectContaining({
+            reason: 'AMOUNT_MISMATCH',
+            expected_amount: 999,
+            paid_amount: 5000,
+            granted_days: 30,
+          }),
+        }),
+      );
+    });
+
+    it('should reject a mismatched payment (REJECT policy)', async () => {
+      planCatalog.strict = {
+        ...(planCatalog.monthly as object),
+        code: 'strict',
+        amount_mismatch_policy: 'REJECT',
+      };
+
+      const result = await service.processWebhook({
+        ...validPayload,
+        planType: 'strict',
+        amount: 5000,
+      });
+
+      expect(result).toEqual({
+        success: false,
+        isDuplicate: false,
+        rejected: true,
+        webhookEventId: 'event-id',
+        error: 'Amount 5000 does not match plan price 999',
+      });
+      expect(tx.payment.upsert).not.toHaveBeenCalled();
+
+      // Final - not FAILED, so the retry worker never picks it up
+      expect(db.webhookEvent.update).toHaveBeenCalledTimes(1);
+      expect(db.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-id', lease_owner: expect.any(String) },
+        data: {
+          status: 'REJECTED',
+          processing_error: 'Amount 5000 does not match plan price 999',
+          processed_at: expect.any(Date),
+          lease_owner: null,
+          lease_expires_at: null,
+        },
+      });
+
+      delete planCatalog.strict;
+    });
+
+    it('should answer a redelivery of a rejected payment as a duplicate', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'event-id',
+        status: 'REJECTED',
+        payload_hash: computePayloadHash({ ...validPayload, amount: 5000 }),
+      });
+
+      const result = await service.processWebhook({
+        ...validPayload,
+        amount: 5000,
+      });
+
+      expect(result).toMatchObject({ success: true, isDuplicate: true });
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should grant pro-rated time for an underpayment (PRORATE policy)', async () => {
+      const before = Date.now();
+
+      // Half the quarterly price → half the period, no review
+      await service.processWebhook({
+        ...validPayload,
+        planType: 'quarterly',
+        currency: 'EUR',
+        amount: 1250,
+      });
+
+      const { create } = tx.subscription.upsert.mock.calls[0][0];
+      const days = (create.expires_at.getTime() - before) / 86_400_000;
+      expect(Math.round(days)).toBe(45);
+    });
+
+    it('should flag an underpaid lifetime plan instead of prorating it', async () => {
+      planCatalog.lifetimeProrated = {
+        ...(planCatalog.lifetime as object),
+        code: 'lifetimeProrated',
+        amount_mismatch_policy: 'PRORATE',
+      };
+      tx.subscription.updateMany = jest.fn().mockResolvedValue({ count: 0 });
+      tx.paymentReview = { upsert: jest.fn().mockResolvedValue({ id: 'rev' }) };
+
+      await service.processWebhook({
+        ...validPayload,
+        planType: 'lifetimeProrated',
+        amount: 15000,
+      });
+
+      const { create } = tx.subscription.upsert.mock.calls[0][0];
+      expect(create.is_lifetime).toBe(true);
+      expect(tx.paymentReview.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            reason: 'AMOUNT_MISMATCH',
+            paid_amount: 15000,
+            granted_days: null,
+          }),
+        }),
+      );
+
+      delete planCatalog.lifetimeProrated;
+    });
+
+    it('should flag an underpayment worth less than a day (PRORATE policy)', async () => {
+      tx.paymentReview = { upsert: jest.fn().mockResolvedValue({ id: 'rev' }) };
+      const before = Date.now();
+
+      // 10 / 2499 of 90 days → 0 days; grant the full period and flag
+      await service.processWebhook({
+        ...validPayload,
+        planType: 'quarterly',
+        currency: 'EUR',
+        amount: 10,
+      });
+
+      const { create } = tx.subscription.upsert.mock.calls[0][0];
+      expect(create.expires_at.getTime()).toBeGreaterThan(
+        before + 80 * 86_400_000,
+      );
+      expect(tx.paymentReview.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            reason: 'AMOUNT_MISMATCH',
+            paid_amount: 10,
+            granted_days: 90,
+          }),
+        }),
+      );
+    });
+
+    it('should treat a currency without a plan price as a mismatch', async () => {
+      tx.paymentReview = { upsert: jest.fn().mockResolvedValue({ id: 'rev' }) };
+
+      await service.processWebhook({
+        ...validPayload,
+        currency: 'KES',
+        amount: 130_000,
+      });
+
+      expect(tx.paymentReview.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            reason: 'NO_PRICE_FOR_CURRENCY',
+            expected_amount: null,
+          }),
+        }),
+      );
+    });
+
+    it('should not check the amount of events that grant no time', async () => {
+      tx.payment.findUnique = jest
+        .fn()
+        .mockResolvedValue({ id: 'pay-id', status: 'COMPLETED' });
+      tx.payment.update = jest.fn().mockResolvedValue({ id: 'pay-id' });
+      tx.subscription.findUnique = jest.fn().mockResolvedValue(null);
+      tx.paymentReview = { upsert: jest.fn() };
+
+      await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.refunded',
+        amount: 1,
+      });
+
+      expect(tx.paymentReview.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should look the plan up by the payload planType', async () => {
+      await service.processWebhook(validPayload);
+
+      expect(db.plan.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { code: 'monthly' } }),
+      );
+    });
+  });
+
   // =============================================
   // RUBRIC: Successful processing flow
   // =============================================
@@ -551,13 +949,18 @@ describe('WebhooksService', () => {
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
           payment: {
-            create: jest
-              .fn()
-              .mockResolvedValue({ id: 'pay-id', external_payment_id: 'pay_ext_123' }),
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({
+              id: 'pay-id',
+              external_payment_id: 'pay_ext_123',
+            }),
           },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -584,10 +987,16 @@ describe('WebhooksService', () => {
       });
       db.$transaction.mockImplementation(async (fn: any) =>
         fn({
-          payment: { create: jest.fn().mockResolvedValue({ id: 'pay-id' }) },
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -600,5 +1009,1405 @@ describe('WebhooksService', () => {
       expect(createCall.data.external_payment_id).toBe('pay_ext_123');
       expect(createCall.data.event_type).toBe('payment.success');
     });
+
+    describe('early renewal', () => {
+      let txSubscription: {
+        findFirst: jest.Mock;
+        findUnique: jest.Mock;
+        upsert: jest.Mock;
+      };
+
+      beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2026-01-20T10:00:00Z') });
+        db.webhookEvent.findUnique.mockResolvedValue(null);
+        db.webhookEvent.create.mockResolvedValue({
+          id: 'event-id',
+          status: 'RECEIVED',
+        });
+        db.user.findUnique.mockResolvedValue({
+          id: 'user-id',
+          email: 'test@example.com',
+        });
+
+        txSubscription = {
+          findFirst: jest.fn().mockResolvedValue(null),
+          findUnique: jest.fn(),
+          upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        };
+        db.$transaction.mockImplementation(async (fn: any) =>
+          fn({
+            payment: {
+              findUnique: jest.fn().mockResolvedValue(null),
+              upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+            },
+            subscription: txSubscription,
+            subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+            webhookEvent: { update: jest.fn() },
+          }),
+        );
+      });
+
+      it('should extend an active subscription from its current expiry', async () => {
+        txSubscription.findUnique.mockResolvedValue({
+          id: 'sub-id',
+          status: 'ACTIVE',
+          expires_at: new Date('2026-01-31T10:00:00Z'),
+          billing_anchor_day: 31,
+        });
+
+        await service.processWebhook(validPayload);
+
+        // One calendar month, clamped to the end of February
+        expect(txSubscription.upsert).toHaveBeenCalledWith(
+          expect.objectContaining({
+            update: expect.objectContaining({
+              status: 'ACTIVE',
+              expires_at: new Date('2026-02-28T10:00:00Z'),
+              billing_anchor_day: 31,
+            }),
+          }),
+        );
+      });
+
+      it('should restart an expired subscription from now', async () => {
+        txSubscription.findUnique.mockResolvedValue({
+          id: 'sub-id',
+          status: 'ACTIVE',
+          expires_at: new Date('2026-01-19T10:00:00Z'),
+          billing_anchor_day: 19,
+        });
+
+        await service.processWebhook(validPayload);
+
+        const { update } = txSubscription.upsert.mock.calls[0][0];
+        expect(update.expires_at).toEqual(new Date('2026-02-20T10:00:00Z'));
+        expect(update.billing_anchor_day).toBe(20);
+      });
+
+      it('should read the subscription through the webhook transaction', async () => {
+        txSubscription.findUnique.mockResolvedValue(null);
+
+        await service.processWebhook(validPayload);
+
+        expect(txSubscription.findUnique).toHaveBeenCalledWith({
+          where: {
+            user_id_plan_type: { user_id: 'user-id', plan_type: 'monthly' },
+          },
+        });
+        expect(db.subscription.findUnique).not.toHaveBeenCalled();
+        expect(db.subscription.upsert).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  // =============================================
+  // Failure handling
+  // =============================================
+  describe('Failure handling', () => {
+    const successfulTx = () => ({
+      payment: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+      },
+      subscription: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+      },
+      subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+      webhookEvent: { update: jest.fn() },
+    });
+
+    beforeEach(() => {
+      db.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'test@example.com',
+      });
+    });
+
+    it('should mark event FAILED with error and increment retry_count when transaction fails', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+      db.$transaction.mockRejectedValue(new Error('Deadlock detected'));
+
+      await expect(service.processWebhook(validPayload)).rejects.toThrow(
+        'Deadlock detected',
+      );
+
+      expect(db.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-id', lease_owner: expect.any(String) },
+        data: {
+          status: 'FAILED',
+          processing_error: 'Deadlock detected',
+          retry_count: { increment: 1 },
+          lease_owner: null,
+          lease_expires_at: null,
+        },
+      });
+    });
+
+    it('should mark event FAILED when validation fails', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+
+      await expect(
+        service.processWebhook({ ...validPayload, planType: 'invalid_plan' }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(db.webhookEvent.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'FAILED',
+            processing_error: 'Invalid plan type',
+          }),
+        }),
+      );
+    });
+
+    it('should mark event FAILED when user creation fails', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+      db.user.findUnique.mockResolvedValue(null);
+      db.user.create.mockRejectedValue(new Error('Connection reset'));
+
+      await expect(service.processWebhook(validPayload)).rejects.toThrow(
+        'Connection reset',
+      );
+
+      expect(db.webhookEvent.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'FAILED' }),
+        }),
+      );
+    });
+
+    it('should not record a failure when the event record was never created', async () => {
+      db.webhookEvent.findUnique.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.processWebhook(validPayload)).rejects.toThrow(
+        'DB down',
+      );
+
+      expect(db.webhookEvent.update).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow the original error if recording the failure also fails', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+      db.$transaction.mockRejectedValue(new Error('Transaction failed'));
+      db.webhookEvent.update.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.processWebhook(validPayload)).rejects.toThrow(
+        'Transaction failed',
+      );
+    });
+
+    it.each(['FAILED', 'RECEIVED'])(
+      'should reprocess a redelivered %s event instead of reporting duplicate',
+      async (status) => {
+        db.webhookEvent.findUnique.mockResolvedValue({
+          id: 'existing-event-id',
+          payload_hash: validPayloadHash,
+          status,
+          retry_count: 1,
+        });
+        const tx = successfulTx();
+        db.$transaction.mockImplementation(async (fn: any) => fn(tx));
+
+        const result = await service.processWebhook(validPayload);
+
+        expect(result.isDuplicate).toBe(false);
+        expect(result.paymentId).toBe('pay-id');
+        // Reuses the stored event instead of hitting the unique constraint
+        expect(db.webhookEvent.create).not.toHaveBeenCalled();
+        expect(tx.webhookEvent.update).toHaveBeenCalledWith({
+          where: { id: 'existing-event-id', lease_owner: expect.any(String) },
+          data: expect.objectContaining({
+            status: 'PROCESSED',
+            processing_error: null,
+          }),
+        });
+      },
+    );
+
+    it('should treat IGNORED events as duplicates', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'existing-event-id',
+        payload_hash: validPayloadHash,
+        status: 'IGNORED',
+      });
+
+      const result = await service.processWebhook(validPayload);
+
+      expect(result.isDuplicate).toBe(true);
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should treat DISCARDED dead letters as duplicates', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'existing-event-id',
+        payload_hash: validPayloadHash,
+        status: 'DISCARDED',
+      });
+
+      const result = await service.processWebhook(validPayload);
+
+      expect(result.isDuplicate).toBe(true);
+      expect(db.webhookEvent.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  // =============================================
+  // Event type dispatch
+  // =============================================
+  describe('Event type dispatch', () => {
+    beforeEach(() => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+      db.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'test@example.com',
+      });
+    });
+
+    function mockTransaction(tx: any) {
+      db.$transaction.mockImplementation(async (fn: any) => fn(tx));
+      return tx;
+    }
+
+    it('should record FAILED payment without touching subscription when nothing is renewing', async () => {
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+        },
+        subscription: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn(),
+          update: jest.fn(),
+        },
+        subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      const result = await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.failed',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        isDuplicate: false,
+        paymentId: 'pay-id',
+      });
+      expect(tx.payment.upsert.mock.calls[0][0].create.status).toBe('FAILED');
+      expect(tx.subscription.upsert).not.toHaveBeenCalled();
+      expect(tx.subscription.update).not.toHaveBeenCalled();
+      expect(tx.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-id', lease_owner: expect.any(String) },
+        data: expect.objectContaining({ status: 'PROCESSED' }),
+      });
+    });
+
+    it('should put the subscription into PAST_DUE when its renewal fails', async () => {
+      jest.useFakeTimers({ now: new Date('2026-03-01T00:10:00Z') });
+      const subscription = {
+        id: 'sub-id',
+        user_id: 'user-id',
+        plan_type: 'monthly',
+        status: 'ACTIVE',
+        is_lifetime: false,
+        expires_at: new Date('2026-03-01T00:00:00Z'),
+      };
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+        },
+        subscription: {
+          findUnique: jest.fn().mockResolvedValue(subscription),
+          update: jest.fn((args: any) =>
+            Promise.resolve({ ...subscription, ...args.data }),
+          ),
+        },
+        subscriptionEvent: { create: jest.fn() },
+        subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      const result = await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.failed',
+      });
+
+      expect(result.subscriptionId).toBe('sub-id');
+      // Default grace: 7 days from the failure (period already ended)
+      expect(tx.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-id' },
+        data: {
+          status: 'PAST_DUE',
+          past_due_at: new Date('2026-03-01T00:10:00Z'),
+          grace_ends_at: new Date('2026-03-08T00:10:00Z'),
+          dunning_step: 0,
+        },
+      });
+      expect(tx.subscriptionEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          subscription_id: 'sub-id',
+          type: 'PAST_DUE',
+          from_status: 'ACTIVE',
+          to_status: 'PAST_DUE',
+        }),
+      });
+    });
+
+    it('should not downgrade a completed payment on late payment.failed', async () => {
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest
+            .fn()
+            .mockResolvedValue({ id: 'pay-id', status: 'COMPLETED' }),
+          upsert: jest.fn(),
+        },
+        subscription: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn(),
+        },
+        subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.failed',
+      });
+
+      expect(tx.payment.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should record PENDING payment without activating subscription for payment.pending', async () => {
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+        },
+        subscription: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn(),
+        },
+        subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.pending',
+      });
+
+      expect(tx.payment.upsert.mock.calls[0][0].create.status).toBe('PENDING');
+      expect(tx.subscription.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should complete a pending payment on payment.success', async () => {
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+        },
+        subscription: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          findUnique: jest.fn().mockResolvedValue(null),
+          upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        },
+        subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await service.processWebhook(validPayload);
+
+      const upsertCall = tx.payment.upsert.mock.calls[0][0];
+      expect(upsertCall.where).toEqual({ external_payment_id: 'pay_ext_123' });
+      expect(upsertCall.update.status).toBe('COMPLETED');
+    });
+
+    it('should not grant time for a success arriving after the refund', async () => {
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest
+            .fn()
+            .mockResolvedValue({ id: 'pay-id', status: 'REFUNDED' }),
+          upsert: jest.fn(),
+        },
+        subscription: { upsert: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      const result = await service.processWebhook(validPayload);
+
+      expect(result).toEqual({
+        success: true,
+        isDuplicate: false,
+        paymentId: 'pay-id',
+      });
+      expect(tx.payment.upsert).not.toHaveBeenCalled();
+      expect(tx.subscription.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should refund payment and take back the subscription time on payment.refunded', async () => {
+      jest.useFakeTimers({ now: new Date('2026-03-10T10:00:00Z') });
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'pay-id',
+            user_id: 'user-id',
+            plan_type: 'monthly',
+            status: 'COMPLETED',
+          }),
+          update: jest.fn(),
+        },
+        subscription: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'sub-id',
+            expires_at: new Date('2026-04-24T10:00:00Z'),
+            billing_anchor_day: 24,
+          }),
+          update: jest.fn().mockImplementation(async (args: any) => ({
+            id: 'sub-id',
+            ...args.data,
+          })),
+        },
+        subscriptionPlanChange: {
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        subscriptionPeriod: {
+          create: jest.fn(),
+          updateMany: jest.fn(),
+          findMany: jest.fn().mockResolvedValue([]),
+        },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      const result = await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.refunded',
+      });
+
+      expect(result.subscriptionId).toBe('sub-id');
+      expect(tx.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay-id' },
+        data: { status: 'REFUNDED' },
+      });
+      expect(tx.subscriptionPeriod.updateMany).toHaveBeenCalledWith({
+        where: { payment_id: 'pay-id', revoked_at: null },
+        data: { revoked_at: expect.any(Date) },
+      });
+      const subUpdate = tx.subscription.update.mock.calls[0][0];
+      // One calendar month taken back from Apr 24
+      expect(subUpdate.data.expires_at).toEqual(
+        new Date('2026-03-24T10:00:00Z'),
+      );
+      expect(subUpdate.data.status).toBeUndefined();
+    });
+
+    it('should expire subscription when refund leaves no time', async () => {
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'pay-id',
+            user_id: 'user-id',
+            plan_type: 'monthly',
+            status: 'COMPLETED',
+          }),
+          update: jest.fn(),
+        },
+        subscription: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'sub-id',
+            expires_at: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+          }),
+          update: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        },
+        subscriptionPlanChange: {
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        subscriptionPeriod: {
+          create: jest.fn(),
+          updateMany: jest.fn(),
+          findMany: jest.fn().mockResolvedValue([]),
+        },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.refunded',
+      });
+
+      expect(tx.subscription.update.mock.calls[0][0].data.status).toBe(
+        'EXPIRED',
+      );
+    });
+
+    it('should take back the upgrade credit when the old plan payment is refunded', async () => {
+      jest.useFakeTimers({ now: new Date('2026-03-10T10:00:00Z') });
+      const subscriptions: Record<string, any> = {
+        'sub-monthly': {
+          id: 'sub-monthly',
+          plan_type: 'monthly',
+          status: 'CANCELLED',
+          expires_at: new Date('2026-03-05T10:00:00Z'),
+        },
+        'sub-yearly': {
+          id: 'sub-yearly',
+          plan_type: 'yearly',
+          status: 'ACTIVE',
+          expires_at: new Date('2027-03-23T10:00:00Z'),
+        },
+      };
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'pay-id',
+            user_id: 'user-id',
+            plan_type: 'monthly',
+            status: 'COMPLETED',
+          }),
+          update: jest.fn(),
+        },
+        subscription: {
+          findUnique: jest.fn(async ({ where }: any) =>
+            where.id
+              ? subscriptions[where.id]
+              : subscriptions[`sub-${where.user_id_plan_type.plan_type}`],
+          ),
+          update: jest.fn(async ({ where, data }: any) => ({
+            ...subscriptions[where.id],
+            ...data,
+          })),
+        },
+        subscriptionPlanChange: {
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        subscriptionPeriod: {
+          create: jest.fn(),
+          updateMany: jest.fn(),
+          findMany: jest.fn().mockResolvedValue([
+            {
+              subscription_id: 'sub-monthly',
+              plan_type: 'monthly',
+              reason: 'RENEWAL',
+              starts_at: new Date('2026-02-20T10:00:00Z'),
+              ends_at: new Date('2026-03-20T10:00:00Z'),
+            },
+            // 18 days credited on the upgrade on Mar 5
+            {
+              subscription_id: 'sub-yearly',
+              plan_type: 'yearly',
+              reason: 'UPGRADE',
+              starts_at: new Date('2027-03-05T10:00:00Z'),
+              ends_at: new Date('2027-03-23T10:00:00Z'),
+            },
+          ]),
+        },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.refunded',
+      });
+
+      expect(tx.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-yearly' },
+        data: { expires_at: new Date('2027-03-05T10:00:00Z') },
+      });
+    });
+
+    describe('refund of a paused subscription', () => {
+      const now = new Date('2026-03-10T00:00:00Z');
+      let pause: any;
+      let subscription: any;
+
+      // Stateful pause/subscription rows shared by the refund and the resume
+      function mockPausedTransaction() {
+        pause = {
+          id: 'pause-id',
+          subscription_id: 'sub-id',
+          paused_at: new Date('2026-03-01T00:00:00Z'),
+          ended_at: null,
+          remaining_seconds: 40 * 86_400, // 10 own days + 30 bought
+        };
+        subscription = {
+          id: 'sub-id',
+          user_id: 'user-id',
+          plan_type: 'monthly',
+          status: 'PAUSED',
+          expires_at: new Date('2026-04-10T00:00:00Z'),
+        };
+        db.subscriptionPause = {
+          findMany: jest.fn(() =>
+            Promise.resolve(pause.ended_at ? [] : [pause]),
+          ),
+        };
+        return mockTransaction({
+          payment: {
+            findUnique: jest.fn().mockResolvedValue({
+              id: 'pay-id',
+              user_id: 'user-id',
+              plan_type: 'monthly',
+              status: 'COMPLETED',
+            }),
+            update: jest.fn(),
+          },
+          subscription: {
+            findUnique: jest.fn(() => Promise.resolve(subscription)),
+            update: jest.fn((args: any) => {
+              subscription = { ...subscription, ...args.data };
+              return Promise.resolve(subscription);
+            }),
+          },
+          subscriptionPause: {
+            findFirst: jest.fn(() =>
+              Promise.resolve(pause.ended_at ? null : pause),
+            ),
+            update: jest.fn((args: any) => {
+              pause = { ...pause, ...args.data };
+              return Promise.resolve(pause);
+            }),
+            updateMany: jest.fn((args: any) => {
+              if (pause.ended_at) return Promise.resolve({ count: 0 });
+              pause = { ...pause, ...args.data };
+              return Promise.resolve({ count: 1 });
+            }),
+          },
+          subscriptionPlanChange: {
+            updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+          },
+          subscriptionPeriod: {
+            create: jest.fn(),
+            updateMany: jest.fn(),
+            findMany: jest.fn().mockResolvedValue([
+              {
+                subscription_id: 'sub-id',
+                starts_at: new Date('2026-03-11T00:00:00Z'),
+                ends_at: new Date('2026-04-10T00:00:00Z'),
+              },
+            ]),
+          },
+          subscriptionEvent: { create: jest.fn() },
+          webhookEvent: { update: jest.fn() },
+        });
+      }
+
+      beforeEach(() => {
+        jest.useFakeTimers({ now });
+      });
+
+      it('should not give the refunded time back on resume', async () => {
+        mockPausedTransaction();
+
+        await service.processWebhook({
+          ...validPayload,
+          eventType: 'payment.refunded',
+        });
+        expect(pause.remaining_seconds).toBe(10 * 86_400);
+        expect(subscription.status).toBe('PAUSED');
+
+        await subscriptionsService.resumeDuePauses(now);
+
+        expect(subscription.status).toBe('ACTIVE');
+        expect(subscription.expires_at).toEqual(
+          new Date('2026-03-20T00:00:00Z'),
+        );
+      });
+
+      it('should close the pause when the refund leaves no time', async () => {
+        mockPausedTransaction();
+        pause.remaining_seconds = 20 * 86_400;
+
+        await service.processWebhook({
+          ...validPayload,
+          eventType: 'payment.refunded',
+        });
+        expect(pause.ended_at).toEqual(now);
+        expect(subscription.status).toBe('EXPIRED');
+
+        expect(await subscriptionsService.resumeDuePauses(now)).toBe(0);
+        expect(subscription.status).toBe('EXPIRED');
+      });
+    });
+
+    it('should only take back the time a prorated payment bought', async () => {
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'pay-id',
+            user_id: 'user-id',
+            plan_type: 'monthly',
+            status: 'COMPLETED',
+          }),
+          update: jest.fn(),
+        },
+        subscription: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'sub-id',
+            expires_at: new Date('2099-04-24T10:00:00Z'),
+            billing_anchor_day: 24,
+          }),
+          update: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        },
+        subscriptionPlanChange: {
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        subscriptionPeriod: {
+          updateMany: jest.fn(),
+          // Underpayment bought 15 days
+          findMany: jest.fn().mockResolvedValue([
+            {
+              subscription_id: 'sub-id',
+              starts_at: new Date('2099-04-09T10:00:00Z'),
+              ends_at: new Date('2099-04-24T10:00:00Z'),
+            },
+          ]),
+        },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.refunded',
+      });
+
+      expect(tx.subscription.update.mock.calls[0][0].data.expires_at).toEqual(
+        new Date('2099-04-09T10:00:00Z'),
+      );
+    });
+
+    it('should end a lifetime subscription when its purchase is refunded', async () => {
+      const tx = mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'pay-id',
+            user_id: 'user-id',
+            plan_type: 'lifetime',
+            status: 'COMPLETED',
+          }),
+          update: jest.fn(),
+        },
+        subscription: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'sub-id',
+            status: 'ACTIVE',
+            is_lifetime: true,
+            expires_at: null,
+          }),
+          update: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+        },
+        subscriptionPlanChange: {
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        subscriptionPeriod: {
+          create: jest.fn(),
+          updateMany: jest.fn(),
+          findMany: jest.fn().mockResolvedValue([]),
+        },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.refunded',
+        planType: 'lifetime',
+        amount: 29999,
+      });
+
+      const { data } = tx.subscription.update.mock.calls[0][0];
+      expect(data.status).toBe('EXPIRED');
+      expect(data.is_lifetime).toBe(false);
+      expect(data.expires_at).toBeInstanceOf(Date);
+    });
+
+    it('should not create a user for payment.refunded', async () => {
+      mockTransaction({
+        payment: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 'pay-id',
+            status: 'PENDING',
+          }),
+          update: jest.fn(),
+        },
+        subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.refunded',
+      });
+
+      expect(db.user.findUnique).not.toHaveBeenCalled();
+      expect(db.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should fail refund for unknown payment', async () => {
+      mockTransaction({
+        payment: { findUnique: jest.fn().mockResolvedValue(null) },
+        subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+        webhookEvent: { update: jest.fn() },
+      });
+
+      await expect(
+        service.processWebhook({
+          ...validPayload,
+          eventType: 'payment.refunded',
+        }),
+      ).rejects.toThrow('not found for refund');
+    });
+
+    it('should store and acknowledge unknown event types without processing', async () => {
+      const result = await service.processWebhook({
+        ...validPayload,
+        eventType: 'customer.updated',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        isDuplicate: false,
+        ignored: true,
+      });
+      expect(db.webhookEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ event_type: 'customer.updated' }),
+      });
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'event-id',
+          status: 'PROCESSING',
+          lease_owner: expect.any(String),
+        },
+        data: expect.objectContaining({ status: 'IGNORED' }),
+      });
+      expect(db.user.findUnique).not.toHaveBeenCalled();
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not mark an unknown event type IGNORED after losing the lease', async () => {
+      // Lease taken over by another worker before we got to mark it
+      db.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.processWebhook(
+        { ...validPayload, eventType: 'customer.updated' },
+        { claim: { webhookEventId: 'event-id', leaseOwner: 'stale-owner' } },
+      );
+
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'event-id',
+          status: 'PROCESSING',
+          lease_owner: 'stale-owner',
+        },
+        data: expect.objectContaining({ status: 'IGNORED' }),
+      });
+      expect(result).toMatchObject({ isDuplicate: true, inProgress: true });
+      expect(result.ignored).toBeUndefined();
+    });
+
+    it('should dispatch to handlers registered at runtime', async () => {
+      const handle = jest.fn().mockResolvedValue({ paymentId: 'custom-id' });
+      registry.register({
+        eventType: 'payment.disputed',
+        requiresUser: false,
+        checksAmount: false,
+        handle,
+      });
+      mockTransaction({ webhookEvent: { update: jest.fn() } });
+
+      const result = await service.processWebhook({
+        ...validPayload,
+        eventType: 'payment.disputed',
+      });
+
+      expect(handle).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ webhookEventId: 'event-id' }),
+      );
+      expect(result.paymentId).toBe('custom-id');
+    });
+  });
+
+  describe('Concurrent deliveries (processing lease)', () => {
+    const successfulTx = () => ({
+      payment: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+      },
+      subscription: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+      },
+      subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+      webhookEvent: { update: jest.fn() },
+    });
+
+    beforeEach(() => {
+      db.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'test@example.com',
+      });
+    });
+
+    it('should create a new event as PROCESSING with a lease', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({ id: 'event-id' });
+      const tx = successfulTx();
+      db.$transaction.mockImplementation(async (fn: any) => fn(tx));
+
+      const before = Date.now();
+      await service.processWebhook(validPayload);
+
+      const { data } = db.webhookEvent.create.mock.calls[0][0];
+      expect(data.status).toBe('PROCESSING');
+      expect(typeof data.lease_owner).toBe('string');
+      expect(data.lease_expires_at.getTime()).toBeGreaterThanOrEqual(
+        before + 300_000,
+      );
+      // Finishing must be done by the lease owner
+      expect(tx.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-id', lease_owner: data.lease_owner },
+        data: expect.objectContaining({
+          status: 'PROCESSED',
+          lease_owner: null,
+          lease_expires_at: null,
+        }),
+      });
+    });
+
+    it('should return a clean duplicate when a concurrent delivery wins the insert', async () => {
+      db.webhookEvent.findUnique
+        .mockResolvedValueOnce(null) // both deliveries see nothing
+        .mockResolvedValue({
+          id: 'winner-event-id',
+          payload_hash: validPayloadHash,
+          status: 'PROCESSING',
+          retry_count: 0,
+        });
+      db.webhookEvent.create.mockRejectedValue({ code: 'P2002' });
+      db.webhookEvent.updateMany.mockResolvedValue({ count: 0 }); // lease held
+
+      const result = await service.processWebhook(validPayload);
+
+      expect(result).toEqual({
+        success: true,
+        isDuplicate: true,
+        inProgress: true,
+        paymentId: 'winner-event-id',
+      });
+      expect(db.$transaction).not.toHaveBeenCalled();
+      // The loser must not mark the winner's event as FAILED
+      expect(db.webhookEvent.update).not.toHaveBeenCalled();
+    });
+
+    it('should report a plain duplicate when the concurrent delivery already finished', async () => {
+      db.webhookEvent.findUnique.mockResolvedValueOnce(null).mockResolvedValue({
+        id: 'winner-event-id',
+        payload_hash: validPayloadHash,
+        status: 'PROCESSED',
+      });
+      db.webhookEvent.create.mockRejectedValue({ code: 'P2002' });
+
+      const result = await service.processWebhook(validPayload);
+
+      expect(result.isDuplicate).toBe(true);
+      expect(result.inProgress).toBeUndefined();
+      expect(db.webhookEvent.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should only take over PROCESSING events whose lease expired', async () => {
+      const now = Date.now();
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'event-id',
+        payload_hash: validPayloadHash,
+        status: 'PROCESSING',
+        retry_count: 0,
+      });
+      db.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.processWebhook(validPayload);
+
+      const { where, data } = db.webhookEvent.updateMany.mock.calls[0][0];
+      expect(where.id).toBe('event-id');
+      expect(where.OR).toEqual([
+        { status: { in: ['RECEIVED', 'FAILED', 'EXHAUSTED'] } },
+        {
+          status: 'PROCESSING',
+          lease_expires_at: { lte: expect.any(Date) },
+        },
+      ]);
+      expect(where.OR[1].lease_expires_at.lte.getTime()).toBeGreaterThanOrEqual(
+        now,
+      );
+      expect(data).toEqual({
+        status: 'PROCESSING',
+        lease_owner: expect.any(String),
+        lease_expires_at: expect.any(Date),
+      });
+      expect(result.inProgress).toBe(true);
+    });
+
+    it('should process an event whose expired lease it took over', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'event-id',
+        payload_hash: validPayloadHash,
+        status: 'PROCESSING',
+        retry_count: 0,
+      });
+      db.webhookEvent.updateMany.mockResolvedValue({ count: 1 });
+      const tx = successfulTx();
+      db.$transaction.mockImplementation(async (fn: any) => fn(tx));
+
+      const result = await service.processWebhook(validPayload);
+
+      expect(result.isDuplicate).toBe(false);
+      expect(tx.webhookEvent.update).toHaveBeenCalledWith({
+        where: {
+          id: 'event-id',
+          lease_owner:
+            db.webhookEvent.updateMany.mock.calls[0][0].data.lease_owner,
+        },
+        data: expect.objectContaining({ status: 'PROCESSED' }),
+      });
+    });
+
+    it('should use a claim handed over by the queue worker as is', async () => {
+      const tx = successfulTx();
+      db.$transaction.mockImplementation(async (fn: any) => fn(tx));
+
+      await service.processWebhook(validPayload, {
+        claim: {
+          webhookEventId: 'queued-event-id',
+          leaseOwner: 'queue-worker',
+        },
+      });
+
+      expect(db.webhookEvent.findUnique).not.toHaveBeenCalled();
+      expect(db.webhookEvent.create).not.toHaveBeenCalled();
+      expect(tx.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'queued-event-id', lease_owner: 'queue-worker' },
+        data: expect.objectContaining({ status: 'PROCESSED' }),
+      });
+    });
+
+    it('should throw if the lease duration is not a positive integer', async () => {
+      await expect(
+        Test.createTestingModule({
+          providers: [
+            WebhooksService,
+            WebhookHandlerRegistry,
+            PaymentSuccessHandler,
+            PaymentFailedHandler,
+            PaymentPendingHandler,
+            PaymentRefundedHandler,
+            { provide: DatabaseService, useValue: db },
+            { provide: PaymentsService, useValue: {} },
+            { provide: SubscriptionsService, useValue: {} },
+            { provide: SubscriptionDunningService, useValue: {} },
+            { provide: PlansService, useValue: {} },
+            { provide: PaymentReviewsService, useValue: {} },
+            { provide: EntitlementsCacheService, useValue: {} },
+            {
+              provide: ConfigService,
+              useValue: {
+                get: jest.fn((key: string) =>
+                  key === 'WEBHOOK_PROCESSING_LEASE_SECONDS' ? '0' : undefined,
+                ),
+              },
+            },
+          ],
+        }).compile(),
+      ).rejects.toThrow(
+        'WEBHOOK_PROCESSING_LEASE_SECONDS must be a positive integer',
+      );
+    });
+  });
+
+  describe('Forced replay', () => {
+    const successfulTx = () => ({
+      payment: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+      },
+      subscription: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+      },
+      subscriptionPeriod: { create: jest.fn(), updateMany: jest.fn() },
+      webhookEvent: { update: jest.fn() },
+    });
+
+    beforeEach(() => {
+      db.user.findUnique.mockResolvedValue({ id: 'user-id' });
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'event-id',
+        payload_hash: validPayloadHash,
+        status: 'PROCESSED',
+        retry_count: 0,
+      });
+    });
+
+    it('should reprocess an already PROCESSED event when forced', async () => {
+      const tx = successfulTx();
+      db.$transaction.mockImplementation(async (fn: any) => fn(tx));
+
+      const result = await service.processWebhook(validPayload, {
+        force: true,
+      });
+
+      expect(result.isDuplicate).toBe(false);
+      expect(tx.payment.upsert).toHaveBeenCalled();
+      const { where } = db.webhookEvent.updateMany.mock.calls[0][0];
+      expect(where.OR[0].status.in).toEqual(
+        expect.arrayContaining(['PROCESSED', 'IGNORED', 'DISCARDED']),
+      );
+    });
+
+    it('should still respect a live lease when forced', async () => {
+      db.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+      db.webhookEvent.findUnique
+        .mockResolvedValueOnce({
+          id: 'event-id',
+          payload_hash: validPayloadHash,
+          status: 'PROCESSING',
+          retry_count: 0,
+        })
+        .mockResolvedValueOnce({ id: 'event-id', status: 'PROCESSING' });
+
+      const result = await service.processWebhook(validPayload, {
+        force: true,
+      });
+
+      expect(result).toMatchObject({ isDuplicate: true, inProgress: true });
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not claim handled events without force', async () => {
+      await service.processWebhook(validPayload);
+
+      expect(db.webhookEvent.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Payload conflicts (same idempotency key, different payload)', () => {
+    it('should store the canonical payload hash on new events', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({ id: 'event-id' });
+      db.user.findUnique.mockResolvedValue({ id: 'user-id' });
+
+      await service.processWebhook(validPayload).catch(() => undefined);
+
+      expect(db.webhookEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ payload_hash: validPayloadHash }),
+      });
+    });
+
+    it('should flag a redelivery with a different amount as a conflict, not a duplicate', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'existing-event-id',
+        payload_hash: validPayloadHash,
+        status: 'PROCESSED',
+      });
+
+      const tampered = { ...validPayload, amount: 1 };
+      const result = await service.processWebhook(tampered);
+
+      expect(result).toEqual({
+        success: false,
+        isDuplicate: false,
+        conflict: true,
+        webhookEventId: 'existing-event-id',
+      });
+      expect(db.webhookConflict.create).toHaveBeenCalledWith({
+        data: {
+          webhook_event_id: 'existing-event-id',
+          payload: tampered,
+          payload_hash: computePayloadHash(tampered),
+        },
+      });
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not claim or reprocess a FAILED event from a conflicting delivery', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'failed-event-id',
+        payload_hash: validPayloadHash,
+        status: 'FAILED',
+      });
+
+      const result = await service.processWebhook({
+        ...validPayload,
+        currency: 'EUR',
+      });
+
+      expect(result.conflict).toBe(true);
+      expect(db.webhookEvent.updateMany).not.toHaveBeenCalled();
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should compare against the stored payload for events without a hash', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'legacy-event-id',
+        payload_hash: null,
+        payload: validPayload,
+        status: 'PROCESSED',
+      });
+
+      const duplicate = await service.processWebhook(validPayload);
+      const conflict = await service.processWebhook({
+        ...validPayload,
+        email: 'someone-else@example.com',
+      });
+
+      expect(duplicate.isDuplicate).toBe(true);
+      expect(conflict.conflict).toBe(true);
+      expect(db.webhookConflict.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flag conflicts in async mode without queueing', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'failed-event-id',
+        payload_hash: validPayloadHash,
+        status: 'FAILED',
+      });
+
+      const result = await service.enqueueWebhook({
+        ...validPayload,
+        amount: 1,
+      });
+
+      expect(result.conflict).toBe(true);
+      expect(result.queued).toBeUndefined();
+      expect(db.webhookEvent.update).not.toHaveBeenCalled();
+      expect(db.webhookConflict.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('Async ingestion (enqueueWebhook)', () => {
+    it('should store the event as RECEIVED without processing it', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockResolvedValue({
+        id: 'queued-event-id',
+        status: 'RECEIVED',
+      });
+
+      const result = await service.enqueueWebhook(validPayload);
+
+      expect(result).toEqual({
+        success: true,
+        isDuplicate: false,
+        queued: true,
+        webhookEventId: 'queued-event-id',
+      });
+      expect(db.webhookEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          external_payment_id: 'pay_ext_123',
+          event_type: 'payment.success',
+          status: 'RECEIVED',
+        }),
+      });
+      expect(db.user.findUnique).not.toHaveBeenCalled();
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return isDuplicate=true for an already processed event', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'existing-event-id',
+        payload_hash: validPayloadHash,
+        status: 'PROCESSED',
+      });
+
+      const result = await service.enqueueWebhook(validPayload);
+
+      expect(result.isDuplicate).toBe(true);
+      expect(db.webhookEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should requeue a FAILED event on redelivery', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'failed-event-id',
+        payload_hash: validPayloadHash,
+        status: 'FAILED',
+      });
+
+      const result = await service.enqueueWebhook(validPayload);
+
+      expect(db.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'failed-event-id' },
+        data: { status: 'RECEIVED' },
+      });
+      expect(result.queued).toBe(true);
+      expect(result.webhookEventId).toBe('failed-event-id');
+    });
+
+    it('should requeue an EXHAUSTED event with a fresh retry budget', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'exhausted-event-id',
+        payload_hash: validPayloadHash,
+        status: 'EXHAUSTED',
+        retry_count: 5,
+      });
+
+      const result = await service.enqueueWebhook(validPayload);
+
+      expect(db.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'exhausted-event-id' },
+        data: { status: 'RECEIVED', retry_count: 0, dead_lettered_at: null },
+      });
+      expect(result.queued).toBe(true);
+    });
+
+    it('should leave an event that is already queued alone', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue({
+        id: 'queued-event-id',
+        payload_hash: validPayloadHash,
+        status: 'PROCESSING',
+      });
+
+      const result = await service.enqueueWebhook(validPayload);
+
+      expect(db.webhookEvent.update).not.toHaveBeenCalled();
+      expect(db.webhookEvent.create).not.toHaveBeenCalled();
+      expect(result.queued).toBe(true);
+    });
+
+    it('should treat a concurrent insert (P2002) as already queued', async () => {
+      db.webhookEvent.findUnique.mockResolvedValue(null);
+      db.webhookEvent.create.mockRejectedValue({ code: 'P2002' });
+
+      const result = await service.enqueueWebhook(validPayload);
+
+      expect(result).toEqual({
+        success: true,
+        isDuplicate: false,
+        queued: true,
+      });
+    });
   });
 });
@@ -1,10 +1,37 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
 import { DatabaseService } from '../database/database.service';
 import { PaymentsService } from '../payments/payments.service';
+import { PaymentReviewsService } from '../payments/payment-reviews.service';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { getApproximateDays } from '../subscriptions/billing-period';
+import { PlansService } from '../plans/plans.service';
+import { PlanWithPrices } from '../plans/interfaces/plan.interface';
+import { EntitlementsCacheService } from '../entitlements/entitlements-cache.service';
 import { WebhookPayloadDto } from './dto/webhook-payload.dto';
-import { IWebhookProcessingResult } from './interfaces/webhook.interface';
-import { WebhookStatus, Prisma } from '@prisma/client';
+import {
+  IAmountPolicyDecision,
+  IWebhookClaim,
+  IWebhookProcessingOptions,
+  IWebhookProcessingResult,
+  WebhookClaimResult,
+} from './interfaces/webhook.interface';
+import {
+  AmountMismatchPolicy,
+  BillingInterval,
+  PaymentReviewReason,
+  WebhookEvent,
+  WebhookStatus,
+  Prisma,
+} from '@prisma/client';
+import { WebhookHandlerRegistry } from './handlers/webhook-handler.registry';
+import {
+  IWebhookEventHandler,
+  IWebhookHandlerResult,
+} from './interfaces/webhook-handler.interface';
+import { getWebhookLeaseSeconds } from './webhook-processing-mode';
+import { computePayloadHash } from './webhook-payload-hash';
 
 /**
  * Webhooks Service - CORE BUSINESS LOGIC
@@ -22,12 +49,20 @@ import { WebhookStatus, Prisma } from '@prisma/client';
 @Injectable()
 export class WebhooksService {
   private readonly logger = new Logger(WebhooksService.name);
+  private readonly leaseMs: number;
 
   constructor(
     private readonly db: DatabaseService,
     private readonly paymentsService: PaymentsService,
     private readonly subscriptionsService: SubscriptionsService,
-  ) {}
+    private readonly handlerRegistry: WebhookHandlerRegistry,
+    private readonly plansService: PlansService,
+    private readonly paymentReviewsService: PaymentReviewsService,
+    private readonly entitlementsCache: EntitlementsCacheService,
+    configService: ConfigService,
+  ) {
+    this.leaseMs = getWebhookLeaseSeconds(configService) * 1000;
+  }
 
   /**
    * MAIN WEBHOOK PROCESSING FLOW
@@ -39,18 +74,38 @@ export class WebhooksService {
    * - Resilient (handles edge cases)
    *
    * Flow:
-   * 1. Check if already processed (IDEMPOTENCY)
-   * 2. Create webhook event record
-   * 3. Find or create user
-   * 4. Validate business logic
-   * 5. Process in DATABASE TRANSACTION
-   *    - Create payment
-   *    - Activate subscription
+   * 1. Claim the event (IDEMPOTENCY + CONCURRENCY) - see claimEvent()
+   *    - Same key, different payload → CONFLICT, recorded, not processed
+   *    - PROCESSED/IGNORED/REJECTED/DISCARDED → duplicate, return success
+   *    - Another worker holds the lease → duplicate (in progress)
+   *    - New, or earlier attempt crashed/failed → claimed (PROCESSING)
+   * 2. Claim creates the webhook event record (or reuses the earlier one)
+   * 3. Look up handler for event type (unknown type → IGNORED, acknowledged)
+   * 4. Find or create user (if handler needs one)
+   * 5. Validate business logic (plan catalog)
+   * 6. Apply the plan's amount mismatch policy (reject / flag / prorate)
+   *    - Rejected → event stored REJECTED (final, no retries), returned
+   *      as rejected
+   * 7. Process in DATABASE TRANSACTION
+   *    - Run event handler (payment / subscription changes)
+   *    - Queue flagged payments for review
    *    - Mark webhook processed
-   * 6. Return success
+   * 8. Return success
+   *
+   * On any failure after the event record exists, the event is marked
+   * FAILED with the error message and retry_count incremented, so the
+   * next redelivery (or a retry) picks it up again.
+   *
+   * Options:
+   * - `claim`: passed by the queue worker, which already claimed the
+   *   event in bulk (see WebhookQueueService)
+   * - `force`: manual replay - reprocess even if already
+   *   PROCESSED/IGNORED/REJECTED/DISCARDED (see WebhookReplayService).
+   *   A live lease is still respected.
    */
   async processWebhook(
     payload: WebhookPayloadDto,
+    options: IWebhookProcessingOptions = {},
   ): Promise<IWebhookProcessingResult> {
     const startTime = Date.now();
     const traceId = `webhook-${payload.externalPaymentId}-${Date.now()}`;
@@ -62,55 +117,95 @@ export class WebhooksService {
       planType: payload.planType,
     });
 
-    try {
-      // STEP 1: Check if already processed (IDEMPOTENCY)
-      const existingEvent = await this.checkIfAlreadyProcessed(
-        payload.externalPaymentId,
-        payload.eventType,
-      );
+    // Set once the event is claimed, so failures can be stored on it
+    let activeClaim: IWebhookClaim | undefined = options.claim;
 
-      if (existingEvent) {
-        this.logger.warn(
-          `[${traceId}] Duplicate webhook detected - returning success`,
-          {
-            webhookEventId: existingEvent.id,
-            processedAt: existingEvent.processed_at,
-          },
+    try {
+      // STEP 1 + 2: Claim the event (IDEMPOTENCY + CONCURRENCY)
+      if (!activeClaim) {
+        const claimResult = await this.claimEvent(
+          payload,
+          traceId,
+          options.force ?? false,
         );
 
-        return {
-          success: true,
-          isDuplicate: true,
-          paymentId: existingEvent.id,
-        };
+        if (!claimResult.claimed && claimResult.conflict) {
+          return {
+            success: false,
+            isDuplicate: false,
+            conflict: true,
+            webhookEventId: claimResult.webhookEventId,
+          };
+        }
+
+        if (!claimResult.claimed) {
+          this.logger.warn(
+            `[${traceId}] Duplicate webhook detected - returning success`,
+            {
+              webhookEventId: claimResult.webhookEventId,
+              inProgress: claimResult.inProgress,
+            },
+          );
+
+          return {
+            success: true,
+            isDuplicate: true,
+            inProgress: claimResult.inProgress || undefined,
+            paymentId: claimResult.webhookEventId,
+          };
+        }
+
+        activeClaim = claimResult.claim;
       }
 
-      // STEP 2: Create webhook event record (before processing)
-      const webhookEvent = await this.db.webhookEvent.create({
-        data: {
-          external_payment_id: payload.externalPaymentId,
-          event_type: payload.eventType,
-          status: WebhookStatus.RECEIVED,
-          payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue,
-        },
-      });
+      // STEP 3: Dispatch by event type
+      const handler = this.handlerRegistry.get(payload.eventType);
 
-      this.logger.log(`[${traceId}] Webhook event created: ${webhookEvent.id}`);
+      if (!handler) {
+        return await this.ignoreUnhandledEvent(
+          activeClaim,
+          payload.eventType,
+          traceId,
+        );
+      }
 
-      // STEP 3: Find or create user
-      const user = await this.findOrCreateUser(payload.email, traceId);
+      // STEP 4: Find or create user
+      const user = handler.requiresUser
+        ? await this.findOrCreateUser(payload.email, traceId)
+        : undefined;
 
-      // STEP 4: Validate business logic
-      this.validateWebhookBusinessLogic(payload, traceId);
+      // STEP 5: Validate business logic against the plan catalog
+      const plan = await this.validateWebhookBusinessLogic(payload, traceId);
 
-      // STEP 5: Process in DATABASE TRANSACTION (CRITICAL)
-      const result = await this.processPaymentTransaction(
-        webhookEvent.id,
-        user.id,
+      // STEP 6: Apply the plan's amount mismatch policy
+      const decision = this.applyAmountMismatchPolicy(
+        handler,
+        plan,
         payload,
         traceId,
       );
 
+      if (decision.rejection) {
+        return await this.rejectEvent(activeClaim, decision.rejection, traceId);
+      }
+
+      // STEP 7: Process in DATABASE TRANSACTION (CRITICAL)
+      const result = await this.processEventTransaction(
+        handler,
+        activeClaim,
+        user?.id,
+        payload,
+        plan,
+        decision,
+        traceId,
+      );
+
+      // Subscription changed - cached entitlements of the user are stale
+      const affectedUserId = user?.id ?? result.userId;
+      if (result.subscriptionId && affectedUserId) {
+        this.entitlementsCache.invalidate(affectedUserId);
+      }
+
       const processingTime = Date.now() - startTime;
       this.logger.log(
         `[${traceId}] Webhook processed successfully in ${processingTime}ms`,
@@ -140,15 +235,401 @@ export class WebhooksService {
         },
       );
 
+      if (activeClaim) {
+        await this.recordProcessingFailure(activeClaim, errorMessage, traceId);
+      }
+
       throw error;
     }
   }
 
+  /**
+   * ASYNC INGESTION: store webhook event for the queue worker
+   *
+   * Only the idempotency check and the insert happen here, so the provider
+   * gets its 200 well within the deadline. WebhookQueueService claims
+   * RECEIVED events and runs processWebhook() on the stored payload.
+   *
+   * - Same key, different payload → conflict (recorded, not queued)
+   * - Already handled → duplicate
+   * - Earlier attempt FAILED/EXHAUSTED → requeued (status back to RECEIVED)
+   *   An EXHAUSTED event also gets a fresh retry budget, like a dead-letter
+   *   requeue - otherwise the next retry sweep dead-letters it again
+   * - Already queued or being processed → left alone
+   */
+  async enqueueWebhook(
+    payload: WebhookPayloadDto,
+  ): Promise<IWebhookProcessingResult> {
+    const traceId = `webhook-${payload.externalPaymentId}-${Date.now()}`;
+    const payloadHash = computePayloadHash(payload);
+
+    const existingEvent = await this.checkIfAlreadyProcessed(
+      payload.externalPaymentId,
+      payload.eventType,
+    );
+
+    if (
+      existingEvent &&
+      (await this.recordConflictIfAny(
+        existingEvent,
+        payload,
+        payloadHash,
+        traceId,
+      ))
+    ) {
+      return {
+        success: false,
+        isDuplicate: false,
+        conflict: true,
+        webhookEventId: existingEvent.id,
+      };
+    }
+
+    if (existingEvent && this.isAlreadyHandled(existingEvent.status)) {
+      this.logger.warn(
+        `[${traceId}] Duplicate webhook detected - returning success`,
+        { webhookEventId: existingEvent.id },
+      );
+      return {
+        success: true,
+        isDuplicate: true,
+        paymentId: existingEvent.id,
+      };
+    }
+
+    if (existingEvent) {
+      if (
+        existingEvent.status === WebhookStatus.FAILED ||
+        existingEvent.status === WebhookStatus.EXHAUSTED
+      ) {
+        await this.db.webhookEvent.update({
+          where: { id: existingEvent.id },
+          data: {
+            status: WebhookStatus.RECEIVED,
+            ...(existingEvent.status === WebhookStatus.EXHAUSTED && {
+              retry_count: 0,
+              dead_lettered_at: null,
+            }),
+          },
+        });
+        this.logger.log(
+          `[${traceId}] Requeued ${existingEvent.status} webhook event ${existingEvent.id}`,
+        );
+      }
+
+      return {
+        success: true,
+        isDuplicate: false,
+        queued: true,
+        webhookEventId: existingEvent.id,
+      };
+    }
+
+    try {
+      const webhookEvent = await this.db.webhookEvent.create({
+        data: {
+          external_payment_id: payload.externalPaymentId,
+          event_type: payload.eventType,
+          status: WebhookStatus.RECEIVED,
+          payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue,
+          payload_hash: payloadHash,
+        },
+      });
+
+      this.logger.log(`[${traceId}] Webhook event queued: ${webhookEvent.id}`);
+
+      return {
+        success: true,
+        isDuplicate: false,
+        queued: true,
+        webhookEventId: webhookEvent.id,
+      };
+    } catch (error: unknown) {
+      // Concurrent delivery of the same event already queued it
+      if (this.isUniqueConstraintError(error)) {
+        this.logger.warn(`[${traceId}] Webhook already queued concurrently`);
+        return { success: true, isDuplicate: false, queued: true };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Whether an existing event needs no further processing
+   *
+   * PROCESSED → handled, IGNORED → acknowledged (no handler),
+   * REJECTED → refused by the amount policy (would be refused again),
+   * DISCARDED → dropped from the dead-letter queue by an admin.
+   * Anything else (RECEIVED, FAILED, ...) means an earlier attempt did not
+   * complete, so a redelivery must process it again instead of reporting
+   * a duplicate - otherwise the payment would be lost.
+   */
+  private isAlreadyHandled(status: WebhookStatus): boolean {
+    return (
+      status === WebhookStatus.PROCESSED ||
+      status === WebhookStatus.IGNORED ||
+      status === WebhookStatus.REJECTED ||
+      status === WebhookStatus.DISCARDED
+    );
+  }
+
+  /**
+   * Persist processing failure on the webhook event
+   *
+   * Runs outside the (rolled back) transaction. Never throws - the original
+   * processing error is what the caller needs to see.
+   *
+   * EDGE CASE: Lease was taken over meanwhile - the update matches nothing
+   * and the new owner's state is left alone
+   */
+  private async recordProcessingFailure(
+    claim: IWebhookClaim,
+    errorMessage: string,
+    traceId: string,
+  ) {
+    try {
+      await this.db.webhookEvent.update({
+        where: { id: claim.webhookEventId, lease_owner: claim.leaseOwner },
+        data: {
+          status: WebhookStatus.FAILED,
+          processing_error: errorMessage,
+          retry_count: { increment: 1 },
+          lease_owner: null,
+          lease_expires_at: null,
+        },
+      });
+
+      this.logger.warn(
+        `[${traceId}] Webhook event ${claim.webhookEventId} marked as FAILED`,
+      );
+    } catch (recordError: unknown) {
+      this.logger.error(
+        `[${traceId}] Failed to record processing failure for ${claim.webhookEventId}`,
+        recordError instanceof Error ? recordError.message : recordError,
+      );
+    }
+  }
+
+  /**
+   * Atomically claim an incoming delivery for processing
+   *
+   * CRITICAL: Two copies of the same webhook can arrive at the same moment.
+   * Both may see "not processed yet", so the claim itself must be atomic:
+   * 1. New event → INSERT as PROCESSING with a lease. The unique constraint
+   *    (external_payment_id, event_type) lets exactly one insert win; the
+   *    loser gets P2002 and falls through to step 2.
+   * 2. Existing event → conditional UPDATE to PROCESSING with a new lease,
+   *    only if it is RECEIVED/FAILED/EXHAUSTED or its lease has expired
+   *    (worker crashed mid-processing). Row-level locking means only one
+   *    concurrent UPDATE matches.
+   * 3. Nothing claimed → already handled, or another worker holds the
+   *    lease - either way the caller answers with a clean duplicate.
+   *
+   * A redelivery whose payload hash differs from the stored one is never
+   * claimed - it is recorded as a conflict (see recordConflictIfAny())
+   *
+   * `force` (manual replay) also claims PROCESSED/IGNORED/DISCARDED events
+   */
+  private async claimEvent(
+    payload: WebhookPayloadDto,
+    traceId: string,
+    force: boolean,
+  ): Promise<WebhookClaimResult> {
+    const leaseOwner = randomUUID();
+    const payloadHash = computePayloadHash(payload);
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + this.leaseMs);
+
+    let existingEvent = await this.checkIfAlreadyProcessed(
+      payload.externalPaymentId,
+      payload.eventType,
+    );
+
+    if (!existingEvent) {
+      try {
+        const webhookEvent = await this.db.webhookEvent.create({
+          data: {
+            external_payment_id: payload.externalPaymentId,
+            event_type: payload.eventType,
+            status: WebhookStatus.PROCESSING,
+            payload: JSON.parse(
+              JSON.stringify(payload),
+            ) as Prisma.InputJsonValue,
+            payload_hash: payloadHash,
+            lease_owner: leaseOwner,
+            lease_expires_at: leaseExpiresAt,
+          },
+        });
+
+        this.logger.log(
+          `[${traceId}] Webhook event created: ${webhookEvent.id}`,
+        );
+
+        return {
+          claimed: true,
+          claim: { webhookEventId: webhookEvent.id, leaseOwner },
+        };
+      } catch (error: unknown) {
+        if (!this.isUniqueConstraintError(error)) {
+          throw error;
+        }
+
+        // Lost the race - a concurrent delivery inserted it first
+        this.logger.warn(
+          `[${traceId}] Webhook event inserted concurrently - checking claim`,
+        );
+        existingEvent = await this.checkIfAlreadyProcessed(
+          payload.externalPaymentId,
+          payload.eventType,
+        );
+        if (!existingEvent) {
+          throw error;
+        }
+      }
+    }
+
+    if (
+      await this.recordConflictIfAny(
+        existingEvent,
+        payload,
+        payloadHash,
+        traceId,
+      )
+    ) {
+      return {
+        claimed: false,
+        webhookEventId: existingEvent.id,
+        inProgress: false,
+        conflict: true,
+      };
+    }
+
+    if (!force && this.isAlreadyHandled(existingEvent.status)) {
+      return {
+        claimed: false,
+        webhookEventId: existingEvent.id,
+        inProgress: false,
+      };
+    }
+
+    // Earlier attempt that failed or never finished → take it over
+    const claimableStatuses: WebhookStatus[] = [
+      WebhookStatus.RECEIVED,
+      WebhookStatus.FAILED,
+      WebhookStatus.EXHAUSTED,
+    ];
+    if (force) {
+      claimableStatuses.push(
+        WebhookStatus.PROCESSED,
+        WebhookStatus.IGNORED,
+        WebhookStatus.REJECTED,
+        WebhookStatus.DISCARDED,
+      );
+    }
+
+    const { count } = await this.db.webhookEvent.updateMany({
+      where: {
+        id: existingEvent.id,
+        OR: [
+          { status: { in: claimableStatuses } },
+          { status: WebhookStatus.PROCESSING, lease_expires_at: { lte: now } },
+        ],
+      },
+      data: {
+        status: WebhookStatus.PROCESSING,
+        lease_owner: leaseOwner,
+        lease_expires_at: leaseExpiresAt,
+      },
+    });
+
+    if (count === 0) {
+      // Someone else claimed it (or finished it) between our read and update
+      const currentEvent = await this.checkIfAlreadyProcessed(
+        payload.externalPaymentId,
+        payload.eventType,
+      );
+
+      return {
+        claimed: false,
+        webhookEventId: existingEvent.id,
+        inProgress:
+          !currentEvent || !this.isAlreadyHandled(currentEvent.status),
+      };
+    }
+
+    this.logger.warn(
+      `[${traceId}] ${force ? 'Force-replaying' : 'Reprocessing'} webhook event ${existingEvent.id} (was ${existingEvent.status}, ${existingEvent.retry_count} retries)`,
+    );
+
+    return {
+      claimed: true,
+      claim: { webhookEventId: existingEvent.id, leaseOwner },
+    };
+  }
+
+  /**
+   * Flag a redelivery whose payload differs from the stored event
+   *
+   * CRITICAL: Same idempotency key with a different amount, currency or
+   * email is NOT a duplicate - it may be tampering or a provider bug.
+   * The delivery is stored as a WebhookConflict for ops and never
+   * processed; the original event is left untouched.
+   *
+   * EDGE CASE: Events stored before payload hashing have no payload_hash -
+   * the hash is computed from the stored payload instead
+   *
+   * Returns true if the delivery conflicts
+   */
+  private async recordConflictIfAny(
+    existingEvent: WebhookEvent,
+    payload: WebhookPayloadDto,
+    payloadHash: string,
+    traceId: string,
+  ): Promise<boolean> {
+    const storedHash =
+      existingEvent.payload_hash ??
+      computePayloadHash(existingEvent.payload as unknown as WebhookPayloadDto);
+
+    if (storedHash === payloadHash) {
+      return false;
+    }
+
+    await this.db.webhookConflict.create({
+      data: {
+        webhook_event_id: existingEvent.id,
+        payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue,
+        payload_hash: payloadHash,
+      },
+    });
+
+    this.logger.error(
+      `[${traceId}] Conflicting payload for webhook event ${existingEvent.id} - recorded, not processed`,
+      { storedHash, payloadHash },
+    );
+
+    return true;
+  }
+
+  /**
+   * P2002 = unique constraint violation
+   */
+  private isUniqueConstraintError(error: unknown): boolean {
+    return (
+      !!error &&
+      typeof error === 'object' &&
+      'code' in error &&
+      error.code === 'P2002'
+    );
+  }
+
   /**
    * Check if webhook already processed (IDEMPOTENCY CHECK)
    *
    * CRITICAL: This prevents duplicate payments
    *
+   * Returns the existing event (any status) - see isAlreadyHandled()
+   *
    * Uses composite unique constraint:
    * (external_payment_id, event_type)
    */
@@ -166,6 +647,90 @@ export class WebhooksService {
     });
   }
 
+  /**
+   * Acknowledge event type without a handler
+   *
+   * Event stays stored (with full payload) as IGNORED for later inspection,
+   * payments and subscriptions are not touched
+   *
+   * CRITICAL: Only while we still hold the lease - a worker that took the
+   * event over must not have it overwritten. Lost lease → reported as a
+   * duplicate in progress, the new owner finishes it.
+   */
+  private async ignoreUnhandledEvent(
+    claim: IWebhookClaim,
+    eventType: string,
+    traceId: string,
+  ): Promise<IWebhookProcessingResult> {
+    this.logger.warn(
+      `[${traceId}] No handler for event type "${eventType}" - acknowledging without processing`,
+    );
+
+    const { count } = await this.db.webhookEvent.updateMany({
+      where: {
+        id: claim.webhookEventId,
+        status: WebhookStatus.PROCESSING,
+        lease_owner: claim.leaseOwner,
+      },
+      data: {
+        status: WebhookStatus.IGNORED,
+        processed_at: new Date(),
+        lease_owner: null,
+        lease_expires_at: null,
+      },
+    });
+
+    if (count === 0) {
+      this.logger.warn(
+        `[${traceId}] Lease on webhook event ${claim.webhookEventId} lost - not marking it IGNORED`,
+      );
+      return {
+        success: true,
+        isDuplicate: true,
+        inProgress: true,
+        paymentId: claim.webhookEventId,
+      };
+    }
+
+    return { success: true, isDuplicate: false, ignored: true };
+  }
+
+  /**
+   * Store a payment refused by the amount mismatch policy
+   *
+   * REJECTED is final: the retry worker only picks up FAILED events and
+   * redeliveries are answered as duplicates. After fixing the plan price
+   * an admin can force-replay the event.
+   */
+  private async rejectEvent(
+    claim: IWebhookClaim,
+    reason: string,
+    traceId: string,
+  ): Promise<IWebhookProcessingResult> {
+    await this.db.webhookEvent.update({
+      where: { id: claim.webhookEventId, lease_owner: claim.leaseOwner },
+      data: {
+        status: WebhookStatus.REJECTED,
+        processing_error: reason,
+        processed_at: new Date(),
+        lease_owner: null,
+        lease_expires_at: null,
+      },
+    });
+
+    this.logger.warn(
+      `[${traceId}] Webhook event ${claim.webhookEventId} REJECTED: ${reason}`,
+    );
+
+    return {
+      success: false,
+      isDuplicate: false,
+      rejected: true,
+      webhookEventId: claim.webhookEventId,
+      error: reason,
+    };
+  }
+
   /**
    * Find user by email or create if not exists
    *
@@ -198,14 +763,17 @@ export class WebhooksService {
   /**
    * Validate business logic before processing
    *
+   * Plans and prices come from the plan catalog (PlansService)
+   *
    * EDGE CASE: Invalid amount
-   * EDGE CASE: Invalid plan type
-   * EDGE CASE: Amount mismatch
+   * EDGE CASE: Unknown plan type
+   * EDGE CASE: Retired (inactive) plan - still processed, the provider
+   * already took the money (renewals, refunds of existing subscribers)
    */
-  private validateWebhookBusinessLogic(
+  private async validateWebhookBusinessLogic(
     payload: WebhookPayloadDto,
     traceId: string,
-  ) {
+  ): Promise<PlanWithPrices> {
     // Validate amount is positive
     if (payload.amount <= 0) {
       this.logger.error(`[${traceId}] Invalid amount: ${payload.amount}`);
@@ -213,56 +781,114 @@ export class WebhooksService {
     }
 
     // Validate plan type exists
-    const validPlanTypes = ['monthly', 'yearly', 'lifetime'];
-    if (!validPlanTypes.includes(payload.planType)) {
+    const plan = await this.plansService.findByCode(payload.planType);
+    if (!plan) {
       this.logger.error(`[${traceId}] Invalid plan type: ${payload.planType}`);
       throw new BadRequestException('Invalid plan type');
     }
 
-    // Edge case: Amount mismatch
-    const expectedAmount = this.getExpectedAmountForPlan(payload.planType);
-    if (Math.abs(payload.amount - expectedAmount) > 100) {
-      // Allow $1 variance
-      this.logger.error(
-        `[${traceId}]Amount mismatch: expected ${expectedAmount}, got ${payload.amount}`,
+    if (!plan.active) {
+      this.logger.warn(
+        `[${traceId}] Webhook for inactive plan ${plan.code} - processing anyway`,
       );
-      // In production, you might want to alert ops team
-      // For now, we'll proceed but log the discrepancy
     }
-  }
 
-  /**
-   * Get expected amount for plan (for validation)
-   */
-  private getExpectedAmountForPlan(planType: string): number {
-    const planPrices: Record<string, number> = {
-      monthly: 999, // $9.99
-      yearly: 9999, // $99.99
-      lifetime: 29999, // $299.99
-    };
-    return planPrices[planType] || 0;
+    return plan;
   }
 
   /**
-   * Get subscription duration for plan type
+   * EDGE CASE: Amount mismatch - paid amount differs from the plan price
+   * (in the payment currency) by more than the price's tolerance
+   *
+   * Handled per plan (amount_mismatch_policy):
+   * - REJECT  → nothing is recorded, the event is stored REJECTED - a
+   *             retry would be refused the same way, so none is made
+   * - FLAG    → full period granted, payment queued for review
+   * - PRORATE → underpayment buys proportionally less time (whole days of
+   *             the plan's approximate length); overpayment gets the full
+   *             period and is flagged (refund the rest)
+   *
+   * PRORATE falls back to FLAG when there is nothing to prorate:
+   * - No price in the payment currency (nothing to compare against)
+   * - Lifetime plan - lifetime access has no length to cut down
+   * - Underpayment worth less than one day
+   *
+   * Only for events that grant subscription time (handler.checksAmount) -
+   * e.g. a partial refund legitimately differs from the plan price
    */
-  private getSubscriptionDuration(planType: string): number {
-    const durations: Record<string, number> = {
-      monthly: 30,
-      yearly: 365,
-      lifetime: 36500, // 100 years
+  private applyAmountMismatchPolicy(
+    handler: IWebhookEventHandler,
+    plan: PlanWithPrices,
+    payload: WebhookPayloadDto,
+    traceId: string,
+  ): IAmountPolicyDecision {
+    const fullPeriod = this.plansService.getBillingPeriod(plan);
+
+    if (!handler.checksAmount) {
+      return { period: fullPeriod };
+    }
+
+    const check = this.plansService.checkAmount(
+      plan,
+      payload.amount,
+      payload.currency,
+    );
+    if (check.matches) {
+      return { period: fullPeriod };
+    }
+
+    const policy = plan.amount_mismatch_policy;
+    const reason =
+      check.expectedAmount === null
+        ? PaymentReviewReason.NO_PRICE_FOR_CURRENCY
+        : PaymentReviewReason.AMOUNT_MISMATCH;
+
+    this.logger.warn(
+      `[${traceId}] ${reason} on plan ${plan.code}: expected ${check.expectedAmount ?? 'n/a'} (±${check.tolerance ?? 'n/a'}), got ${payload.amount} ${payload.currency} - policy ${policy}`,
+    );
+
+    if (policy === AmountMismatchPolicy.REJECT) {
+      return {
+        period: fullPeriod,
+        rejection:
+          check.expectedAmount === null
+            ? `Plan ${plan.code} has no ${payload.currency} price`
+            : `Amount ${payload.amount} does not match plan price ${check.expectedAmount}`,
+      };
+    }
+
+    if (
+      policy === AmountMismatchPolicy.PRORATE &&
+      check.expectedAmount !== null &&
+      payload.amount < check.expectedAmount &&
+      fullPeriod.interval !== BillingInterval.LIFETIME
+    ) {
+      const fullDays = this.plansService.getDurationDays(plan);
+      const proratedDays = Math.floor(
+        (fullDays * payload.amount) / check.expectedAmount,
+      );
+      // Less than a day would start a subscription that already ended
+      if (proratedDays >= 1) {
+        return {
+          period: { interval: BillingInterval.DAY, count: proratedDays },
+        };
+      }
+    }
+
+    return {
+      period: fullPeriod,
+      review: { reason, expectedAmount: check.expectedAmount },
     };
-    return durations[planType] || 30;
   }
 
   /**
-   * CRITICAL: Process payment in database transaction
+   * CRITICAL: Process event in database transaction
    *
    * All-or-nothing: if any step fails, everything rolls back
    *
    * Steps (ALL inside transaction):
-   * 1. Create payment record
-   * 2. Activate/extend subscription
+   * 1. Run event handler (e.g. create payment, activate/extend subscription)
+   * 2. Queue the payment for review if the amount policy flagged it
    * 3. Mark webhook as processed
    *
    * If server crashes after payment but before subscription:
@@ -270,75 +896,64 @@ export class WebhooksService {
    * - Payment provider retries webhook
    * - Idempotency catches duplicate
    * - System recovers automatically
+   *
+   * EDGE CASE: Lease expired and another worker took the event over -
+   * the processed update (guarded by lease_owner) fails and the whole
+   * transaction rolls back, so the event is never applied twice
    */
-  private async processPaymentTransaction(
-    webhookEventId: string,
-    userId: string,
+  private async processEventTransaction(
+    handler: IWebhookEventHandler,
+    claim: IWebhookClaim,
+    userId: string | undefined,
     payload: WebhookPayloadDto,
+    plan: PlanWithPrices,
+    decision: IAmountPolicyDecision,
     traceId: string,
-  ): Promise<{ paymentId: string; subscriptionId: string }> {
+  ): Promise<IWebhookHandlerResult> {
     return this.db.$transaction(async (tx) => {
       this.logger.log(`[${traceId}] Starting transaction`);
 
-      // Step 1: Create payment record
-      const payment = await tx.payment.create({
-        data: {
-          user_id: userId,
-          external_payment_id: payload.externalPaymentId,
-          amount: payload.amount,
-          currency: payload.currency,
-          plan_type: payload.planType,
-          payment_method: payload.paymentMethod,
-          provider: payload.provider,
-          status: 'COMPLETED',
-          metadata: payload.metadata as Prisma.InputJsonValue,
-        },
-      });
-
-      this.logger.log(`[${traceId}] Payment created: ${payment.id}`);
-
-      // Step 2: Activate/extend subscription
-      const durationDays = this.getSubscriptionDuration(payload.planType);
-
-      const subscription = await tx.subscription.upsert({
-        where: {
-          user_id_plan_type: {
-            user_id: userId,
-            plan_type: payload.planType,
-          },
-        },
-        create: {
-          user_id: userId,
-          plan_type: payload.planType,
-          status: 'ACTIVE',
-          started_at: new Date(),
-          expires_at: new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000),
-        },
-        update: {
-          status: 'ACTIVE',
-          expires_at: new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000),
-        },
+      // Step 1: Apply event (payment / subscription changes)
+      const result = await handler.handle(tx, {
+        webhookEventId: claim.webhookEventId,
+        payload,
+        traceId,
+        userId,
+        period: decision.period,
       });
 
-      this.logger.log(
-        `[${traceId}] Subscription activated: ${subscription.id}`,
-      );
+      // Step 2: Queue the payment for review (amount mismatch)
+      if (decision.review && result.paymentId) {
+        await this.paymentReviewsService.flagPayment(tx, {
+          paymentId: result.paymentId,
+          webhookEventId: claim.webhookEventId,
+          reason: decision.review.reason,
+          planCode: plan.code,
+          expectedAmount: decision.review.expectedAmount,
+          paidAmount: payload.amount,
+          currency: payload.currency,
+          grantedDays:
+            decision.period.interval === BillingInterval.LIFETIME
+              ? null
+              : getApproximateDays(decision.period),
+        });
+      }
 
       // Step 3: Mark webhook as processed
       await tx.webhookEvent.update({
-        where: { id: webhookEventId },
+        where: { id: claim.webhookEventId, lease_owner: claim.leaseOwner },
         data: {
           status: WebhookStatus.PROCESSED,
           processed_at: new Date(),
+          processing_error: null, // Clear error from an earlier failed attempt
+          lease_owner: null,
+          lease_expires_at: null,
         },
       });
 
       this.logger.log(`[${traceId}] Webhook marked as processed`);
 
-      return {
-        paymentId: payment.id,
-        subscriptionId: subscription.id,
-      };
+      return result;
     });
   }
 }
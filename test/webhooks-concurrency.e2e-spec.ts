@@ -0,0 +1,232 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { WebhooksModule } from '../src/webhooks/webhooks.module';
+import { WebhooksService } from '../src/webhooks/webhooks.service';
+import { DatabaseModule } from '../src/database/database.module';
+import { DatabaseService } from '../src/database/database.service';
+
+/**
+ * Concurrent duplicate deliveries against a REAL Postgres
+ *
+ * Mocks cannot reproduce the race (both copies passing the idempotency
+ * check at once), so this suite runs only when TEST_DATABASE_URL points
+ * at a disposable database with the schema applied:
+ *
+ *   DATABASE_URL=$TEST_DATABASE_URL npx prisma db push
+ *   TEST_DATABASE_URL=postgresql://... npm run test:e2e
+ *
+ * All rows it creates (including its plan) use the `pay_concurrency_` /
+ * `concurrency-` prefixes and are removed afterwards.
+ */
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+const describeWithDatabase = TEST_DATABASE_URL ? describe : describe.skip;
+
+const PLAN_CODE = 'concurrency-monthly';
+
+describeWithDatabase('Webhooks concurrency (Postgres)', () => {
+  let moduleRef: TestingModule;
+  let service: WebhooksService;
+  let db: DatabaseService;
+  let runId = 0;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [() => ({ WEBHOOK_SECRET: 'concurrency_test_secret' })],
+        }),
+        DatabaseModule,
+        WebhooksModule,
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    service = moduleRef.get(WebhooksService);
+    db = moduleRef.get(DatabaseService);
+
+    await db.plan.upsert({
+      where: { code: PLAN_CODE },
+      create: {
+        code: PLAN_CODE,
+        name: 'Concurrency test plan',
+        billing_interval: 'MONTH',
+        prices: { create: [{ currency: 'USD', amount: 999 }] },
+      },
+      update: {},
+    });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await db.plan.deleteMany({ where: { code: PLAN_CODE } });
+    await moduleRef.close();
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    runId++;
+  });
+
+  async function cleanUp() {
+    const users = await db.user.findMany({
+      where: { email: { startsWith: 'concurrency-' } },
+      select: { id: true },
+    });
+    const userIds = users.map((u) => u.id);
+
+    await db.webhookEvent.deleteMany({
+      where: { external_payment_id: { startsWith: 'pay_concurrency_' } },
+    });
+    await db.payment.deleteMany({ where: { user_id: { in: userIds } } });
+    await db.subscription.deleteMany({ where: { user_id: { in: userIds } } });
+    await db.user.deleteMany({ where: { id: { in: userIds } } });
+  }
+
+  function buildPayload() {
+    return {
+      externalPaymentId: `pay_concurrency_${runId}`,
+      eventType: 'payment.success',
+      email: `concurrency-${runId}@example.com`,
+      amount: 999,
+      currency: 'USD',
+      planType: PLAN_CODE,
+    };
+  }
+
+  it('should apply simultaneous copies of a new webhook exactly once', async () => {
+    const payload = buildPayload();
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => service.processWebhook(payload)),
+    );
+
+    // Losers get a clean duplicate - none of them fails
+    expect(results.filter((r) => !r.isDuplicate)).toHaveLength(1);
+    expect(results.every((r) => r.success)).toBe(true);
+
+    const payments = await db.payment.findMany({
+      where: { external_payment_id: payload.externalPaymentId },
+    });
+    expect(payments).toHaveLength(1);
+
+    const event = await db.webhookEvent.findUniqueOrThrow({
+      where: {
+        external_payment_id_event_type: {
+          external_payment_id: payload.externalPaymentId,
+          event_type: payload.eventType,
+        },
+      },
+    });
+    expect(event.status).toBe('PROCESSED');
+    expect(event.retry_count).toBe(0);
+    expect(event.processing_error).toBeNull();
+    expect(event.lease_owner).toBeNull();
+  });
+
+  it('should let exactly one redelivery reprocess a FAILED event', async () => {
+    const payload = buildPayload();
+    await db.webhookEvent.create({
+      data: {
+        external_payment_id: payload.externalPaymentId,
+        event_type: payload.eventType,
+        status: 'FAILED',
+        payload,
+        retry_count: 1,
+        processing_error: 'Deadlock detected',
+      },
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => service.processWebhook(payload)),
+    );
+
+    expect(results.filter((r) => !r.isDuplicate)).toHaveLength(1);
+    expect(
+      await db.payment.count({
+        where: { external_payment_id: payload.externalPaymentId },
+      }),
+    ).toBe(1);
+  });
+
+  it('should not touch an event whose lease is still held', async () => {
+    const payload = buildPayload();
+    const leaseExpiresAt = new Date(Date.now() + 60_000);
+    const event = await db.webhookEvent.create({
+      data: {
+        external_payment_id: payload.externalPaymentId,
+        event_type: payload.eventType,
+        status: 'PROCESSING',
+        payload,
+        lease_owner: 'other-worker',
+        lease_expires_at: leaseExpiresAt,
+      },
+    });
+
+    const result = await service.processWebhook(payload);
+
+    expect(result).toMatchObject({ isDuplicate: true, inProgress: true });
+    const stored = await db.webhookEvent.findUniqueOrThrow({
+      where: { id: event.id },
+    });
+    expect(stored.status).toBe('PROCESSING');
+    expect(stored.lease_owner).toBe('other-worker');
+  });
+
+  it('should take over an event whose lease expired (crashed worker)', async () => {
+    const payload = buildPayload();
+    const event = await db.webhookEvent.create({
+      data: {
+        external_payment_id: payload.externalPaymentId,
+        event_type: payload.eventType,
+        status: 'PROCESSING',
+        payload,
+        lease_owner: 'crashed-worker',
+        lease_expires_at: new Date(Date.now() - 1_000),
+      },
+    });
+
+    const result = await service.processWebhook(payload);
+
+    expect(result.isDuplicate).toBe(false);
+    const stored = await db.webhookEvent.findUniqueOrThrow({
+      where: { id: event.id },
+    });
+    expect(stored.status).toBe('PROCESSED');
+  });
+
+  it('should roll back a worker that finishes after losing its lease', async () => {
+    const payload = buildPayload();
+    const event = await db.webhookEvent.create({
+      data: {
+        external_payment_id: payload.externalPaymentId,
+        event_type: payload.eventType,
+        status: 'PROCESSING',
+        payload,
+        lease_owner: 'new-owner',
+        lease_expires_at: new Date(Date.now() + 60_000),
+      },
+    });
+
+    // Stale worker still believes it holds the event
+    await expect(
+      service.processWebhook(payload, {
+        claim: { webhookEventId: event.id, leaseOwner: 'stale-owner' },
+      }),
+    ).rejects.toThrow();
+
+    expect(
+      await db.payment.count({
+        where: { external_payment_id: payload.externalPaymentId },
+      }),
+    ).toBe(0);
+    const stored = await db.webhookEvent.findUniqueOrThrow({
+      where: { id: event.id },
+    });
+    expect(stored.status).toBe('PROCESSING');
+    expect(stored.lease_owner).toBe('new-owner');
+  });
+});
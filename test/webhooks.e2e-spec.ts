@@ -9,14 +9,43 @@ import { DatabaseModule } from '../src/database/database.module';
 import { DatabaseService } from '../src/database/database.service';
 import { PaymentsModule } from '../src/payments/payments.module';
 import { SubscriptionsModule } from '../src/subscriptions/subscriptions.module';
+import { PlansModule } from '../src/plans/plans.module';
+import { EntitlementsModule } from '../src/entitlements/entitlements.module';
+import { addBillingPeriod } from '../src/subscriptions/billing-period';
 
 const WEBHOOK_SECRET = 'e2e_test_secret';
+const ADMIN_API_KEY = 'e2e_admin_key';
+const ENTITLEMENTS_API_KEY = 'e2e_entitlements_key';
 
-function signPayload(body: any): string {
-  return crypto
+// Each signed delivery gets its own timestamp, so identical payloads sent by
+// different tests aren't rejected as replays by the signature guard. Counting
+// down from a fixed start keeps them unique even when the clock ticks over.
+const SUITE_STARTED_AT = Math.floor(Date.now() / 1000);
+let deliveryCount = 0;
+
+const monthlyPlan = {
+  id: 'plan-monthly',
+  code: 'monthly',
+  name: 'Monthly',
+  billing_interval: 'MONTH',
+  interval_count: 1,
+  trial_days: 7,
+  max_pause_days: 0,
+  amount_mismatch_policy: 'FLAG',
+  active: true,
+  prices: [{ currency: 'USD', amount: 999, tolerance: 100 }],
+};
+
+function signPayload(
+  body: any,
+  timestamp = SUITE_STARTED_AT - deliveryCount++,
+): string {
+  const raw = typeof body === 'string' ? body : JSON.stringify(body);
+  const signature = crypto
     .createHmac('sha256', WEBHOOK_SECRET)
-    .update(JSON.stringify(body))
+    .update(`${timestamp}.${raw}`)
     .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
 }
 
 describe('Webhooks E2E', () => {
@@ -27,13 +56,26 @@ describe('Webhooks E2E', () => {
     mockDb = {
       webhookEvent: {
         findUnique: jest.fn(),
+        findMany: jest.fn(),
         create: jest.fn(),
         update: jest.fn(),
+        updateMany: jest.fn(),
         deleteMany: jest.fn(),
       },
+      webhookConflict: {
+        create: jest.fn(),
+      },
+      webhookReplay: {
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+      webhookDeadLetterAction: {
+        create: jest.fn(),
+      },
       user: {
         findUnique: jest.fn(),
         create: jest.fn(),
+        upsert: jest.fn(),
         deleteMany: jest.fn(),
       },
       payment: {
@@ -43,12 +85,39 @@ describe('Webhooks E2E', () => {
         deleteMany: jest.fn(),
       },
       subscription: {
+        findFirst: jest.fn().mockResolvedValue(null),
         findUnique: jest.fn(),
         upsert: jest.fn(),
+        create: jest.fn(),
         findMany: jest.fn(),
         update: jest.fn(),
+        updateMany: jest.fn(),
+        groupBy: jest.fn(),
         deleteMany: jest.fn(),
       },
+      subscriptionPlanChange: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      subscriptionPeriod: {
+        create: jest.fn(),
+        updateMany: jest.fn(),
+        findMany: jest.fn(),
+      },
+      paymentReview: {
+        upsert: jest.fn(),
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+      plan: {
+        findUnique: jest.fn(({ where }: any) =>
+          Promise.resolve(where.code === 'monthly' ? monthlyPlan : null),
+        ),
+        findMany: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
       $transaction: jest.fn(),
       $connect: jest.fn(),
       $disconnect: jest.fn(),
@@ -61,6 +130,10 @@ describe('Webhooks E2E', () => {
           load: [
             () => ({
               WEBHOOK_SECRET,
+              ADMIN_API_KEYS: [{ id: 'e2e-admin', key: ADMIN_API_KEY }],
+              ENTITLEMENTS_API_KEYS: [
+                { id: 'e2e-entitlements', key: ENTITLEMENTS_API_KEY },
+              ],
               PORT: 3000,
               NODE_ENV: 'test',
             }),
@@ -70,13 +143,15 @@ describe('Webhooks E2E', () => {
         WebhooksModule,
         PaymentsModule,
         SubscriptionsModule,
+        PlansModule,
+        EntitlementsModule,
       ],
     })
       .overrideProvider(DatabaseService)
       .useValue(mockDb)
       .compile();
 
-    app = moduleFixture.createNestApplication();
+    app = moduleFixture.createNestApplication({ rawBody: true });
     app.useGlobalPipes(
       new ValidationPipe({
         whitelist: true,
@@ -138,11 +213,15 @@ describe('Webhooks E2E', () => {
       mockDb.$transaction.mockImplementation(async (fn: any) =>
         fn({
           payment: {
-            create: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
           },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -157,6 +236,94 @@ describe('Webhooks E2E', () => {
       expect(response.status).toBe(200);
       expect(response.body.message).toContain('processed successfully');
     });
+
+    it('should verify signature against the exact raw bytes sent', async () => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue(null);
+      mockDb.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+      mockDb.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'e2e@example.com',
+      });
+      mockDb.$transaction.mockImplementation(async (fn: any) =>
+        fn({
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
+          subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
+          },
+          subscriptionPeriod: { create: jest.fn() },
+          webhookEvent: { update: jest.fn() },
+        }),
+      );
+
+      // Provider-formatted JSON that does not round-trip through JSON.stringify
+      const rawBody = JSON.stringify(validPayload, null, 2).replace(
+        'e2e@example.com',
+        'e2e\\u0040example.com',
+      );
+
+      const response = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('Content-Type', 'application/json')
+        .set('x-webhook-signature', signPayload(rawBody))
+        .send(rawBody);
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toContain('processed successfully');
+    });
+
+    it('should reject signature computed over re-serialized JSON', async () => {
+      const rawBody = JSON.stringify(validPayload, null, 2);
+
+      const response = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('Content-Type', 'application/json')
+        .set('x-webhook-signature', signPayload(validPayload))
+        .send(rawBody);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject a stale signed delivery', async () => {
+      const staleTimestamp = Math.floor(Date.now() / 1000) - 3600;
+
+      const response = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('x-webhook-signature', signPayload(validPayload, staleTimestamp))
+        .send(validPayload);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject a replayed signed delivery', async () => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue({
+        id: 'existing-event',
+        status: 'PROCESSED',
+        payload: validPayload,
+        processed_at: new Date(),
+      });
+
+      const signature = signPayload(validPayload);
+
+      const first = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('x-webhook-signature', signature)
+        .send(validPayload);
+      const replay = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('x-webhook-signature', signature)
+        .send(validPayload);
+
+      expect(first.status).toBe(200);
+      expect(replay.status).toBe(401);
+    });
   });
 
   // =============================================
@@ -176,11 +343,15 @@ describe('Webhooks E2E', () => {
       mockDb.$transaction.mockImplementation(async (fn: any) =>
         fn({
           payment: {
-            create: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
           },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -196,6 +367,52 @@ describe('Webhooks E2E', () => {
       expect(response.body.status).toBe(200);
       expect(response.body.paymentId).toBe('pay-id');
     });
+
+    it('should extend an early renewal from the current expiry', async () => {
+      const currentExpiry = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+      const txSubscriptionUpsert = jest
+        .fn()
+        .mockResolvedValue({ id: 'sub-id' });
+
+      mockDb.webhookEvent.findUnique.mockResolvedValue(null);
+      mockDb.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+      mockDb.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'e2e@example.com',
+      });
+      mockDb.$transaction.mockImplementation(async (fn: any) =>
+        fn({
+          payment: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+          },
+          subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue({
+              id: 'sub-id',
+              status: 'ACTIVE',
+              expires_at: currentExpiry,
+            }),
+            upsert: txSubscriptionUpsert,
+          },
+          subscriptionPeriod: { create: jest.fn() },
+          webhookEvent: { update: jest.fn() },
+        }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('x-webhook-signature', signPayload(validPayload))
+        .send(validPayload);
+
+      expect(response.status).toBe(200);
+      expect(txSubscriptionUpsert.mock.calls[0][0].update.expires_at).toEqual(
+        addBillingPeriod(currentExpiry, { interval: 'MONTH', count: 1 }),
+      );
+    });
   });
 
   // =============================================
@@ -206,6 +423,7 @@ describe('Webhooks E2E', () => {
       mockDb.webhookEvent.findUnique.mockResolvedValue({
         id: 'existing-event',
         status: 'PROCESSED',
+        payload: validPayload,
         processed_at: new Date(),
       });
 
@@ -224,6 +442,7 @@ describe('Webhooks E2E', () => {
       mockDb.webhookEvent.findUnique.mockResolvedValue({
         id: 'existing-event',
         status: 'PROCESSED',
+        payload: validPayload,
         processed_at: new Date(),
       });
 
@@ -236,6 +455,27 @@ describe('Webhooks E2E', () => {
 
       expect(mockDb.$transaction).not.toHaveBeenCalled();
     });
+
+    it('should report a redelivery with a different payload as a conflict', async () => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue({
+        id: 'existing-event',
+        status: 'PROCESSED',
+        payload: validPayload,
+        processed_at: new Date(),
+      });
+
+      const tampered = { ...validPayload, amount: 1 };
+      const response = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('x-webhook-signature', signPayload(tampered))
+        .send(tampered);
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toContain('conflicts');
+      expect(response.body.message).not.toContain('duplicate');
+      expect(mockDb.webhookConflict.create).toHaveBeenCalled();
+      expect(mockDb.$transaction).not.toHaveBeenCalled();
+    });
   });
 
   // =============================================
@@ -309,11 +549,15 @@ describe('Webhooks E2E', () => {
       mockDb.$transaction.mockImplementation(async (fn: any) =>
         fn({
           payment: {
-            create: jest.fn().mockResolvedValue({ id: 'pay-id' }),
+            findUnique: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn().mockResolvedValue({ id: 'pay-id' }),
           },
           subscription: {
+            findFirst: jest.fn().mockResolvedValue(null),
+            findUnique: jest.fn().mockResolvedValue(null),
             upsert: jest.fn().mockResolvedValue({ id: 'sub-id' }),
           },
+          subscriptionPeriod: { create: jest.fn() },
           webhookEvent: { update: jest.fn() },
         }),
       );
@@ -370,6 +614,60 @@ describe('Webhooks E2E', () => {
       expect(response.status).toBe(200);
       expect(response.body.message).toContain('failed');
     });
+
+    it('should report a payment refused by the amount policy as rejected', async () => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue(null);
+      mockDb.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+      mockDb.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'e2e@example.com',
+      });
+      mockDb.plan.findUnique.mockResolvedValueOnce({
+        ...monthlyPlan,
+        amount_mismatch_policy: 'REJECT',
+      });
+
+      const payload = { ...validPayload, amount: 5000 };
+      const response = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('x-webhook-signature', signPayload(payload))
+        .send(payload);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        message: 'Webhook rejected (amount mismatch)',
+        webhookEventId: 'event-id',
+      });
+      expect(response.body.message).not.toContain('retry');
+      expect(mockDb.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  // =============================================
+  // Event type dispatch
+  // =============================================
+  describe('POST /webhooks/payment - Unhandled event types', () => {
+    it('should acknowledge unknown event type without processing', async () => {
+      const payload = { ...validPayload, eventType: 'customer.updated' };
+      mockDb.webhookEvent.findUnique.mockResolvedValue(null);
+      mockDb.webhookEvent.create.mockResolvedValue({
+        id: 'event-id',
+        status: 'RECEIVED',
+      });
+      mockDb.webhookEvent.updateMany.mockResolvedValue({ count: 1 });
+
+      const response = await request(app.getHttpServer())
+        .post('/webhooks/payment')
+        .set('x-webhook-signature', signPayload(payload))
+        .send(payload);
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toContain('not handled');
+      expect(mockDb.$transaction).not.toHaveBeenCalled();
+    });
   });
 
   // =============================================
@@ -386,4 +684,612 @@ describe('Webhooks E2E', () => {
       expect(response.body.timestamp).toBeDefined();
     });
   });
+
+  // =============================================
+  // Admin API - webhook event browser
+  // =============================================
+  describe('GET /admin/webhook-events', () => {
+    it('should reject requests without an admin API key', async () => {
+      const response = await request(app.getHttpServer()).get(
+        '/admin/webhook-events',
+      );
+
+      expect(response.status).toBe(401);
+      expect(mockDb.webhookEvent.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid admin API key', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/admin/webhook-events')
+        .set('x-admin-api-key', 'wrong_key');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should list events with filters and a cursor', async () => {
+      mockDb.webhookEvent.findMany.mockResolvedValue([
+        { id: 'c0a80121-0000-4000-8000-000000000001', status: 'FAILED' },
+        { id: 'c0a80121-0000-4000-8000-000000000002', status: 'FAILED' },
+      ]);
+
+      const response = await request(app.getHttpServer())
+        .get('/admin/webhook-events')
+        .query({ status: 'FAILED', error: 'deadlock', limit: '1' })
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.nextCursor).toBe(
+        'c0a80121-0000-4000-8000-000000000001',
+      );
+      expect(mockDb.webhookEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: 'FAILED',
+            processing_error: { contains: 'deadlock', mode: 'insensitive' },
+          },
+          take: 2,
+        }),
+      );
+    });
+
+    it('should reject invalid filters', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/admin/webhook-events')
+        .query({ status: 'NOT_A_STATUS', limit: '1000' })
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown event', async () => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue(null);
+
+      const response = await request(app.getHttpServer())
+        .get('/admin/webhook-events/c0a80121-0000-4000-8000-000000000009')
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return the stored payload with the payment and subscription', async () => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue({
+        id: 'c0a80121-0000-4000-8000-000000000001',
+        external_payment_id: 'pay_e2e_001',
+        payload: validPayload,
+        conflicts: [],
+      });
+      mockDb.payment.findUnique.mockResolvedValue({
+        id: 'pay-id',
+        user_id: 'user-id',
+        plan_type: 'monthly',
+      });
+      mockDb.subscription.findUnique.mockResolvedValue({ id: 'sub-id' });
+
+      const response = await request(app.getHttpServer())
+        .get('/admin/webhook-events/c0a80121-0000-4000-8000-000000000001')
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body.payload).toEqual(validPayload);
+      expect(response.body.payment.id).toBe('pay-id');
+      expect(response.body.subscription.id).toBe('sub-id');
+    });
+  });
+
+  describe('POST /admin/webhook-events/:id/replay', () => {
+    const eventId = 'c0a80121-0000-4000-8000-000000000001';
+
+    it('should reject requests without an admin API key', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/admin/webhook-events/${eventId}/replay`)
+        .send({});
+
+      expect(response.status).toBe(401);
+      expect(mockDb.webhookReplay.create).not.toHaveBeenCalled();
+    });
+
+    it('should replay the stored payload and attribute it to the admin', async () => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue({
+        id: eventId,
+        external_payment_id: 'pay_e2e_001',
+        event_type: 'payment.success',
+        status: 'PROCESSED',
+        payload: validPayload,
+      });
+      mockDb.webhookReplay.create.mockResolvedValue({ id: 'replay-id' });
+      mockDb.webhookReplay.update.mockImplementation((args: any) =>
+        Promise.resolve({ id: 'replay-id', ...args.data }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .post(`/admin/webhook-events/${eventId}/replay`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({});
+
+      expect(response.status).toBe(200);
+      // Not forced → idempotency check still applies
+      expect(response.body.outcome).toBe('DUPLICATE');
+      expect(mockDb.webhookReplay.create).toHaveBeenCalledWith({
+        data: {
+          webhook_event_id: eventId,
+          requested_by: 'e2e-admin',
+          force: false,
+        },
+      });
+    });
+
+    it('should reject a non-boolean force option', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/admin/webhook-events/${eventId}/replay`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ force: 'yes' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /admin/webhook-dead-letters', () => {
+    const eventId = 'c0a80121-0000-4000-8000-000000000002';
+    const deadLetter = {
+      id: eventId,
+      external_payment_id: 'pay_e2e_001',
+      event_type: 'payment.success',
+      status: 'EXHAUSTED',
+      payload: validPayload,
+    };
+
+    beforeEach(() => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue(deadLetter);
+      mockDb.webhookEvent.updateMany.mockResolvedValue({ count: 1 });
+      mockDb.webhookDeadLetterAction.create.mockImplementation((args: any) =>
+        Promise.resolve({ id: 'action-id', ...args.data }),
+      );
+      mockDb.$transaction.mockImplementation((fn: any) => fn(mockDb));
+    });
+
+    it('should reject requests without an admin API key', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/admin/webhook-dead-letters/${eventId}/discard`)
+        .send({});
+
+      expect(response.status).toBe(401);
+      expect(mockDb.webhookEvent.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should requeue an edited payload and attribute it to the admin', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/admin/webhook-dead-letters/${eventId}/requeue`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({
+          payload: { ...validPayload, email: 'fixed@example.com' },
+          reason: 'Typo in customer email',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        action: 'REQUEUE',
+        performed_by: 'e2e-admin',
+        reason: 'Typo in customer email',
+      });
+      const { data } = mockDb.webhookEvent.updateMany.mock.calls[0][0];
+      expect(data.status).toBe('RECEIVED');
+      expect(data.payload.email).toBe('fixed@example.com');
+    });
+
+    it('should validate an edited payload like a delivery', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/admin/webhook-dead-letters/${eventId}/requeue`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ payload: { ...validPayload, amount: -5 } });
+
+      expect(response.status).toBe(400);
+      expect(mockDb.webhookEvent.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to discard an event that is not dead-lettered', async () => {
+      mockDb.webhookEvent.findUnique.mockResolvedValue({
+        ...deadLetter,
+        status: 'PROCESSED',
+      });
+
+      const response = await request(app.getHttpServer())
+        .post(`/admin/webhook-dead-letters/${eventId}/discard`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ reason: 'Test payment' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should discard every dead letter matching the filters', async () => {
+      mockDb.webhookEvent.findMany.mockResolvedValue([deadLetter]);
+
+      const response = await request(app.getHttpServer())
+        .post('/admin/webhook-dead-letters/discard')
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ eventType: 'payment.success', reason: 'Sandbox traffic' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        matched: 1,
+        discarded: 1,
+        skipped: 0,
+        hasMore: false,
+      });
+      expect(mockDb.webhookEvent.findMany.mock.calls[0][0].where).toEqual({
+        event_type: 'payment.success',
+        status: 'EXHAUSTED',
+      });
+    });
+  });
+
+  describe('/admin/plans', () => {
+    it('should reject requests without an admin API key', async () => {
+      const response = await request(app.getHttpServer()).get('/admin/plans');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should list active plans', async () => {
+      mockDb.plan.findMany.mockResolvedValue([monthlyPlan]);
+
+      const response = await request(app.getHttpServer())
+        .get('/admin/plans?active=true')
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(mockDb.plan.findMany.mock.calls[0][0].where).toEqual({
+        active: true,
+      });
+    });
+
+    it('should create a plan with normalized currencies', async () => {
+      mockDb.plan.create.mockImplementation((args: any) =>
+        Promise.resolve({ id: 'plan-quarterly', ...args.data }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .post('/admin/plans')
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({
+          code: 'quarterly',
+          name: 'Quarterly',
+          billingInterval: 'MONTH',
+          intervalCount: 3,
+          prices: [{ currency: 'eur', amount: 2499 }],
+        });
+
+      expect(response.status).toBe(201);
+      expect(mockDb.plan.create.mock.calls[0][0].data.prices).toEqual({
+        create: [{ currency: 'EUR', amount: 2499 }],
+      });
+    });
+
+    it('should reject a plan without prices', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/admin/plans')
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({
+          code: 'quarterly',
+          name: 'Quarterly',
+          billingInterval: 'MONTH',
+          prices: [],
+        });
+
+      expect(response.status).toBe(400);
+      expect(mockDb.plan.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown plan', async () => {
+      const response = await request(app.getHttpServer())
+        .patch('/admin/plans/missing')
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ active: false });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('/admin/payment-reviews', () => {
+    const reviewId = 'c0a80121-0000-4000-8000-000000000003';
+
+    it('should reject requests without an admin API key', async () => {
+      const response = await request(app.getHttpServer()).get(
+        '/admin/payment-reviews',
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should list open reviews', async () => {
+      mockDb.paymentReview.findMany.mockResolvedValue([{ id: reviewId }]);
+
+      const response = await request(app.getHttpServer())
+        .get('/admin/payment-reviews?status=OPEN')
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        data: [{ id: reviewId }],
+        nextCursor: null,
+      });
+      expect(mockDb.paymentReview.findMany.mock.calls[0][0].where).toEqual({
+        status: 'OPEN',
+      });
+    });
+
+    it('should resolve a review and attribute it to the admin', async () => {
+      mockDb.paymentReview.findUnique.mockResolvedValue({
+        id: reviewId,
+        status: 'OPEN',
+      });
+      mockDb.paymentReview.update.mockImplementation((args: any) =>
+        Promise.resolve({ id: reviewId, ...args.data }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .post(`/admin/payment-reviews/${reviewId}/resolve`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ note: 'Refunded the difference' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        status: 'RESOLVED',
+        resolved_by: 'e2e-admin',
+        resolution_note: 'Refunded the difference',
+      });
+    });
+  });
+
+  describe('/admin/subscriptions/trials', () => {
+    it('should reject requests without an admin API key', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/admin/subscriptions/trials')
+        .send({ email: 'trial@example.com', planCode: 'monthly' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should start a trial for the user with that email', async () => {
+      mockDb.user.upsert.mockResolvedValue({ id: 'trial-user-id' });
+      mockDb.subscription.create.mockImplementation((args: any) =>
+        Promise.resolve({ id: 'trial-sub-id', ...args.data }),
+      );
+      mockDb.subscription.findUnique.mockResolvedValueOnce(null);
+      mockDb.subscription.findUnique.mockResolvedValueOnce({
+        id: 'trial-sub-id',
+        status: 'TRIALING',
+      });
+
+      const response = await request(app.getHttpServer())
+        .post('/admin/subscriptions/trials')
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ email: 'trial@example.com', planCode: 'monthly' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({ id: 'trial-sub-id', status: 'TRIALING' });
+      expect(mockDb.subscription.create.mock.calls[0][0].data).toMatchObject({
+        user_id: 'trial-user-id',
+        plan_type: 'monthly',
+        status: 'TRIALING',
+      });
+    });
+
+    it('should return 409 when the user already had a trial', async () => {
+      mockDb.user.upsert.mockResolvedValue({ id: 'trial-user-id' });
+      mockDb.subscription.findUnique.mockResolvedValueOnce({
+        id: 'trial-sub-id',
+        status: 'ACTIVE',
+        trial_started_at: new Date(),
+      });
+
+      const response = await request(app.getHttpServer())
+        .post('/admin/subscriptions/trials')
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ email: 'trial@example.com', planCode: 'monthly' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should return trial conversion stats per plan', async () => {
+      mockDb.subscription.groupBy
+        .mockResolvedValueOnce([{ plan_type: 'monthly', _count: { _all: 2 } }])
+        .mockResolvedValueOnce([{ plan_type: 'monthly', _count: { _all: 1 } }])
+        .mockResolvedValueOnce([]);
+
+      const response = await request(app.getHttpServer())
+        .get('/admin/subscriptions/trials/stats?planCode=monthly')
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          planCode: 'monthly',
+          started: 2,
+          converted: 1,
+          inTrial: 0,
+          lapsed: 1,
+          conversionRate: 0.5,
+        },
+      ]);
+    });
+  });
+
+  describe('/admin/subscriptions/:id', () => {
+    const subscriptionId = 'c0a80121-0000-4000-8000-000000000004';
+    const subscription = {
+      id: subscriptionId,
+      user_id: 'user-id',
+      plan_type: 'monthly',
+      status: 'ACTIVE',
+      is_lifetime: false,
+      expires_at: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+      billing_anchor_day: 1,
+      cancel_at_period_end: false,
+    };
+
+    beforeEach(() => {
+      mockDb.subscription.update.mockImplementation((args: any) =>
+        Promise.resolve({ ...subscription, ...args.data }),
+      );
+      mockDb.$transaction.mockImplementation(async (fn: any) =>
+        fn({
+          ...mockDb,
+          subscriptionEvent: { create: jest.fn() },
+          subscriptionPlanChange: { updateMany: jest.fn() },
+        }),
+      );
+    });
+
+    it('should return 404 for an unknown subscription', async () => {
+      mockDb.subscription.findUnique.mockResolvedValueOnce(null);
+
+      const response = await request(app.getHttpServer())
+        .post(`/admin/subscriptions/${subscriptionId}/cancel`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ mode: 'IMMEDIATE' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject an unknown cancellation mode', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/admin/subscriptions/${subscriptionId}/cancel`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ mode: 'SOMETIME' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should cancel at period end and store the reason', async () => {
+      mockDb.subscription.findUnique.mockResolvedValueOnce(subscription);
+
+      const response = await request(app.getHttpServer())
+        .post(`/admin/subscriptions/${subscriptionId}/cancel`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ mode: 'AT_PERIOD_END', reason: 'Switching provider' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        status: 'ACTIVE',
+        cancel_at_period_end: true,
+        cancellation_reason: 'Switching provider',
+        refund: null,
+      });
+    });
+
+    it('should reactivate a subscription cancelled at period end', async () => {
+      mockDb.subscription.findUnique.mockResolvedValueOnce({
+        ...subscription,
+        cancel_at_period_end: true,
+      });
+
+      const response = await request(app.getHttpServer())
+        .post(`/admin/subscriptions/${subscriptionId}/reactivate`)
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body.cancel_at_period_end).toBe(false);
+    });
+
+    it('should return the subscription timeline of a user', async () => {
+      mockDb.user.findUnique.mockResolvedValueOnce({ id: 'user-id' });
+      mockDb.subscriptionPeriod.findMany.mockResolvedValueOnce([
+        {
+          id: 'period-id',
+          subscription_id: subscriptionId,
+          reason: 'NEW',
+          payment_id: 'pay-id',
+        },
+      ]);
+
+      const response = await request(app.getHttpServer())
+        .get(
+          '/admin/subscriptions/users/c0a80121-0000-4000-8000-000000000005/timeline',
+        )
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        expect.objectContaining({ reason: 'NEW', payment_id: 'pay-id' }),
+      ]);
+    });
+
+    it('should reject a resume date that is not a date', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/admin/subscriptions/${subscriptionId}/pause`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({ resumeAt: 'after the holidays' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should refuse to pause a plan without pauses', async () => {
+      mockDb.subscription.findUnique.mockResolvedValueOnce(subscription);
+
+      const response = await request(app.getHttpServer())
+        .post(`/admin/subscriptions/${subscriptionId}/pause`)
+        .set('x-admin-api-key', ADMIN_API_KEY)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain("can't be paused");
+    });
+  });
+
+  describe('GET /users/:id/entitlements', () => {
+    const userId = 'c0a80121-0000-4000-8000-000000000006';
+
+    it('should require an API key', async () => {
+      const response = await request(app.getHttpServer()).get(
+        `/users/${userId}/entitlements`,
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should not accept an admin API key', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/users/${userId}/entitlements`)
+        .set('x-admin-api-key', ADMIN_API_KEY);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should check one feature against the active subscriptions', async () => {
+      mockDb.subscription.findMany.mockResolvedValueOnce([
+        {
+          id: 'sub-id',
+          plan_type: 'monthly',
+          status: 'ACTIVE',
+          is_lifetime: false,
+          expires_at: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+        },
+      ]);
+      mockDb.plan.findMany.mockResolvedValueOnce([
+        { code: 'monthly', entitlements: [{ key: 'export_csv', limit: null }] },
+      ]);
+
+      const allowed = await request(app.getHttpServer())
+        .get(`/users/${userId}/entitlements/export_csv`)
+        .set('x-entitlements-api-key', ENTITLEMENTS_API_KEY);
+      // Second check is answered from the cache
+      const denied = await request(app.getHttpServer())
+        .get(`/users/${userId}/entitlements/sso`)
+        .set('x-entitlements-api-key', ENTITLEMENTS_API_KEY);
+
+      expect(allowed.status).toBe(200);
+      expect(allowed.body).toMatchObject({
+        allowed: true,
+        subscriptionId: 'sub-id',
+        planCode: 'monthly',
+      });
+      expect(denied.body).toMatchObject({
+        allowed: false,
+        subscriptionId: null,
+      });
+      expect(mockDb.subscription.findMany).toHaveBeenCalledTimes(1);
+    });
+  });
 });